@@ -0,0 +1,72 @@
+import React from 'react';
+import { Icons } from './Icons';
+import { MessageKey, useT } from './i18n';
+
+const EMAILS = ['sikandarmalik415@gmail.com', 'sikandarmalik685@gmail.com', 'sikeji415@gmail.com'];
+
+const PURPOSES: MessageKey[] = ['about.purposeExplain', 'about.purposeExercises', 'about.purposeDiagrams', 'about.purposeSubjects'];
+
+const SOCIAL = [
+  { label: 'YouTube', name: 'Sike Games Review', href: 'https://www.youtube.com/@SikeGamesReview' },
+  { label: 'Facebook', name: 'Facebook Page', href: 'https://www.facebook.com/SikeGamesReview' },
+  { label: 'Instagram', name: '@sike_games.25', href: 'https://www.instagram.com/sike_games.25' },
+];
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="bg-slate-900 border border-slate-800 rounded-3xl p-5">
+    <h3 className="text-[10px] font-black uppercase tracking-widest text-cyan-400 mb-3">{title}</h3>
+    {children}
+  </section>
+);
+
+export const AboutView: React.FC = () => {
+  const t = useT();
+  // The creator's name is set in bold wherever the translation puts it.
+  const [before, after] = t('about.creatorIntro').split('{name}');
+  return (
+    <div className="flex-1 overflow-y-auto no-scrollbar p-4 flex flex-col gap-4">
+      <Section title={t('about.creatorTitle')}>
+        <p className="text-sm text-slate-300 leading-relaxed">
+          {before}<strong className="text-slate-50">Sikandar Ali Malik (Sike)</strong>{after} {t('about.creatorSubjects')}
+        </p>
+      </Section>
+      <Section title={t('about.purposeTitle')}>
+        <ul className="text-sm text-slate-300 flex flex-col gap-2 list-disc ps-5">
+          {PURPOSES.map(key => <li key={key}>{t(key)}</li>)}
+        </ul>
+      </Section>
+    </div>
+  );
+};
+
+export const ContactView: React.FC = () => {
+  const t = useT();
+  return (
+    <div className="flex-1 overflow-y-auto no-scrollbar p-4 flex flex-col gap-4">
+      <p className="text-sm text-slate-400 leading-relaxed px-1">
+        {t('contact.intro')}
+      </p>
+      <Section title={t('contact.email')}>
+        <ul className="flex flex-col gap-2">
+          {EMAILS.map(email => (
+            <li key={email}>
+              <a href={`mailto:${email}`} className="flex items-center gap-2 text-sm font-bold text-slate-100 btn-active">
+                <Icons.Mail className="h-4 w-4 text-cyan-400" /> {email}
+              </a>
+            </li>
+          ))}
+        </ul>
+      </Section>
+      <Section title={t('contact.social')}>
+        <ul className="flex flex-col gap-2">
+          {SOCIAL.map(s => (
+            <li key={s.label} className="flex items-center gap-3 text-sm">
+              <span className="w-20 text-[10px] font-black uppercase tracking-widest text-slate-500">{s.label}</span>
+              <a href={s.href} target="_blank" rel="noopener noreferrer" className="font-bold text-cyan-300 hover:underline">{s.name}</a>
+            </li>
+          ))}
+        </ul>
+      </Section>
+    </div>
+  );
+};
@@ -1,211 +1,595 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { streamQa, streamBooks, streamGrammar, getTranslation } from './geminiService';
+import React, { useState, useEffect, useRef, useSyncExternalStore } from 'react';
+import { streamForView, getTranslation } from './geminiService';
 import { Icons } from './Icons';
-import { Message, AppView, TranslatorResponse } from './types';
+import { Message, AppView, TranslatorResponse, ChatSession, ReviewCard, Attachment, Assignment, Settings } from './types';
+import { createSession, saveSession, deriveTitle } from './sessionStore';
+import { enqueue, countPending, flushOutbox } from './outbox';
+import { SessionList } from './SessionList';
+import { ExportSheet } from './ExportSheet';
+import { TutorError, toTutorError, isAbortError } from './errors';
+import { ErrorCard } from './ErrorCard';
+import { appendChunk } from './citations';
+import { loadSettings, subscribeSettings, updateSettings } from './settings';
+import { Header, NetworkBadge } from './Header';
+import { ChatInterface, SubjectChips } from './ChatInterface';
+import { BooksPage } from './BooksPage';
+import { AboutView, ContactView } from './AboutView';
+import { SettingsView } from './SettingsView';
+import { DiagramLibrary } from './DiagramLibrary';
+import { TranslationResult } from './TranslationResult';
+import { VocabularyView } from './VocabularyView';
+import { DocumentTranslator } from './DocumentTranslator';
+import { DrillView } from './DrillView';
+import { listDueWords } from './vocabStore';
+import { QuizView } from './QuizView';
+import { ProgressView } from './ProgressView';
+import { logActivity, gradeCard, listDueCards, recordQuiz } from './progressStore';
+import { Quality, REVIEW_GRADES } from './srs';
+import { TeacherView } from './TeacherView';
+import { AssignmentView } from './AssignmentView';
+import { getAssignment, listAssignments, readShareHash, receiveAssignment } from './assignments';
+import { Route, isChatView, parseRoute, routeHash } from './routes';
+import { VIEW_TITLES, errorMessage, useT, valueLabel } from './i18n';
 
-const ChatBubble: React.FC<{ message: Message }> = ({ message }) => {
-  const isUser = message.sender === 'user';
-  const contentRef = useRef<HTMLDivElement>(null);
-
-  useEffect(() => {
-    if (contentRef.current && !isUser) {
-      contentRef.current.innerHTML = (window as any).marked.parse(message.text || '');
-    }
-  }, [message.text, isUser]);
-
-  return (
-    <div className={`flex items-start gap-3 mb-5 ${isUser ? 'flex-row-reverse' : ''}`}>
-      <div className={`max-w-[85%] flex flex-col ${isUser ? 'items-end' : 'items-start'}`}>
-        <div className={`px-4 py-3 rounded-2xl text-[14px] leading-relaxed shadow-sm ${
-          isUser ? 'bg-cyan-600 text-white rounded-tr-none' : 'bg-slate-800 text-slate-200 rounded-tl-none border border-slate-700'
-        }`}>
-          {isUser ? <p className="whitespace-pre-wrap">{message.text}</p> : <div ref={contentRef} className="prose"></div>}
-        </div>
-        {!isUser && message.sources && message.sources.length > 0 && (
-          <div className="mt-2 flex flex-wrap gap-2">
-            {message.sources.map((s, idx) => (
-              <a key={idx} href={s.uri} target="_blank" rel="noreferrer" className="text-[10px] font-bold text-cyan-400 bg-cyan-400/10 px-2 py-1 rounded border border-cyan-400/20">
-                {s.title}
-              </a>
-            ))}
-          </div>
-        )}
-      </div>
+// Switches a view between its two modes: sentence or document translation,
+// grammar chat or drills.
+const ModeTabs: React.FC<{
+  labels: [string, string];
+  second: boolean;
+  activeClass: string;
+  onChange: (second: boolean) => void;
+}> = ({ labels, second, activeClass, onChange }) => (
+  <div className="flex-shrink-0 px-4 pt-4">
+    <div className="flex gap-1 bg-slate-900 border border-slate-800 rounded-2xl p-1">
+      {labels.map((label, i) => (
+        <button
+          key={label}
+          onClick={() => onChange(i === 1)}
+          className={`flex-1 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${
+            second === (i === 1) ? activeClass : 'text-slate-500'
+          }`}
+        >
+          {label}
+        </button>
+      ))}
     </div>
-  );
-};
+  </div>
+);
 
 export default function App() {
-  const [view, setView] = useState<AppView>('dashboard');
+  // The address the app was opened at. An assignment link waits on the view
+  // until the assignment has been read from storage.
+  const [start] = useState<Route>(() => parseRoute(location.hash) || { view: 'dashboard' });
+  const settings = useSyncExternalStore(subscribeSettings, loadSettings);
+  const t = useT();
+  const [view, setView] = useState<AppView>(start.view);
   const [messages, setMessages] = useState<Message[]>([]);
-  const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
-  const [subject, setSubject] = useState('Physics');
-  const [lang, setLang] = useState('English');
+  const [subject, setSubject] = useState(start.subject || settings.defaultSubject);
+  const [lang, setLang] = useState(settings.answerLang);
   const [transResult, setTransResult] = useState<TranslatorResponse | null>(null);
-  const scrollRef = useRef<HTMLDivElement>(null);
+  const [transError, setTransError] = useState<{ error: TutorError; input: string } | null>(null);
+  const [translatingDocument, setTranslatingDocument] = useState(start.mode === 'document');
+  const [drilling, setDrilling] = useState(start.mode === 'drills');
+  const [session, setSession] = useState<ChatSession | null>(() => isChatView(start.view) ? createSession(start.view, subject, lang) : null);
+  const [online, setOnline] = useState(navigator.onLine);
+  const [pendingCount, setPendingCount] = useState(0);
+  const sessionIdRef = useRef<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [dueCards, setDueCards] = useState<ReviewCard[]>([]);
+  const [reviewing, setReviewing] = useState<ReviewCard | null>(null);
+  const [queuedPrompt, setQueuedPrompt] = useState<string | null>(null);
+  const [assignment, setAssignment] = useState<Assignment | null>(null);
+  const [received, setReceived] = useState<Assignment[]>([]);
+  const [dueWords, setDueWords] = useState(0);
+  const [linkError, setLinkError] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
 
+  // Persist the thread once a reply has finished streaming.
   useEffect(() => {
-    if (scrollRef.current) {
-      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
-    }
-  }, [messages, loading, transResult]);
+    if (!session || loading || messages.length === 0) return;
+    saveSession({ ...session, subject, lang, messages }).catch(err => console.error(err));
+  }, [messages, loading]);
 
-  const handleSend = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!input.trim() || loading) return;
+  useEffect(() => { sessionIdRef.current = session?.id ?? null; }, [session]);
 
-    const currentInput = input;
-    setInput('');
+  // Sends questions queued while offline, whenever the connection returns or
+  // the service worker's background sync asks for it.
+  useEffect(() => {
+    const refreshPending = () => countPending().then(setPendingCount).catch(() => {});
+    const flush = () => flushOutbox((sessionId, reply) => {
+      if (sessionId === sessionIdRef.current) setMessages(prev => prev.map(m => (m.id === reply.id ? reply : m)));
+    }).catch(err => console.error(err)).finally(refreshPending);
+    const goOnline = () => { setOnline(true); flush(); };
+    const goOffline = () => setOnline(false);
+    const onSwMessage = (e: MessageEvent) => { if (e.data?.type === 'flush-outbox') flush(); };
 
-    if (view === 'translator') {
-      setLoading(true);
-      setTransResult(null);
-      try {
-        const res = await getTranslation(currentInput, lang);
-        setTransResult(res);
-      } catch (err) { console.error(err); }
-      setLoading(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    navigator.serviceWorker?.addEventListener('message', onSwMessage);
+    if (navigator.onLine) flush(); else refreshPending();
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+      navigator.serviceWorker?.removeEventListener('message', onSwMessage);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (view !== 'dashboard') return;
+    listDueCards().then(setDueCards).catch(err => console.error(err));
+    listAssignments(false).then(setReceived).catch(err => console.error(err));
+    listDueWords().then(words => setDueWords(words.length)).catch(err => console.error(err));
+  }, [view]);
+
+  // Opens an assignment link from a tutor, on start or when one is followed
+  // while the app is already open. The hash is cleared so a reload or the
+  // back button does not import it again.
+  useEffect(() => {
+    const openLink = () => {
+      const payload = readShareHash();
+      if (!payload) return;
+      history.replaceState(null, '', location.pathname + location.search);
+      receiveAssignment(payload)
+        .then(a => { setLinkError(false); openAssignment(a); })
+        .catch(err => { console.error(err); setLinkError(true); });
+    };
+    openLink();
+    window.addEventListener('hashchange', openLink);
+    return () => window.removeEventListener('hashchange', openLink);
+  }, []);
+
+  useEffect(() => {
+    if (start.view !== 'assignment') return;
+    if (!start.id) { openView('dashboard'); return; }
+    getAssignment(start.id)
+      .then(a => a ? setAssignment(a) : openView('dashboard'))
+      .catch(err => { console.error(err); openView('dashboard'); });
+  }, []);
+
+  // Keeps the address in step with what is on screen. Moving to another view
+  // adds a history entry for the back button; changing subject or mode within
+  // a view only rewrites the current one.
+  useEffect(() => {
+    if (view === 'assignment' && !assignment) return;
+    const hash = routeHash({
+      view,
+      subject,
+      mode: view === 'translator' && translatingDocument ? 'document' : view === 'grammar' && drilling ? 'drills' : undefined,
+      id: assignment?.id,
+    });
+    if (location.hash === hash) return;
+    const current = parseRoute(location.hash);
+    if (!current || current.view === view) history.replaceState(history.state, '', hash);
+    else history.pushState({ inApp: true }, '', hash);
+  }, [view, subject, translatingDocument, drilling, assignment]);
+
+  // Back, forward and addresses typed into the location bar.
+  useEffect(() => {
+    const onPop = () => applyRoute(parseRoute(location.hash));
+    window.addEventListener('popstate', onPop);
+    return () => window.removeEventListener('popstate', onPop);
+  });
+
+  // A review opens its view first and asks once that view has rendered.
+  useEffect(() => {
+    if (!queuedPrompt || view === 'dashboard' || view === 'progress') return;
+    setQueuedPrompt(null);
+    ask(queuedPrompt);
+  }, [queuedPrompt, view]);
+
+  const stop = () => abortRef.current?.abort();
+
+  // A new default subject or answer language also applies from now on, not
+  // only on the next start.
+  const changeSettings = (patch: Partial<Settings>) => {
+    updateSettings(patch);
+    if (patch.defaultSubject) setSubject(patch.defaultSubject);
+    if (patch.answerLang) setLang(patch.answerLang);
+  };
+
+  const openView = (next: AppView, nextSubject = subject) => {
+    stop();
+    setMessages([]);
+    setTransResult(null);
+    setTransError(null);
+    setReviewing(null);
+    setSubject(nextSubject);
+    setSession(isChatView(next) ? createSession(next, nextSubject, lang) : null);
+    setView(next);
+  };
+
+  const applyRoute = (route: Route | null) => {
+    const next: Route = route || { view: 'dashboard' };
+    if (next.view === 'assignment') {
+      if (view === 'assignment' && next.id === assignment?.id) return;
+      if (!next.id) { openView('dashboard'); return; }
+      getAssignment(next.id)
+        .then(a => a ? openAssignment(a) : openView('dashboard'))
+        .catch(err => console.error(err));
       return;
     }
+    const nextSubject = next.subject || subject;
+    if (next.view === 'translator') setTranslatingDocument(next.mode === 'document');
+    if (next.view === 'grammar') setDrilling(next.mode === 'drills');
+    if (next.view !== view) openView(next.view, nextSubject);
+    else setSubject(nextSubject);
+  };
 
-    const userMsg: Message = { id: Date.now().toString(), text: currentInput, sender: 'user' };
-    setMessages(p => [...p, userMsg]);
-    setLoading(true);
+  // Back steps through the app's own history where there is some, so a deep
+  // link opened from elsewhere still lands on the dashboard.
+  const goBack = () => {
+    if (history.state?.inApp) history.back();
+    else openView('dashboard');
+  };
 
-    const botId = (Date.now() + 1).toString();
-    setMessages(p => [...p, { id: botId, text: '', sender: 'bot' }]);
+  const startReview = (card: ReviewCard) => {
+    openView(card.view, card.subject);
+    setReviewing(card);
+    setQueuedPrompt(card.prompt);
+  };
+
+  const openAssignment = (a: Assignment) => {
+    openView('assignment');
+    setAssignment(a);
+  };
+
+  const finishReview = (quality: Quality) => {
+    if (!reviewing) return;
+    gradeCard(reviewing, quality).catch(err => console.error(err));
+    setReviewing(null);
+  };
+
+  const openSession = (s: ChatSession) => {
+    stop();
+    setShowHistory(false);
+    setTransResult(null);
+    setReviewing(null);
+    setSubject(s.subject);
+    setLang(s.lang);
+    setMessages(s.messages);
+    setSession(s);
+    setView(s.view);
+  };
+
+  // Deleting the open thread from history leaves an empty one in its place;
+  // otherwise the next save would write the deleted thread back.
+  const sessionDeleted = (id: string) => {
+    if (id !== session?.id) return;
+    stop();
+    setMessages([]);
+    setSession(createSession(session.view, subject, lang));
+  };
 
+  const translate = async (text: string) => {
+    setLoading(true);
+    setTransResult(null);
+    setTransError(null);
     try {
-      let stream;
-      if (view === 'qa') stream = streamQa(currentInput, subject, lang);
-      else if (view === 'books') stream = streamBooks(currentInput, subject, lang);
-      else if (view === 'grammar') stream = streamGrammar(currentInput, lang);
-      
+      const res = await getTranslation(text, lang);
+      setTransResult(res);
+    } catch (err) {
+      setTransError({ error: toTutorError(err), input: text });
+    }
+    setLoading(false);
+  };
+
+  // Streams the reply to `prompt` into the bot message `botId`. `history` is
+  // the thread as it stood before the prompt was asked.
+  // Stopping keeps whatever text has already arrived; a reply stopped before
+  // any did is put back to `previous` (the answer being regenerated), or
+  // removed rather than saved empty when there was none.
+  const runReply = async (botId: string, prompt: string, history: Message[], images: Attachment[] = [], previous?: Message) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+    setLoading(true);
+    try {
+      const stream = streamForView(view, prompt, subject, lang, history, images, signal);
       if (stream) {
         for await (const chunk of stream) {
-          setMessages(p => p.map(m => m.id === botId ? { 
-            ...m, 
-            text: m.text + chunk.text, 
-            sources: [...(m.sources || []), ...chunk.sources].filter((v, i, a) => a.findIndex(t => t.uri === v.uri) === i)
-          } : m));
+          setMessages(p => p.map(m => m.id === botId ? { ...m, ...appendChunk(m, chunk) } : m));
         }
       }
-    } catch (err) { console.error(err); }
+    } catch (err) {
+      if (!isAbortError(err) && !signal.aborted) {
+        const { kind } = toTutorError(err);
+        setMessages(p => p.map(m => m.id === botId ? { ...m, error: { kind } } : m));
+      }
+    }
+    if (signal.aborted) {
+      setMessages(p => previous
+        ? p.map(m => (m.id === botId && !m.text && !m.error ? previous : m))
+        : p.filter(m => m.id !== botId || m.text || m.error));
+    }
+    if (abortRef.current === controller) abortRef.current = null;
     setLoading(false);
   };
 
+  const ask = async (currentInput: string, images: Attachment[] = []) => {
+    if (view === 'translator') {
+      await translate(currentInput);
+      return;
+    }
+
+    const userMsg: Message = {
+      id: Date.now().toString(),
+      text: currentInput,
+      sender: 'user',
+      attachments: images.length ? images : undefined,
+    };
+    if ((view === 'qa' || view === 'practical') && currentInput !== reviewing?.prompt) {
+      logActivity('question', subject, deriveTitle([userMsg])).catch(err => console.error(err));
+    }
+    const botId = (Date.now() + 1).toString();
+
+    if (!navigator.onLine && session) {
+      const next = [...messages, userMsg, { id: botId, text: '', sender: 'bot' as const, pending: true }];
+      setMessages(next);
+      try {
+        await saveSession({ ...session, subject, lang, messages: next });
+        await enqueue(session.id, botId);
+        setPendingCount(await countPending());
+      } catch (err) {
+        // Storage can be full or unavailable (private mode); the question
+        // then cannot wait in the outbox.
+        console.error(err);
+        setMessages(p => p.map(m => m.id === botId ? { ...m, pending: false, error: { kind: 'storage' } } : m));
+        setLoading(false);
+      }
+      return;
+    }
+
+    setMessages(p => [...p, userMsg, { id: botId, text: '', sender: 'bot' }]);
+    await runReply(botId, currentInput, messages, images);
+  };
+
+  // Re-asks the question behind a bot reply and streams a fresh answer in its
+  // place. Used both for Retry after an error and for Regenerate.
+  const rerun = (botId: string) => {
+    const idx = messages.findIndex(m => m.id === botId);
+    const question = messages[idx - 1];
+    if (loading || !question || question.sender !== 'user') return;
+    setMessages(p => p.map(m => m.id === botId ? { ...m, text: '', sources: [], citations: [], promptVersion: undefined, error: undefined } : m));
+    runReply(botId, question.text, messages.slice(0, idx - 1), question.attachments, messages[idx]);
+  };
+
+  const historyPanel = showHistory && (
+    <SessionList
+      view={view === 'dashboard' ? undefined : view}
+      activeId={session?.id}
+      onOpen={openSession}
+      onDeleted={sessionDeleted}
+      onClose={() => setShowHistory(false)}
+    />
+  );
+
   if (view === 'dashboard') {
     return (
-      <div className="h-screen bg-slate-950 flex flex-col p-6 max-w-[600px] mx-auto overflow-hidden">
-        <header className="pt-8 pb-10">
+      <div className="h-screen bg-slate-950 flex flex-col p-6 max-w-[600px] mx-auto overflow-y-auto no-scrollbar">
+        {historyPanel}
+        <header className="pt-8 pb-10 flex items-center justify-between">
           <div className="flex items-center gap-3">
             <div className="bg-cyan-600 p-3 rounded-2xl shadow-xl shadow-cyan-600/30">
               <Icons.Logo className="h-7 w-7 text-white" />
             </div>
             <div>
-              <h1 className="text-2xl font-black tracking-tight text-white uppercase italic leading-none">SigNify AI</h1>
-              <p className="text-[10px] uppercase tracking-[0.25em] font-bold text-slate-500 mt-1.5">Sindh Board Study Tutor</p>
+              <h1 className="text-2xl font-black tracking-tight text-slate-50 uppercase italic leading-none">SigNify AI</h1>
+              <p className="text-[10px] uppercase tracking-[0.25em] font-bold text-slate-500 mt-1.5">{t('dashboard.tagline')}</p>
+              <div className="mt-2"><NetworkBadge online={online} pending={pendingCount} /></div>
             </div>
           </div>
+          <div className="flex gap-2">
+            <button onClick={() => openView('settings')} className="p-3 rounded-2xl bg-slate-900 border border-slate-800 text-slate-400 btn-active" title={t('view.settings')}>
+              <Icons.Sliders className="h-5 w-5" />
+            </button>
+            <button onClick={() => setShowHistory(true)} className="p-3 rounded-2xl bg-slate-900 border border-slate-800 text-slate-400 btn-active" title={t('common.history')}>
+              <Icons.History className="h-5 w-5" />
+            </button>
+          </div>
         </header>
 
+        {linkError && (
+          <p className="flex items-center gap-2 text-xs text-red-300 bg-red-950/30 border border-red-500/30 rounded-2xl px-3 py-2 mb-6">
+            <Icons.Alert className="h-4 w-4 flex-shrink-0" /> {t('assignment.linkDamaged')}
+          </p>
+        )}
+
         <div className="grid grid-cols-2 gap-4">
           {[
-            { id: 'qa', label: 'AI Tutor', icon: <Icons.CourseQA className="h-8 w-8" />, desc: 'Concept Q&A', color: 'bg-cyan-600/10 border-cyan-500/20' },
-            { id: 'books', label: 'Solved', icon: <Icons.Books className="h-8 w-8" />, desc: 'Exercises', color: 'bg-emerald-600/10 border-emerald-500/20' },
-            { id: 'translator', label: 'Translate', icon: <Icons.Translator className="h-8 w-8" />, desc: '3 Languages', color: 'bg-amber-600/10 border-amber-500/20' },
-            { id: 'grammar', label: 'Grammar', icon: <Icons.Grammar className="h-8 w-8" />, desc: 'Tables & Rules', color: 'bg-purple-600/10 border-purple-500/20' },
+            { id: 'qa', label: t('view.qa'), icon: <Icons.CourseQA className="h-8 w-8" />, desc: t('dashboard.qaDesc'), color: 'bg-cyan-600/10 border-cyan-500/20' },
+            { id: 'books', label: t('view.books'), icon: <Icons.Books className="h-8 w-8" />, desc: t('dashboard.booksDesc'), color: 'bg-emerald-600/10 border-emerald-500/20' },
+            { id: 'practical', label: t('view.practical'), icon: <Icons.Flask className="h-8 w-8" />, desc: t('dashboard.practicalDesc'), color: 'bg-sky-600/10 border-sky-500/20' },
+            { id: 'translator', label: t('view.translator'), icon: <Icons.Translator className="h-8 w-8" />, desc: dueWords ? t('dashboard.wordsDue', { count: dueWords }) : t('dashboard.translatorDesc'), color: 'bg-amber-600/10 border-amber-500/20' },
+            { id: 'grammar', label: t('view.grammar'), icon: <Icons.Grammar className="h-8 w-8" />, desc: t('dashboard.grammarDesc'), color: 'bg-purple-600/10 border-purple-500/20' },
+            { id: 'quiz', label: t('view.quiz'), icon: <Icons.Quiz className="h-8 w-8" />, desc: t('dashboard.quizDesc'), color: 'bg-rose-600/10 border-rose-500/20' },
+            { id: 'progress', label: t('view.progress'), icon: <Icons.Chart className="h-8 w-8" />, desc: dueCards.length ? t('dashboard.cardsDue', { count: dueCards.length }) : t('dashboard.progressDesc'), color: 'bg-indigo-600/10 border-indigo-500/20' },
           ].map(item => (
             <button
               key={item.id}
-              onClick={() => { setMessages([]); setTransResult(null); setView(item.id as AppView); }}
-              className={`dashboard-card p-5 rounded-3xl border flex flex-col items-start gap-5 text-left ${item.color}`}
+              onClick={() => openView(item.id as AppView)}
+              className={`dashboard-card p-5 rounded-3xl border flex flex-col items-start gap-5 text-start ${item.color}`}
             >
               <div className="p-3 bg-white/5 rounded-2xl">{item.icon}</div>
               <div>
                 <span className="block text-[10px] font-black text-slate-500 uppercase tracking-widest mb-1">{item.desc}</span>
-                <span className="text-lg font-black text-white leading-tight">{item.label}</span>
+                <span className="text-lg font-black text-slate-50 leading-tight">{item.label}</span>
               </div>
             </button>
           ))}
         </div>
 
+        {dueCards.length > 0 && (
+          <section className="mt-8">
+            <h3 className="text-[10px] font-black uppercase tracking-widest text-indigo-400 mb-3">{t('dashboard.dueForReview')}</h3>
+            <div className="flex flex-col gap-2">
+              {dueCards.slice(0, 3).map(card => (
+                <button
+                  key={card.id}
+                  onClick={() => startReview(card)}
+                  className="flex items-center gap-3 text-start bg-slate-900 border border-slate-800 rounded-2xl px-4 py-3 btn-active"
+                >
+                  <span className="text-[9px] font-black uppercase tracking-widest text-indigo-300 bg-indigo-400/10 rounded-lg px-2 py-1 flex-shrink-0">{valueLabel(t, 'subject', card.subject)}</span>
+                  <span className="flex-1 text-sm font-bold text-slate-100 truncate">{card.topic}</span>
+                  <Icons.Refresh className="h-4 w-4 text-slate-500 flex-shrink-0" />
+                </button>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {received.length > 0 && (
+          <section className="mt-8">
+            <h3 className="text-[10px] font-black uppercase tracking-widest text-teal-400 mb-3">{t('dashboard.assignments')}</h3>
+            <div className="flex flex-col gap-2">
+              {received.slice(0, 3).map(a => (
+                <button
+                  key={a.id}
+                  onClick={() => openAssignment(a)}
+                  className="flex items-center gap-3 text-start bg-slate-900 border border-slate-800 rounded-2xl px-4 py-3 btn-active"
+                >
+                  <span className="text-[9px] font-black uppercase tracking-widest text-teal-300 bg-teal-400/10 rounded-lg px-2 py-1 flex-shrink-0">{valueLabel(t, 'subject', a.subject)}</span>
+                  <span dir="auto" className="flex-1 text-sm font-bold text-slate-100 truncate">{a.title}</span>
+                  <span className="text-[10px] font-bold text-slate-500 flex-shrink-0">{t('dashboard.questionCount', { count: a.questions.length })}</span>
+                </button>
+              ))}
+            </div>
+          </section>
+        )}
+
         <footer className="mt-auto py-8 flex flex-col items-center gap-2">
-          <p className="text-[10px] text-slate-700 uppercase tracking-[0.3em] font-black">Powered by Gemini 2.5 Flash</p>
-          <p className="text-[10px] text-slate-800 font-bold">Developed by Sike Ali</p>
+          <button onClick={() => openView('teacher')} className="mb-4 px-4 py-2 rounded-full border border-teal-500/30 text-[10px] font-black uppercase tracking-widest text-teal-400 btn-active">
+            {t('dashboard.teacherMode')}
+          </button>
+          <p className="text-[10px] text-slate-700 uppercase tracking-[0.3em] font-black">{t('dashboard.poweredBy')}</p>
+          <p className="text-[10px] text-slate-800 font-bold">{t('dashboard.developedBy')}</p>
+          <div className="flex gap-4 mt-1">
+            <button onClick={() => openView('about')} className="text-[10px] font-black uppercase tracking-widest text-slate-600 btn-active">{t('view.about')}</button>
+            <button onClick={() => openView('contact')} className="text-[10px] font-black uppercase tracking-widest text-slate-600 btn-active">{t('view.contact')}</button>
+          </div>
         </footer>
       </div>
     );
   }
 
-  return (
-    <div className="h-screen max-w-[600px] mx-auto flex flex-col bg-slate-950 relative overflow-hidden">
-      <header className="flex-shrink-0 flex items-center justify-between px-4 py-4 border-b border-slate-900 bg-slate-950/80 backdrop-blur-md sticky top-0 z-20">
-        <button onClick={() => setView('dashboard')} className="p-2 -ml-2 text-slate-400 btn-active flex items-center gap-2">
-          <Icons.Logo className="h-5 w-5 rotate-180" />
-          <span className="text-[10px] font-black uppercase tracking-widest">Back</span>
+  const chat = {
+    messages,
+    loading,
+    lang,
+    policy: settings.sourcePolicy,
+    onPolicyChange: sourcePolicy => updateSettings({ sourcePolicy }),
+    onSend: (text: string, images: Attachment[]) => { ask(text, images); },
+    onRerun: rerun,
+    onStop: stop,
+  };
+
+  const reviewBar = reviewing && !loading && messages.some(m => m.sender === 'bot' && m.text) && (
+    <div className="flex items-center gap-2 bg-slate-900 border border-indigo-500/30 rounded-2xl p-2 ps-4">
+      <span className="flex-1 text-[10px] font-black uppercase tracking-widest text-indigo-300">{t('review.prompt')}</span>
+      {REVIEW_GRADES.map(g => (
+        <button key={g.label} onClick={() => finishReview(g.quality)} className="px-2.5 py-1.5 rounded-xl bg-slate-800 text-[10px] font-black uppercase tracking-widest text-slate-200 btn-active">
+          {t(g.label)}
         </button>
-        <h2 className="text-xs font-black uppercase tracking-[0.2em] text-slate-100">{view}</h2>
-        <div className="w-10"></div>
-      </header>
-
-      <main className="flex-1 overflow-y-auto no-scrollbar p-4 pb-48" ref={scrollRef}>
-        {view === 'translator' && transResult && (
-          <div className="animate-in fade-in slide-in-from-bottom-2 duration-300 mb-8">
-            <div className="bg-slate-900 border border-slate-800 p-6 rounded-3xl shadow-2xl">
-              <h3 className="text-[10px] font-black uppercase tracking-widest text-cyan-500 mb-3">Translation</h3>
-              <p className="text-xl font-bold text-white mb-6 leading-relaxed rtl">{transResult.mainTranslation}</p>
-              <h3 className="text-[10px] font-black uppercase tracking-widest text-cyan-500 mb-3">Breakdown</h3>
-              <div className="overflow-hidden rounded-2xl border border-slate-800">
-                <table className="w-full text-xs text-left">
-                  <thead className="bg-slate-800/50">
-                    <tr>
-                      <th className="p-3 text-slate-500">Original</th>
-                      <th className="p-3 text-slate-500">Translation</th>
-                    </tr>
-                  </thead>
-                  <tbody className="bg-slate-900/50">
-                    {transResult.wordByWord.map((w, i) => (
-                      <tr key={i} className="border-t border-slate-800/50">
-                        <td className="p-3 font-bold text-slate-300">{w.original}</td>
-                        <td className="p-3 text-cyan-400 font-bold rtl">{w.translation}</td>
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
-            </div>
-          </div>
-        )}
+      ))}
+    </div>
+  );
 
-        {messages.map(m => <ChatBubble key={m.id} message={m} />)}
-        {loading && (
-          <div className="flex gap-2 animate-pulse mb-8 items-center px-4">
-            <div className="h-1.5 w-1.5 bg-cyan-500 rounded-full" />
-            <div className="h-1.5 w-12 bg-slate-800 rounded-full" />
-          </div>
-        )}
-      </main>
+  const chatActions = (
+    <div className="flex items-center gap-1 -me-2">
+      <button onClick={() => openView(view)} disabled={loading} className="p-2 text-slate-400 btn-active disabled:opacity-30" title={t('chat.newChat')}>
+        <Icons.Plus className="h-5 w-5" />
+      </button>
+      <button onClick={() => setShowExport(true)} disabled={loading || !messages.some(m => m.sender === 'bot')} className="p-2 text-slate-400 btn-active disabled:opacity-30" title={t('chat.export')}>
+        <Icons.Download className="h-5 w-5" />
+      </button>
+      <button onClick={() => setShowHistory(true)} className="p-2 text-slate-400 btn-active" title={t('common.history')}>
+        <Icons.History className="h-5 w-5" />
+      </button>
+    </div>
+  );
 
-      <div className="fixed bottom-0 left-0 right-0 p-4 bg-gradient-to-t from-slate-950 via-slate-950 to-transparent z-10">
-        <div className="max-w-[600px] mx-auto flex flex-col gap-3">
-          {(view === 'qa' || view === 'books') && (
-            <div className="flex gap-2 overflow-x-auto no-scrollbar py-1">
-              {['Physics', 'Chemistry', 'Math', 'Bio', 'English', 'Urdu', 'Sindhi'].map(s => (
-                <button
-                  key={s}
-                  onClick={() => setSubject(s)}
-                  className={`flex-shrink-0 px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest transition-all border ${
-                    subject === s ? 'bg-cyan-600 border-cyan-500 text-white shadow-lg shadow-cyan-600/20' : 'bg-slate-900 border-slate-800 text-slate-500'
-                  }`}
-                >
-                  {s}
-                </button>
-              ))}
-            </div>
-          )}
-          {view === 'translator' && (
+  return (
+    <div className="h-screen max-w-[600px] mx-auto flex flex-col bg-slate-950 relative overflow-hidden">
+      {historyPanel}
+      <Header
+        title={t(VIEW_TITLES[view])}
+        online={online}
+        pending={pendingCount}
+        onBack={goBack}
+        actions={view === 'translator' ? (
+          <button onClick={() => openView('vocabulary')} className="p-2 -me-2 text-slate-400 btn-active" title={t('view.vocabulary')}>
+            <Icons.Bookmark className="h-5 w-5" />
+          </button>
+        ) : isChatView(view) && !(view === 'grammar' && drilling) ? chatActions : undefined}
+      />
+      {showExport && session && (
+        <ExportSheet
+          session={{ ...session, subject, lang, messages, title: session.title || deriveTitle(messages), updatedAt: Date.now() }}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+      {view === 'translator' && (
+        <ModeTabs
+          labels={[t('mode.sentence'), t('mode.document')]}
+          second={translatingDocument}
+          activeClass="bg-amber-600 text-white shadow-lg shadow-amber-600/20"
+          onChange={setTranslatingDocument}
+        />
+      )}
+      {view === 'grammar' && (
+        <ModeTabs
+          labels={[t('mode.ask'), t('mode.drills')]}
+          second={drilling}
+          activeClass="bg-purple-600 text-white shadow-lg shadow-purple-600/20"
+          onChange={setDrilling}
+        />
+      )}
+
+      {view === 'quiz' ? (
+        <QuizView initialSubject={subject} lang={lang} onFinish={r => { recordQuiz(r).catch(err => console.error(err)); }} />
+      ) : view === 'progress' ? (
+        <ProgressView initialSubject={subject} onReview={startReview} />
+      ) : view === 'vocabulary' ? (
+        <VocabularyView />
+      ) : view === 'teacher' ? (
+        <TeacherView initialSubject={subject} lang={lang} />
+      ) : view === 'assignment' ? (
+        assignment && <AssignmentView assignment={assignment} lang={lang} />
+      ) : view === 'about' ? (
+        <AboutView />
+      ) : view === 'contact' ? (
+        <ContactView />
+      ) : view === 'settings' ? (
+        <SettingsView settings={settings} onChange={changeSettings} />
+      ) : view === 'translator' && translatingDocument ? (
+        <DocumentTranslator lang={lang} onLangChange={setLang} onOpenGlossary={() => openView('vocabulary')} />
+      ) : view === 'grammar' && drilling ? (
+        <DrillView />
+      ) : view === 'translator' ? (
+        <ChatInterface
+          key="translator"
+          {...chat}
+          messages={[]}
+          onStop={undefined}
+          placeholder={t('chat.translatePlaceholder')}
+          scrollKey={transResult}
+          before={
+            <>
+              {transResult && (
+                <TranslationResult result={transResult} lang={lang} onOpenGlossary={() => openView('vocabulary')} />
+              )}
+              {transError && (
+                <div className="mb-8">
+                  <ErrorCard
+                    message={errorMessage(t, transError.error.kind)}
+                    onRetry={() => translate(transError.input)}
+                  />
+                </div>
+              )}
+            </>
+          }
+          toolbar={
             <div className="flex gap-2">
               {['Urdu', 'Sindhi', 'English'].map(l => (
                 <button
@@ -215,28 +599,34 @@ export default function App() {
                     lang === l ? 'bg-amber-600 border-amber-500 text-white shadow-lg shadow-amber-600/20' : 'bg-slate-900 border-slate-800 text-slate-500'
                   }`}
                 >
-                  {l}
+                  {valueLabel(t, 'lang', l)}
                 </button>
               ))}
             </div>
+          }
+        />
+      ) : view === 'books' ? (
+        <BooksPage key={session?.id} {...chat} subject={subject} onSubjectChange={setSubject} toolbar={reviewBar} />
+      ) : (
+        <ChatInterface
+          key={session?.id ?? view}
+          {...chat}
+          photos={view !== 'grammar'}
+          before={view === 'practical' && messages.length === 0 && (
+            <DiagramLibrary subject={subject} onPick={d => ask(`Explain the diagram "${d.title}" and each of its labelled parts.`)} />
           )}
-          <form onSubmit={handleSend} className="flex gap-2 items-center bg-slate-900 p-2 rounded-2xl border border-slate-800 shadow-2xl focus-within:border-cyan-500/50 transition-colors">
-            <input
-              value={input}
-              onChange={e => setInput(e.target.value)}
-              placeholder={view === 'translator' ? "Text to translate..." : `Ask about ${subject}...`}
-              className="flex-1 bg-transparent border-none focus:ring-0 text-sm px-4 py-3 placeholder-slate-600 text-slate-100"
-            />
-            <button
-              type="submit"
-              disabled={!input.trim() || loading}
-              className="bg-cyan-600 p-3 rounded-xl disabled:opacity-20 btn-active shadow-lg shadow-cyan-600/20 text-white"
-            >
-              <Icons.Send className="h-5 w-5" />
-            </button>
-          </form>
-        </div>
-      </div>
+          placeholder={
+            view === 'grammar' ? t('chat.grammarPlaceholder')
+              : t(view === 'practical' ? 'chat.practicalPlaceholder' : 'chat.askPlaceholder', { subject: valueLabel(t, 'subject', subject) })
+          }
+          toolbar={
+            <>
+              {reviewBar}
+              {view !== 'grammar' && <SubjectChips subject={subject} onChange={setSubject} />}
+            </>
+          }
+        />
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,143 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Icons } from './Icons';
+import { MicButton } from './MicButton';
+import { Assignment, Submission } from './types';
+import { detectDirection } from './bidi';
+import { draftFor, saveSubmission, submissionFileName, submissionToJson } from './assignments';
+import { downloadFile } from './threadExport';
+import { useT, valueLabel } from './i18n';
+
+const bubble = 'max-w-[85%] px-4 py-3 rounded-3xl text-sm leading-relaxed whitespace-pre-wrap';
+
+// A student working through an assignment from a share link. Questions are
+// asked one at a time in chat form; answers are saved on the device as a
+// draft and sent back to the tutor as a submission file.
+export const AssignmentView: React.FC<{
+  assignment: Assignment;
+  lang: string;
+}> = ({ assignment, lang }) => {
+  const [submission, setSubmission] = useState<Submission | null>(null);
+  const [input, setInput] = useState('');
+  const [editing, setEditing] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const t = useT();
+
+  useEffect(() => {
+    draftFor(assignment).then(setSubmission).catch(err => console.error(err));
+  }, [assignment.id]);
+
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+  }, [submission?.answers.length]);
+
+  if (!submission) return <div className="flex-1" />;
+
+  const answerTo = (id: string) => submission.answers.find(a => a.questionId === id);
+  const next = assignment.questions.find(q => !answerTo(q.id));
+  const target = editing || next?.id;
+  const done = !next && !editing;
+
+  const update = (patch: Partial<Submission>) => {
+    const updated = { ...submission, ...patch };
+    setSubmission(updated);
+    saveSubmission(updated).catch(err => console.error(err));
+  };
+
+  const send = () => {
+    const text = input.trim();
+    if (!text || !target) return;
+    const answers = submission.answers.filter(a => a.questionId !== target);
+    update({ answers: [...answers, { questionId: target, text, at: Date.now() }], submittedAt: undefined });
+    setInput('');
+    setEditing(null);
+  };
+
+  const edit = (questionId: string) => {
+    setEditing(questionId);
+    setInput(answerTo(questionId)?.text || '');
+  };
+
+  const exportFile = () => {
+    const final = { ...submission, submittedAt: Date.now() };
+    update({ submittedAt: final.submittedAt });
+    downloadFile(submissionFileName(final), submissionToJson(final), 'application/json');
+  };
+
+  return (
+    <>
+      <main className="flex-1 overflow-y-auto no-scrollbar p-4 pb-48 flex flex-col gap-4" ref={scrollRef}>
+        <div className="rounded-3xl border border-teal-500/20 bg-teal-600/10 p-5">
+          <span className="block text-[10px] font-black uppercase tracking-widest text-teal-400 mb-1">{t('assignment.label')}</span>
+          <h3 dir="auto" className="text-lg font-black text-slate-50 leading-tight">{assignment.title}</h3>
+          <p className="text-[10px] font-bold uppercase tracking-widest text-slate-500 mt-2">
+            {valueLabel(t, 'subject', assignment.subject)}{assignment.chapter ? ` · ${assignment.chapter}` : ''} · {t('teacher.answered', { n: submission.answers.length, total: assignment.questions.length })}
+          </p>
+        </div>
+
+        {assignment.questions.map((q, i) => {
+          const answer = answerTo(q.id);
+          if (!answer && q.id !== target) return null;
+          return (
+            <React.Fragment key={q.id}>
+              <div className="flex justify-start">
+                <div dir={detectDirection(q.prompt)} className={`${bubble} bg-slate-900 border border-slate-800 text-slate-100 rounded-ss-none`}>
+                  <span className="block text-[9px] font-black uppercase tracking-widest text-teal-400 mb-1">{t('teacher.questionN', { n: i + 1 })}</span>
+                  {q.prompt}
+                </div>
+              </div>
+              {answer && q.id !== editing && (
+                <div className="flex flex-col items-end gap-1">
+                  <div dir={detectDirection(answer.text)} className={`${bubble} bg-cyan-600 text-white rounded-se-none`}>{answer.text}</div>
+                  <button onClick={() => edit(q.id)} className="text-[9px] font-black uppercase tracking-widest text-slate-500 btn-active px-2">{t('assignment.changeAnswer')}</button>
+                </div>
+              )}
+            </React.Fragment>
+          );
+        })}
+
+        {done && (
+          <div className="rounded-3xl border border-slate-800 bg-slate-900 p-5 flex flex-col gap-3">
+            <p className="text-sm font-bold text-slate-100">{t('assignment.allAnswered')}</p>
+            <input
+              dir="auto"
+              value={submission.student}
+              onChange={e => update({ student: e.target.value })}
+              placeholder={t('assignment.yourName')}
+              className="bg-slate-800 rounded-xl border-none focus:ring-0 text-sm px-3 py-3 text-slate-100 placeholder-slate-600"
+            />
+            <button
+              onClick={exportFile}
+              disabled={!submission.student.trim()}
+              className="flex items-center justify-center gap-2 py-3 rounded-2xl bg-teal-600 text-white text-[10px] font-black uppercase tracking-widest btn-active disabled:opacity-30"
+            >
+              <Icons.Download className="h-4 w-4" /> {t(submission.submittedAt ? 'assignment.downloadAgain' : 'assignment.download')}
+            </button>
+          </div>
+        )}
+      </main>
+
+      {!done && (
+        <div className="fixed bottom-0 left-0 right-0 p-4 bg-gradient-to-t from-slate-950 via-slate-950 to-transparent z-10">
+          <div className="max-w-[600px] mx-auto flex flex-col gap-3">
+            {error && <span className="text-[11px] text-rose-400">{error}</span>}
+            <div className="flex gap-2 items-end bg-slate-900 p-2 rounded-2xl border border-slate-800 shadow-2xl focus-within:border-teal-500/50 transition-colors">
+              <MicButton lang={lang} onText={text => { setError(null); setInput(i => (i.trim() ? `${i.trim()} ${text}` : text)); }} onError={setError} />
+              <textarea
+                dir="auto"
+                rows={2}
+                value={input}
+                onChange={e => setInput(e.target.value)}
+                placeholder={t(editing ? 'assignment.changePlaceholder' : 'quiz.shortPlaceholder')}
+                className="flex-1 min-w-0 bg-transparent border-none focus:ring-0 text-sm px-2 py-2 placeholder-slate-600 text-slate-100 resize-none"
+              />
+              <button onClick={send} disabled={!input.trim()} className="bg-teal-600 p-3 rounded-xl disabled:opacity-20 btn-active shadow-lg shadow-teal-600/20 text-white">
+                <Icons.Send className="h-5 w-5" />
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { Icons } from './Icons';
+import { ChatInterface, ChatProps, SubjectChips } from './ChatInterface';
+import { CurriculumBrowser } from './CurriculumBrowser';
+import { buildBooksPrompt, chapterLabel } from './curriculum';
+import { logActivity, ensureCard } from './progressStore';
+import { useT, valueLabel } from './i18n';
+
+// Solved exercises: the chapter catalogue, then the thread once something has
+// been asked. "Chapters" brings the catalogue back under the thread.
+export const BooksPage: React.FC<ChatProps & {
+  subject: string;
+  onSubjectChange: (subject: string) => void;
+  // Shown above the subject chips, e.g. the review grade bar.
+  toolbar?: React.ReactNode;
+}> = ({ subject, onSubjectChange, toolbar, ...chat }) => {
+  const [browsing, setBrowsing] = useState(false);
+  const t = useT();
+  const { messages, loading, onSend } = chat;
+
+  // Opening anything in a chapter counts as studying it and puts the chapter
+  // in the review deck.
+  const catalogue = (
+    <CurriculumBrowser
+      subject={subject}
+      onPick={(prompt, chapter) => {
+        if (loading) return;
+        const topic = chapterLabel(chapter);
+        logActivity('exercise', subject, topic)
+          .then(() => ensureCard(subject, topic, 'books', buildBooksPrompt(subject, chapter)))
+          .catch(err => console.error(err));
+        setBrowsing(false);
+        onSend(prompt, []);
+      }}
+    />
+  );
+
+  return (
+    <ChatInterface
+      {...chat}
+      onSend={(text, images) => { setBrowsing(false); onSend(text, images); }}
+      placeholder={t('chat.askPlaceholder', { subject: valueLabel(t, 'subject', subject) })}
+      photos
+      before={messages.length === 0 && catalogue}
+      after={messages.length > 0 && browsing && catalogue}
+      scrollKey={browsing}
+      toolbar={
+        <>
+          {toolbar}
+          <SubjectChips subject={subject} onChange={onSubjectChange}>
+            {messages.length > 0 && (
+              <button
+                onClick={() => setBrowsing(b => !b)}
+                className={`flex-shrink-0 flex items-center gap-1.5 px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest transition-all border ${
+                  browsing ? 'bg-emerald-600 border-emerald-500 text-white' : 'bg-slate-900 border-emerald-500/30 text-emerald-400'
+                }`}
+              >
+                <Icons.Books className="h-3 w-3" /> {t('books.chapters')}
+              </button>
+            )}
+          </SubjectChips>
+        </>
+      }
+    />
+  );
+};
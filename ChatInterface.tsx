@@ -0,0 +1,187 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Icons } from './Icons';
+import { Attachment, Message, SourcePolicy } from './types';
+import { SUBJECTS } from './constants';
+import { ChatMessage } from './Message';
+import { MicButton } from './MicButton';
+import { Spinner } from './Spinner';
+import { MAX_ATTACHMENTS, attachmentUrl, prepareImage } from './images';
+import { useT, valueLabel } from './i18n';
+
+// What every chat view shares: the thread, whether a reply is streaming, and
+// what to do when the student sends, stops or re-asks.
+export interface ChatProps {
+  messages: Message[];
+  loading: boolean;
+  lang: string;
+  policy: SourcePolicy;
+  onPolicyChange: (policy: SourcePolicy) => void;
+  onSend: (text: string, images: Attachment[]) => void;
+  // Re-asks the question behind a bot reply, for Retry and Regenerate.
+  onRerun: (botId: string) => void;
+  // Without it there is no stop button, e.g. for translations.
+  onStop?: () => void;
+}
+
+export const SubjectChips: React.FC<{
+  subject: string;
+  onChange: (subject: string) => void;
+  children?: React.ReactNode;
+}> = ({ subject, onChange, children }) => {
+  const t = useT();
+  return (
+    <div className="flex gap-2 overflow-x-auto no-scrollbar py-1">
+      {children}
+      {SUBJECTS.map(s => (
+        <button
+          key={s}
+          onClick={() => onChange(s)}
+          className={`flex-shrink-0 px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest transition-all border ${
+            subject === s ? 'bg-cyan-600 border-cyan-500 text-white shadow-lg shadow-cyan-600/20' : 'bg-slate-900 border-slate-800 text-slate-500'
+          }`}
+        >
+          {valueLabel(t, 'subject', s)}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+// The thread and the composer under it, used by every view that takes typed
+// questions. `before` and `after` frame the thread (a chapter catalogue, a
+// translation result); `toolbar` sits above the composer. The view scrolls to
+// the bottom on new messages and whenever `scrollKey` changes.
+export const ChatInterface: React.FC<ChatProps & {
+  placeholder: string;
+  photos?: boolean;
+  before?: React.ReactNode;
+  after?: React.ReactNode;
+  toolbar?: React.ReactNode;
+  scrollKey?: unknown;
+}> = ({ messages, loading, lang, policy, onPolicyChange, onSend, onRerun, onStop, placeholder, photos, before, after, toolbar, scrollKey }) => {
+  const [input, setInput] = useState('');
+  const [drafts, setDrafts] = useState<Attachment[]>([]);
+  const [composerError, setComposerError] = useState<string | null>(null);
+  const cameraRef = useRef<HTMLInputElement>(null);
+  const galleryRef = useRef<HTMLInputElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const t = useT();
+
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [messages, loading, scrollKey]);
+
+  const attach = async (files: FileList | null) => {
+    if (!files) return;
+    setComposerError(null);
+    const room = MAX_ATTACHMENTS - drafts.length;
+    try {
+      const prepared = await Promise.all(Array.from(files).slice(0, room).map(prepareImage));
+      setDrafts(d => [...d, ...prepared]);
+    } catch (err) {
+      console.error(err);
+      setComposerError(t('chat.photoUnreadable'));
+    }
+  };
+
+  const handleSend = (e: React.FormEvent) => {
+    e.preventDefault();
+    if ((!input.trim() && drafts.length === 0) || loading) return;
+    onSend(input, drafts);
+    setInput('');
+    setComposerError(null);
+    setDrafts([]);
+  };
+
+  return (
+    <>
+      <main className="flex-1 overflow-y-auto no-scrollbar p-4 pb-48" ref={scrollRef}>
+        {before}
+        {messages.map((m, i) => (
+          <ChatMessage
+            key={m.id}
+            message={m}
+            lang={lang}
+            policy={policy}
+            onPolicyChange={onPolicyChange}
+            onRetry={m.error && !loading ? () => onRerun(m.id) : undefined}
+            onRegenerate={!loading && !m.error && !m.pending && m.sender === 'bot' && i === messages.length - 1 ? () => onRerun(m.id) : undefined}
+          />
+        ))}
+        {after}
+        {loading && <Spinner />}
+      </main>
+
+      <div className="fixed bottom-0 left-0 right-0 p-4 bg-gradient-to-t from-slate-950 via-slate-950 to-transparent z-10">
+        <div className="max-w-[600px] mx-auto flex flex-col gap-3">
+          {toolbar}
+          {(drafts.length > 0 || composerError) && (
+            <div className="flex items-center gap-2">
+              {drafts.map(a => (
+                <div key={a.id} className="relative">
+                  <img src={attachmentUrl(a)} alt={t('chat.photoToSend')} className="h-14 w-14 object-cover rounded-xl border border-slate-700" />
+                  <button
+                    onClick={() => setDrafts(d => d.filter(x => x.id !== a.id))}
+                    className="absolute -top-1.5 -end-1.5 bg-slate-800 border border-slate-700 rounded-full p-0.5 text-slate-300"
+                    title={t('chat.removePhoto')}
+                  >
+                    <Icons.Close className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+              {composerError && <span className="text-[11px] text-rose-400">{composerError}</span>}
+            </div>
+          )}
+          <form onSubmit={handleSend} className="flex gap-2 items-center bg-slate-900 p-2 rounded-2xl border border-slate-800 shadow-2xl focus-within:border-cyan-500/50 transition-colors">
+            {photos && (
+              <>
+                <input ref={cameraRef} type="file" accept="image/*" capture="environment" className="hidden" onChange={e => { attach(e.target.files); e.target.value = ''; }} />
+                <input ref={galleryRef} type="file" accept="image/*" multiple className="hidden" onChange={e => { attach(e.target.files); e.target.value = ''; }} />
+                <button type="button" onClick={() => cameraRef.current?.click()} disabled={drafts.length >= MAX_ATTACHMENTS} className="p-2 text-slate-400 btn-active disabled:opacity-30" title={t('chat.takePhoto')}>
+                  <Icons.Camera className="h-5 w-5" />
+                </button>
+                <button type="button" onClick={() => galleryRef.current?.click()} disabled={drafts.length >= MAX_ATTACHMENTS} className="p-2 -ms-2 text-slate-400 btn-active disabled:opacity-30" title={t('chat.attachPhoto')}>
+                  <Icons.Image className="h-5 w-5" />
+                </button>
+              </>
+            )}
+            <MicButton
+              lang={lang}
+              disabled={loading}
+              onText={text => { setComposerError(null); setInput(i => (i.trim() ? `${i.trim()} ${text}` : text)); }}
+              onError={setComposerError}
+            />
+            <input
+              value={input}
+              dir="auto"
+              onChange={e => setInput(e.target.value)}
+              placeholder={placeholder}
+              className="flex-1 min-w-0 bg-transparent border-none focus:ring-0 text-sm px-4 py-3 placeholder-slate-600 text-slate-100"
+            />
+            {loading && onStop ? (
+              <button
+                type="button"
+                onClick={onStop}
+                className="bg-slate-700 p-3 rounded-xl btn-active text-slate-50"
+                title={t('chat.stop')}
+              >
+                <Icons.Stop className="h-5 w-5" />
+              </button>
+            ) : (
+              <button
+                type="submit"
+                disabled={(!input.trim() && drafts.length === 0) || loading}
+                className="bg-cyan-600 p-3 rounded-xl disabled:opacity-20 btn-active shadow-lg shadow-cyan-600/20 text-white"
+                title={t('chat.send')}
+              >
+                <Icons.Send className="h-5 w-5 rtl:-scale-x-100" />
+              </button>
+            )}
+          </form>
+        </div>
+      </div>
+    </>
+  );
+};
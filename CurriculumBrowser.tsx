@@ -0,0 +1,101 @@
+import React, { useState, useEffect } from 'react';
+import { Icons } from './Icons';
+import { Chapter, Curriculum, findSubject, buildBooksPrompt, loadCurriculum } from './curriculum';
+import { useT, valueLabel } from './i18n';
+
+export const CurriculumBrowser: React.FC<{
+  subject: string;
+  onPick: (prompt: string, chapter: Chapter) => void;
+}> = ({ subject, onPick }) => {
+  const [curriculum, setCurriculum] = useState<Curriculum | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [openChapter, setOpenChapter] = useState<number | null>(null);
+  const [openTopic, setOpenTopic] = useState<string | null>(null);
+  const t = useT();
+
+  useEffect(() => {
+    loadCurriculum().then(setCurriculum).catch(err => {
+      console.error(err);
+      setFailed(true);
+    });
+  }, []);
+
+  useEffect(() => {
+    setOpenChapter(null);
+    setOpenTopic(null);
+  }, [subject]);
+
+  if (failed) return <p className="text-center text-xs text-slate-600 my-6">{t('curriculum.unavailable')}</p>;
+  if (!curriculum) return null;
+
+  const catalogue = findSubject(curriculum, subject);
+  if (!catalogue || catalogue.chapters.length === 0) {
+    return <p className="text-center text-xs text-slate-600 my-6">{t('curriculum.noChapters', { subject: valueLabel(t, 'subject', subject) })}</p>;
+  }
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-[10px] font-black uppercase tracking-widest text-emerald-500 mb-3 px-1">
+        {curriculum.grade} {valueLabel(t, 'subject', subject)} · {curriculum.board}
+      </h3>
+      <div className="flex flex-col gap-2">
+        {catalogue.chapters.map(chapter => {
+          const isOpen = openChapter === chapter.number;
+          return (
+            <div key={chapter.number} className="rounded-2xl border border-slate-800 bg-slate-900 overflow-hidden">
+              <button
+                onClick={() => { setOpenChapter(isOpen ? null : chapter.number); setOpenTopic(null); }}
+                className="w-full flex items-center gap-3 px-4 py-3 text-start"
+              >
+                <span className="text-[10px] font-black text-emerald-400 bg-emerald-400/10 rounded-lg px-2 py-1">{t('curriculum.chapterShort', { number: chapter.number })}</span>
+                <span className="flex-1 text-sm font-bold text-slate-100">{chapter.title}</span>
+                <Icons.Plus className={`h-4 w-4 text-slate-500 transition-transform ${isOpen ? 'rotate-45' : ''}`} />
+              </button>
+
+              {isOpen && (
+                <div className="px-4 pb-4 flex flex-col gap-2">
+                  <button
+                    onClick={() => onPick(buildBooksPrompt(subject, chapter), chapter)}
+                    className="self-start text-[10px] font-black uppercase tracking-widest text-emerald-400 btn-active"
+                  >
+                    {t('curriculum.chapterSummary')}
+                  </button>
+                  {chapter.topics.map(topic => (
+                    <div key={topic.id} className="rounded-xl bg-slate-950/60 border border-slate-800">
+                      <button
+                        onClick={() => setOpenTopic(openTopic === topic.id ? null : topic.id)}
+                        className="w-full text-start px-3 py-2.5 text-[13px] font-semibold text-slate-300"
+                      >
+                        {topic.title}
+                        {topic.exercises.length > 0 && <span className="ms-2 text-[10px] text-slate-600">{t('dashboard.questionCount', { count: topic.exercises.length })}</span>}
+                      </button>
+                      {openTopic === topic.id && (
+                        <div className="px-3 pb-3 flex flex-col gap-1.5">
+                          <button
+                            onClick={() => onPick(buildBooksPrompt(subject, chapter, topic), chapter)}
+                            className="self-start text-[10px] font-black uppercase tracking-widest text-emerald-400 btn-active"
+                          >
+                            {t('curriculum.topicNotes')}
+                          </button>
+                          {topic.exercises.map(ex => (
+                            <button
+                              key={ex.id}
+                              onClick={() => onPick(buildBooksPrompt(subject, chapter, topic, ex), chapter)}
+                              className="text-start text-[12px] text-slate-400 bg-slate-900 rounded-lg px-3 py-2 border border-slate-800 btn-active"
+                            >
+                              <span className="font-black text-emerald-500 me-2">{ex.label}</span>{ex.question}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import React from 'react';
+import { Diagram, DIAGRAMS, diagramUrl } from './diagrams';
+import { useT, valueLabel } from './i18n';
+
+// The subject's library diagrams, shown in the practical view before the
+// first question. Picking one asks for an explanation of it.
+export const DiagramLibrary: React.FC<{
+  subject: string;
+  onPick: (diagram: Diagram) => void;
+}> = ({ subject, onPick }) => {
+  const t = useT();
+  const diagrams = DIAGRAMS.filter(d => d.subject === subject);
+  const name = valueLabel(t, 'subject', subject);
+  if (diagrams.length === 0) {
+    return <p className="text-center text-xs text-slate-600 my-6">{t('diagrams.empty', { subject: name })}</p>;
+  }
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-[10px] font-black uppercase tracking-widest text-sky-400 mb-3 px-1">{t('diagrams.title', { subject: name })}</h3>
+      <div className="grid grid-cols-2 gap-3">
+        {diagrams.map(d => (
+          <button
+            key={d.id}
+            onClick={() => onPick(d)}
+            className="flex flex-col gap-2 text-start bg-slate-900 border border-slate-800 rounded-2xl p-2 btn-active"
+          >
+            <img src={diagramUrl(d)} alt={d.title} className="w-full aspect-[4/3] object-contain rounded-xl bg-white" />
+            <span className="px-1 text-xs font-bold text-slate-100 leading-snug">{d.title}</span>
+            <span className="px-1 pb-1 text-[10px] text-slate-500 leading-snug">{d.topic}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
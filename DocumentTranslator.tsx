@@ -0,0 +1,220 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Icons } from './Icons';
+import { ErrorCard } from './ErrorCard';
+import { TranslationResult } from './TranslationResult';
+import { TranslatorResponse } from './types';
+import { getTranslation } from './geminiService';
+import { TutorErrorKind, toTutorError } from './errors';
+import { MessageKey, errorMessage, useT, valueLabel } from './i18n';
+import { detectDirection } from './bidi';
+import { DocSentence, MAX_DOCUMENT_CHARS, splitDocument, translateDocument } from './documentTranslation';
+
+const MAX_FILE_BYTES = 200_000;
+
+type Breakdown = { state: 'loading' } | { state: 'done'; result: TranslatorResponse } | { state: 'failed'; kind: TutorErrorKind };
+
+// Translates a pasted passage or a .txt/.md file sentence by sentence and
+// shows source and translation side by side. Tapping a sentence fetches its
+// word-by-word breakdown.
+export const DocumentTranslator: React.FC<{
+  lang: string;
+  onLangChange: (lang: string) => void;
+  onOpenGlossary: () => void;
+}> = ({ lang, onLangChange, onOpenGlossary }) => {
+  const [text, setText] = useState('');
+  const [sentences, setSentences] = useState<DocSentence[]>([]);
+  const [running, setRunning] = useState(false);
+  const [fileError, setFileError] = useState<MessageKey | null>(null);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [breakdowns, setBreakdowns] = useState<Record<number, Breakdown>>({});
+  const fileRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const t = useT();
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const run = async (targets: DocSentence[], target = lang) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    const ids = new Set(targets.map(s => s.id));
+    setSentences(all => all.map(s => (ids.has(s.id) ? { ...s, status: 'pending', error: undefined } : s)));
+    await translateDocument(targets, target, updated => {
+      const byId = new Map(updated.map(s => [s.id, s]));
+      setSentences(all => all.map(s => byId.get(s.id) || s));
+    }, controller.signal);
+    if (abortRef.current === controller) abortRef.current = null;
+    setRunning(false);
+  };
+
+  const start = () => {
+    const split = splitDocument(text);
+    setSentences(split);
+    setExpanded(null);
+    setBreakdowns({});
+    if (split.length) run(split);
+  };
+
+  const upload = async (file?: File) => {
+    if (!file) return;
+    setFileError(null);
+    if (!/\.(txt|md|markdown)$/i.test(file.name) && !file.type.startsWith('text/')) {
+      setFileError('document.wrongType');
+      return;
+    }
+    if (file.size > MAX_FILE_BYTES) {
+      setFileError('document.tooLarge');
+      return;
+    }
+    setText(await file.text());
+  };
+
+  // A new target language retranslates what is already on screen.
+  const changeLang = (l: string) => {
+    onLangChange(l);
+    if (!sentences.length) return;
+    setExpanded(null);
+    setBreakdowns({});
+    run(sentences, l);
+  };
+
+  const toggleBreakdown = (s: DocSentence) => {
+    if (expanded === s.id) {
+      setExpanded(null);
+      return;
+    }
+    setExpanded(s.id);
+    if (!breakdowns[s.id] || breakdowns[s.id].state === 'failed') loadBreakdown(s);
+  };
+
+  const loadBreakdown = async (s: DocSentence) => {
+    setBreakdowns(b => ({ ...b, [s.id]: { state: 'loading' } }));
+    try {
+      const result = await getTranslation(s.source, lang);
+      setBreakdowns(b => ({ ...b, [s.id]: { state: 'done', result } }));
+    } catch (err) {
+      setBreakdowns(b => ({ ...b, [s.id]: { state: 'failed', kind: toTutorError(err).kind } }));
+    }
+  };
+
+  const done = sentences.filter(s => s.status === 'done').length;
+  const failed = sentences.filter(s => s.status === 'failed');
+
+  return (
+    <main className="flex-1 overflow-y-auto no-scrollbar p-4 pb-12 flex flex-col gap-4">
+      <div className="flex gap-2">
+        {['Urdu', 'Sindhi', 'English'].map(l => (
+          <button
+            key={l}
+            onClick={() => changeLang(l)}
+            disabled={running}
+            className={`px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest transition-all border disabled:opacity-50 ${
+              lang === l ? 'bg-amber-600 border-amber-500 text-white shadow-lg shadow-amber-600/20' : 'bg-slate-900 border-slate-800 text-slate-500'
+            }`}
+          >
+            {valueLabel(t, 'lang', l)}
+          </button>
+        ))}
+      </div>
+
+      {sentences.length === 0 ? (
+        <>
+          <textarea
+            dir="auto"
+            value={text}
+            onChange={e => setText(e.target.value)}
+            maxLength={MAX_DOCUMENT_CHARS}
+            rows={12}
+            placeholder={t('document.placeholder')}
+            className="w-full bg-slate-900 border border-slate-800 rounded-2xl px-4 py-3 text-sm text-slate-100 focus:ring-0 focus:border-amber-500/50 placeholder-slate-600 resize-none"
+          />
+          <div className="flex items-center justify-between text-[10px] font-bold text-slate-600">
+            <span>{text.length.toLocaleString()} / {MAX_DOCUMENT_CHARS.toLocaleString()}</span>
+            {fileError && <span className="text-rose-400">{t(fileError)}</span>}
+          </div>
+          <div className="flex gap-2">
+            <button onClick={() => fileRef.current?.click()} className="flex-1 py-3 rounded-2xl bg-slate-900 border border-slate-800 text-slate-300 text-[10px] font-black uppercase tracking-widest btn-active">
+              {t('document.open')}
+            </button>
+            <button onClick={start} disabled={!text.trim()} className="flex-1 py-3 rounded-2xl bg-amber-600 text-white text-[10px] font-black uppercase tracking-widest btn-active disabled:opacity-30 shadow-lg shadow-amber-600/20">
+              {t('document.translate')}
+            </button>
+          </div>
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".txt,.md,.markdown,text/plain,text/markdown"
+            className="hidden"
+            onChange={e => { upload(e.target.files?.[0]).catch(err => console.error(err)); e.target.value = ''; }}
+          />
+        </>
+      ) : (
+        <>
+          <div className="flex items-center gap-3">
+            <div className="flex-1 h-1.5 rounded-full bg-slate-800 overflow-hidden">
+              <div className="h-full bg-amber-500 transition-all" style={{ width: `${(done / sentences.length) * 100}%` }} />
+            </div>
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">{done}/{sentences.length}</span>
+            {running ? (
+              <button onClick={() => abortRef.current?.abort()} className="text-[10px] font-black uppercase tracking-widest text-slate-300 btn-active">{t('readAloud.stop')}</button>
+            ) : (
+              <button onClick={() => setSentences([])} className="text-[10px] font-black uppercase tracking-widest text-slate-300 btn-active">{t('document.editText')}</button>
+            )}
+          </div>
+
+          {!running && (failed.length > 0 || done < sentences.length) && (
+            <div className="flex items-center gap-3 text-xs text-rose-300 bg-rose-950/30 border border-rose-500/30 rounded-2xl px-3 py-2">
+              <Icons.Alert className="h-4 w-4 flex-shrink-0" />
+              <span className="flex-1">
+                {failed.length > 0
+                  ? `${t(failed.length === 1 ? 'document.failedOne' : 'document.failedMany', { count: failed.length })} ${errorMessage(t, failed[0].error || 'unknown')}`
+                  : t('document.stopped')}
+              </span>
+              <button
+                onClick={() => run(sentences.filter(s => s.status !== 'done'))}
+                className="text-[10px] font-black uppercase tracking-widest text-slate-50 btn-active"
+              >
+                {t(failed.length > 0 ? 'common.retry' : 'document.continue')}
+              </button>
+            </div>
+          )}
+
+          <div className="rounded-2xl border border-slate-800 bg-slate-900 overflow-hidden">
+            <div className="grid grid-cols-2 text-[9px] font-black uppercase tracking-widest text-slate-500 border-b border-slate-800">
+              <span className="px-3 py-2">{t('document.original')}</span>
+              <span className="px-3 py-2 border-s border-slate-800">{valueLabel(t, 'lang', lang)}</span>
+            </div>
+            {sentences.map((s, i) => {
+              const breakdown = breakdowns[s.id];
+              const newParagraph = i > 0 && sentences[i - 1].paragraph !== s.paragraph;
+              return (
+                <div key={s.id} className={newParagraph ? 'border-t-4 border-slate-950' : 'border-t border-slate-800/50'}>
+                  <button
+                    onClick={() => toggleBreakdown(s)}
+                    className={`w-full grid grid-cols-2 text-start text-sm ${expanded === s.id ? 'bg-amber-600/10' : ''}`}
+                  >
+                    <span dir={detectDirection(s.source)} className="px-3 py-2.5 text-slate-300 text-start">{s.source}</span>
+                    <span className="px-3 py-2.5 border-s border-slate-800 text-start">
+                      {s.status === 'done' && <span dir={detectDirection(s.translation || '')} className="block text-amber-100">{s.translation}</span>}
+                      {s.status === 'pending' && (running
+                        ? <span className="block h-3 mt-1 w-3/4 rounded bg-slate-800 animate-pulse" />
+                        : <span className="text-xs text-slate-600">{t('document.notTranslated')}</span>)}
+                      {s.status === 'failed' && <span className="text-xs text-rose-400">{t('document.failed')}</span>}
+                    </span>
+                  </button>
+                  {expanded === s.id && (
+                    <div className="px-3 pb-3 bg-amber-600/5">
+                      {breakdown?.state === 'loading' && <p className="text-xs text-slate-500 py-3 animate-pulse">{t('document.breakingDown')}</p>}
+                      {breakdown?.state === 'failed' && <ErrorCard message={errorMessage(t, breakdown.kind)} onRetry={() => loadBreakdown(s)} />}
+                      {breakdown?.state === 'done' && <TranslationResult result={breakdown.result} lang={lang} onOpenGlossary={onOpenGlossary} />}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </main>
+  );
+};
@@ -0,0 +1,296 @@
+import React, { useState, useEffect } from 'react';
+import { Icons } from './Icons';
+import { ErrorCard } from './ErrorCard';
+import { DrillAttempt, DrillExercise, DrillFeedback, DrillKind } from './types';
+import { generateDrills, gradeDrill } from './geminiService';
+import { loadSettings } from './settings';
+import { DRILL_KINDS, drillKind, markMistakes, ruleAccuracy, weakestRules } from './drills';
+import { listAttempts, recordAttempt } from './drillStore';
+import { TutorErrorKind, toTutorError } from './errors';
+import { MessageKey, errorMessage, useT } from './i18n';
+import { detectDirection } from './bidi';
+
+const LENGTHS = [5, 10];
+
+// drills.ts keeps an English label for the prompts; these are for the screen.
+const KIND_LABELS: Record<DrillKind, MessageKey> = {
+  tense: 'drill.kind.tense',
+  voice: 'drill.kind.voice',
+  narration: 'drill.kind.narration',
+  urdu: 'drill.kind.urdu',
+  sindhi: 'drill.kind.sindhi',
+};
+
+const chip = (active: boolean) => `flex-shrink-0 px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest transition-all border ${
+  active ? 'bg-purple-600 border-purple-500 text-white shadow-lg shadow-purple-600/20' : 'bg-slate-900 border-slate-800 text-slate-500'
+}`;
+
+const percent = (value: number | null) => value === null ? '—' : `${Math.round(value * 100)}%`;
+
+const accuracyColor = (value: number | null) =>
+  value === null ? 'bg-slate-700' : value >= 0.8 ? 'bg-emerald-500' : value >= 0.5 ? 'bg-amber-500' : 'bg-rose-500';
+
+// Sentence-transformation practice in the grammar view. Each answer is graded
+// against the exercise's rubric and added to the per-rule accuracy.
+export const DrillView: React.FC = () => {
+  const [phase, setPhase] = useState<'setup' | 'running' | 'done'>('setup');
+  const [kind, setKind] = useState<DrillKind>('tense');
+  const [rules, setRules] = useState<string[]>([]);
+  const [length, setLength] = useState(5);
+  const [attempts, setAttempts] = useState<DrillAttempt[]>([]);
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState<TutorErrorKind | null>(null);
+  const t = useT();
+
+  const [exercises, setExercises] = useState<DrillExercise[]>([]);
+  const [index, setIndex] = useState(0);
+  const [response, setResponse] = useState('');
+  const [grading, setGrading] = useState(false);
+  const [feedback, setFeedback] = useState<DrillFeedback | null>(null);
+  const [results, setResults] = useState<DrillFeedback[]>([]);
+
+  useEffect(() => {
+    listAttempts().then(setAttempts).catch(err => console.error(err));
+  }, []);
+
+  const stats = ruleAccuracy(kind, attempts);
+  const info = drillKind(kind);
+
+  const toggleRule = (rule: string) =>
+    setRules(r => (r.includes(rule) ? r.filter(x => x !== rule) : [...r, rule]));
+
+  const create = async (focus = rules) => {
+    setGenerating(true);
+    setError(null);
+    try {
+      const list = await generateDrills(kind, focus, length);
+      if (list.length === 0) throw new SyntaxError('Drill came back empty');
+      setExercises(list);
+      setIndex(0);
+      setResponse('');
+      setFeedback(null);
+      setResults([]);
+      setPhase('running');
+    } catch (err) {
+      setError(toTutorError(err).kind);
+    }
+    setGenerating(false);
+  };
+
+  const check = async () => {
+    const exercise = exercises[index];
+    setGrading(true);
+    setError(null);
+    try {
+      const { answerLang, tutor } = loadSettings();
+      const graded = await gradeDrill(exercise, response.trim(), answerLang, tutor);
+      setFeedback(graded);
+      setResults(r => [...r, graded]);
+      recordAttempt(exercise, response.trim(), graded)
+        .then(attempt => setAttempts(a => [...a, attempt]))
+        .catch(err => console.error(err));
+    } catch (err) {
+      setError(toTutorError(err).kind);
+    }
+    setGrading(false);
+  };
+
+  const next = () => {
+    if (index === exercises.length - 1) {
+      setPhase('done');
+      return;
+    }
+    setIndex(i => i + 1);
+    setResponse('');
+    setFeedback(null);
+  };
+
+  if (phase === 'setup') {
+    return (
+      <div className="flex-1 overflow-y-auto no-scrollbar p-4 flex flex-col gap-6">
+        <section>
+          <h3 className="text-[10px] font-black uppercase tracking-widest text-purple-400 mb-3">{t('drill.title')}</h3>
+          <div className="flex gap-2 overflow-x-auto no-scrollbar py-1">
+            {DRILL_KINDS.map(k => (
+              <button key={k.id} onClick={() => { setKind(k.id); setRules([]); }} className={chip(kind === k.id)}>{t(KIND_LABELS[k.id])}</button>
+            ))}
+          </div>
+        </section>
+
+        <section>
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-[10px] font-black uppercase tracking-widest text-purple-400">{t('drill.rules')}</h3>
+            <button onClick={() => setRules(weakestRules(stats))} className="text-[10px] font-black uppercase tracking-widest text-slate-400 btn-active">
+              {t('drill.pickWeakest')}
+            </button>
+          </div>
+          <div className="flex flex-col gap-2">
+            {stats.map(s => {
+              const selected = rules.includes(s.rule);
+              return (
+                <button
+                  key={s.rule}
+                  onClick={() => toggleRule(s.rule)}
+                  className={`text-start px-4 py-3 rounded-2xl border transition-all ${selected ? 'border-purple-500 bg-purple-600/15' : 'border-slate-800 bg-slate-900'}`}
+                >
+                  <div className="flex justify-between text-xs mb-1.5">
+                    <span dir="auto" className={`font-semibold truncate pe-3 ${selected ? 'text-slate-50' : 'text-slate-300'}`}>{s.rule}</span>
+                    <span className="text-slate-500 font-black flex-shrink-0">
+                      {percent(s.accuracy)}{s.attempts > 0 && <span className="font-bold"> · {s.correct}/{s.attempts}</span>}
+                    </span>
+                  </div>
+                  <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                    <div className={`h-full ${accuracyColor(s.accuracy)}`} style={{ width: `${s.accuracy === null ? 100 : Math.max(4, s.accuracy * 100)}%`, opacity: s.accuracy === null ? 0.4 : 1 }} />
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+          <p className="text-[11px] text-slate-500 mt-2">{rules.length ? t('drill.selected', { count: rules.length }) : t('drill.noneSelected', { count: info.rules.length })}</p>
+        </section>
+
+        <section>
+          <h3 className="text-[10px] font-black uppercase tracking-widest text-purple-400 mb-3">{t('drill.sentences')}</h3>
+          <div className="flex gap-2">
+            {LENGTHS.map(n => <button key={n} onClick={() => setLength(n)} className={chip(length === n)}>{n}</button>)}
+          </div>
+        </section>
+
+        {error && <ErrorCard message={errorMessage(t, error)} onRetry={() => create()} />}
+
+        <button
+          onClick={() => create()}
+          disabled={generating}
+          className="mt-auto bg-purple-600 py-4 rounded-2xl text-sm font-black uppercase tracking-widest text-white disabled:opacity-40 btn-active shadow-lg shadow-purple-600/20"
+        >
+          {t(generating ? 'drill.preparing' : 'drill.start')}
+        </button>
+      </div>
+    );
+  }
+
+  if (phase === 'done') {
+    const correct = results.filter(r => r.correct).length;
+    const missed = [...new Set(exercises.filter((_, i) => results[i] && !results[i].correct).map(e => e.rule))];
+    return (
+      <div className="flex-1 overflow-y-auto no-scrollbar p-4 pb-10 flex flex-col gap-6">
+        <div className="bg-slate-900 border border-slate-800 p-6 rounded-3xl text-center">
+          <p className="text-[10px] font-black uppercase tracking-widest text-purple-400">{t(KIND_LABELS[kind])}</p>
+          <p className="text-4xl font-black text-slate-50 mt-3">{correct}<span className="text-slate-600 text-2xl"> / {exercises.length}</span></p>
+          <p className="text-xs text-slate-500 mt-2">{t(missed.length ? 'drill.missed' : 'drill.allCorrect')}</p>
+          {missed.length > 0 && (
+            <div className="flex flex-wrap justify-center gap-2 mt-3">
+              {missed.map(r => <span key={r} dir="auto" className="text-[11px] font-bold text-rose-300 bg-rose-600/10 border border-rose-500/20 rounded-full px-3 py-1">{r}</span>)}
+            </div>
+          )}
+        </div>
+
+        {error && <ErrorCard message={errorMessage(t, error)} />}
+
+        <div className="grid grid-cols-2 gap-3">
+          <button onClick={() => setPhase('setup')} className="py-3 rounded-2xl border border-slate-800 bg-slate-900 text-[10px] font-black uppercase tracking-widest text-slate-300 btn-active">
+            {t('drill.chooseRules')}
+          </button>
+          <button
+            onClick={() => { setRules(missed); create(missed); }}
+            disabled={generating}
+            className="py-3 rounded-2xl bg-purple-600 text-[10px] font-black uppercase tracking-widest text-white btn-active disabled:opacity-40"
+          >
+            {t(generating ? 'drill.preparingShort' : missed.length ? 'drill.practiseThese' : 'drill.new')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const exercise = exercises[index];
+  if (!exercise) return null;
+
+  return (
+    <div className="flex-1 flex flex-col p-4 overflow-hidden">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">{t('drill.progress', { n: index + 1, total: exercises.length })}</span>
+        <span dir="auto" className="text-[9px] font-black uppercase tracking-widest text-purple-300 bg-purple-400/10 border border-purple-400/20 rounded-full px-2 py-0.5 truncate max-w-[60%]">{exercise.rule}</span>
+      </div>
+      <div className="h-1 bg-slate-800 rounded-full mb-6 overflow-hidden">
+        <div className="h-full bg-purple-500 transition-all" style={{ width: `${((index + (feedback ? 1 : 0)) / exercises.length) * 100}%` }} />
+      </div>
+
+      <div className="flex-1 overflow-y-auto no-scrollbar flex flex-col gap-4">
+        <p dir={detectDirection(exercise.instruction)} className="text-[11px] font-black uppercase tracking-widest text-purple-400">{exercise.instruction}</p>
+        <p dir={detectDirection(exercise.sentence)} className="text-lg font-bold text-slate-50 leading-relaxed">{exercise.sentence}</p>
+
+        {feedback ? (
+          <div className={`p-4 rounded-2xl border flex flex-col gap-3 ${feedback.correct ? 'border-emerald-500/30 bg-emerald-600/5' : 'border-rose-500/30 bg-rose-600/5'}`}>
+            <p className={`text-[10px] font-black uppercase tracking-widest ${feedback.correct ? 'text-emerald-400' : 'text-rose-400'}`}>
+              {t(feedback.correct ? 'drill.correct' : feedback.score >= 0.5 ? 'drill.nearly' : 'drill.notQuite')}
+            </p>
+            <p dir={detectDirection(response)} className="text-sm text-slate-200 leading-relaxed">
+              {markMistakes(response, feedback.mistakes).map((seg, i) => (
+                <span key={i} className={seg.wrong ? 'text-rose-300 underline decoration-rose-500 decoration-wavy underline-offset-4' : ''}>{seg.text}</span>
+              ))}
+            </p>
+
+            {feedback.mistakes.length > 0 && (
+              <ul className="flex flex-col gap-1.5">
+                {feedback.mistakes.map((m, i) => (
+                  <li key={i} className="text-xs text-slate-300 flex flex-wrap items-baseline gap-x-2">
+                    <span dir="auto" className="font-bold text-rose-300 line-through">{m.wrong || t('drill.missingWord')}</span>
+                    <span className="text-slate-500">→</span>
+                    <span dir="auto" className="font-bold text-emerald-300">{m.correct}</span>
+                    <span className="text-slate-500">· {m.note}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {exercise.rubric.length > 0 && (
+              <ul className="flex flex-col gap-1 border-t border-slate-800 pt-3">
+                {exercise.rubric.map((point, i) => (
+                  <li key={i} className="flex items-start gap-2 text-xs">
+                    <span className={`font-black ${feedback.met[i] ? 'text-emerald-400' : 'text-rose-400'}`}>{feedback.met[i] ? '✓' : '✗'}</span>
+                    <span dir="auto" className="text-slate-400">{point}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {!feedback.correct && (
+              <p className="text-xs text-emerald-400 border-t border-slate-800 pt-3">
+                <span className="font-black text-slate-500">{t('drill.corrected')} </span><span dir="auto">{feedback.corrected}</span>
+              </p>
+            )}
+            {feedback.explanation && <p dir="auto" className="text-xs text-slate-300 leading-relaxed">{feedback.explanation}</p>}
+          </div>
+        ) : (
+          <textarea
+            value={response}
+            dir="auto"
+            onChange={e => setResponse(e.target.value)}
+            rows={4}
+            placeholder={t('drill.placeholder')}
+            className="w-full bg-slate-900 border border-slate-800 rounded-2xl px-4 py-3 text-sm text-slate-100 focus:ring-0 focus:border-purple-500/50 resize-none"
+          />
+        )}
+
+        {error && <ErrorCard message={errorMessage(t, error)} onRetry={check} />}
+      </div>
+
+      <div className="pt-4">
+        {feedback ? (
+          <button onClick={next} className="w-full flex items-center justify-center gap-2 py-3 rounded-2xl bg-purple-600 text-[10px] font-black uppercase tracking-widest text-white btn-active">
+            {t(index === exercises.length - 1 ? 'drill.finish' : 'drill.next')}
+          </button>
+        ) : (
+          <button
+            onClick={check}
+            disabled={!response.trim() || grading}
+            className="w-full flex items-center justify-center gap-2 py-3 rounded-2xl bg-purple-600 text-[10px] font-black uppercase tracking-widest text-white btn-active disabled:opacity-30"
+          >
+            {grading ? t('drill.checking') : <><Icons.Send className="h-4 w-4" /> {t('drill.check')}</>}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,20 @@
+import React from 'react';
+import { Icons } from './Icons';
+import { useT } from './i18n';
+
+export const ErrorCard: React.FC<{ message: string; onRetry?: () => void }> = ({ message, onRetry }) => {
+  const t = useT();
+  return (
+    <div className="flex items-start gap-3 px-4 py-3 rounded-2xl bg-rose-950/40 border border-rose-500/30 text-rose-200 text-[13px] leading-relaxed">
+      <Icons.Alert className="h-4 w-4 flex-shrink-0 mt-0.5 text-rose-400" />
+      <div className="flex-1">
+        <p>{message}</p>
+        {onRetry && (
+          <button onClick={onRetry} className="mt-2 flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest text-rose-300 btn-active">
+            <Icons.Refresh className="h-3.5 w-3.5" /> {t('common.retry')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
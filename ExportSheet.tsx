@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { Icons } from './Icons';
+import { ChatSession } from './types';
+import { PrintView } from './PrintView';
+import { useT } from './i18n';
+import { answerPairs, downloadFile, exportFileName, threadToJson, threadToMarkdown } from './threadExport';
+
+export const ExportSheet: React.FC<{
+  session: ChatSession;
+  onClose: () => void;
+}> = ({ session, onClose }) => {
+  const pairs = answerPairs(session.messages);
+  const [selected, setSelected] = useState(() => new Set(pairs.map(p => p.answer.id)));
+  const [printing, setPrinting] = useState(false);
+  const t = useT();
+
+  const toggle = (id: string) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    return next;
+  });
+
+  const allSelected = selected.size === pairs.length;
+  const action = 'flex-1 flex flex-col items-center gap-1.5 py-3 rounded-2xl border text-[10px] font-black uppercase tracking-widest btn-active disabled:opacity-30';
+
+  return (
+    <div className="fixed inset-0 z-30 bg-slate-950/90 backdrop-blur-sm flex justify-center">
+      {printing && <PrintView session={session} selected={selected} onDone={() => setPrinting(false)} />}
+      <div className="w-full max-w-[600px] flex flex-col p-4">
+        <div className="flex items-center justify-between py-2 mb-3">
+          <h2 className="text-xs font-black uppercase tracking-[0.2em] text-slate-100">{t('export.title')}</h2>
+          <button onClick={onClose} className="p-2 text-slate-400 btn-active"><Icons.Close className="h-5 w-5" /></button>
+        </div>
+
+        <div className="flex items-center justify-between mb-2 px-1">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">{t('export.selected', { selected: selected.size, total: pairs.length })}</span>
+          <button
+            onClick={() => setSelected(allSelected ? new Set() : new Set(pairs.map(p => p.answer.id)))}
+            className="text-[10px] font-black uppercase tracking-widest text-cyan-400 btn-active"
+          >
+            {t(allSelected ? 'export.selectNone' : 'export.selectAll')}
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto no-scrollbar flex flex-col gap-2 mb-4">
+          {pairs.map(({ question, answer }) => (
+            <label key={answer.id} className={`flex items-start gap-3 p-4 rounded-2xl border cursor-pointer ${selected.has(answer.id) ? 'border-cyan-500/40 bg-cyan-600/10' : 'border-slate-800 bg-slate-900'}`}>
+              <input type="checkbox" checked={selected.has(answer.id)} onChange={() => toggle(answer.id)} className="mt-1 accent-cyan-500" />
+              <span className="flex-1 min-w-0">
+                <span dir="auto" className="block text-sm font-bold text-slate-100 truncate">{question?.text || t('export.photoQuestion')}</span>
+                <span dir="auto" className="block text-xs text-slate-500 truncate mt-1">{answer.text.replace(/[#*_`>|$\\]/g, '').slice(0, 120)}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <button onClick={() => setPrinting(true)} disabled={selected.size === 0} className={`${action} bg-cyan-600 border-cyan-500 text-white`}>
+            <Icons.Printer className="h-5 w-5" /> {t('export.print')}
+          </button>
+          <button
+            onClick={() => downloadFile(exportFileName(session, 'md'), threadToMarkdown(t, session, selected), 'text/markdown')}
+            disabled={selected.size === 0}
+            className={`${action} bg-slate-900 border-slate-800 text-slate-300`}
+          >
+            <Icons.Download className="h-5 w-5" /> {t('export.markdown')}
+          </button>
+          <button
+            onClick={() => downloadFile(exportFileName(session, 'json'), threadToJson(session), 'application/json')}
+            className={`${action} bg-slate-900 border-slate-800 text-slate-300`}
+            title={t('export.threadFileHint')}
+          >
+            <Icons.Download className="h-5 w-5" /> {t('export.threadFile')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
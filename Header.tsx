@@ -0,0 +1,41 @@
+import React from 'react';
+import { Icons } from './Icons';
+import { useT } from './i18n';
+
+export const NetworkBadge: React.FC<{ online: boolean; pending: number }> = ({ online, pending }) => {
+  const t = useT();
+  if (online && pending === 0) return null;
+  return (
+    <span className={`flex items-center gap-1.5 px-2 py-0.5 rounded-full text-[9px] font-black uppercase tracking-widest border ${
+      online ? 'text-cyan-300 bg-cyan-400/10 border-cyan-400/20' : 'text-amber-300 bg-amber-400/10 border-amber-400/20'
+    }`}>
+      {!online && <Icons.CloudOff className="h-3 w-3" />}
+      {online ? t('network.sending', { count: pending }) : t('network.offline')}{!online && pending > 0 && ` · ${t('network.queued', { count: pending })}`}
+    </span>
+  );
+};
+
+// The bar above every view but the dashboard. `actions` fills the end side
+// (the left in Urdu and Sindhi); without any, a spacer keeps the title centred.
+export const Header: React.FC<{
+  title: string;
+  online: boolean;
+  pending: number;
+  onBack: () => void;
+  actions?: React.ReactNode;
+}> = ({ title, online, pending, onBack, actions }) => {
+  const t = useT();
+  return (
+    <header className="flex-shrink-0 flex items-center justify-between px-4 py-4 border-b border-slate-900 bg-slate-950/80 backdrop-blur-md sticky top-0 z-20">
+      <button onClick={onBack} className="p-2 -ms-2 text-slate-400 btn-active flex items-center gap-2">
+        <Icons.Logo className="h-5 w-5 rotate-180" />
+        <span className="text-[10px] font-black uppercase tracking-widest">{t('nav.back')}</span>
+      </button>
+      <div className="flex flex-col items-center gap-1">
+        <h2 className="text-xs font-black uppercase tracking-[0.2em] text-slate-100">{title}</h2>
+        <NetworkBadge online={online} pending={pending} />
+      </div>
+      {actions || <div className="w-10"></div>}
+    </header>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Icons } from './Icons';
+import { Attachment, Message, SourcePolicy } from './types';
+import { ErrorCard } from './ErrorCard';
+import { ReadAloud } from './ReadAloud';
+import { SourcesPanel } from './SourcesPanel';
+import { detectDirection, isolateLtrRuns } from './bidi';
+import { renderInto, replaceBrokenImage } from './markdown';
+import { sourceTrust, withCitationMarks } from './citations';
+import { attachmentUrl } from './images';
+import { errorMessage, useT } from './i18n';
+
+// One turn of a chat thread. Bot replies are rendered from Markdown as they
+// stream, with citation numbers, sources and read-aloud underneath.
+export const ChatMessage: React.FC<{
+  message: Message;
+  lang: string;
+  policy: SourcePolicy;
+  onPolicyChange: (policy: SourcePolicy) => void;
+  onRetry?: () => void;
+  onRegenerate?: () => void;
+}> = ({ message, lang, policy, onPolicyChange, onRetry, onRegenerate }) => {
+  const isUser = message.sender === 'user';
+  const contentRef = useRef<HTMLDivElement>(null);
+  const [zoomed, setZoomed] = useState<Attachment | null>(null);
+  const [sourcesOpen, setSourcesOpen] = useState(false);
+  const [citedSource, setCitedSource] = useState<number | null>(null);
+  const [copied, setCopied] = useState(false);
+  const t = useT();
+  const sources = message.sources || [];
+  const marked = isUser ? message.text : withCitationMarks(
+    message.text,
+    message.citations,
+    uri => sources.findIndex(s => s.uri === uri) + 1,
+    uri => sources.some(s => s.uri === uri && sourceTrust(s, policy) === 'untrusted')
+  );
+  // Decided per message, not from the selected language: students ask in
+  // English while answers come back in Urdu, and vice versa.
+  const dir = detectDirection(message.text);
+  const renderedDirRef = useRef(dir);
+
+  // Only blocks that changed since the last chunk are re-rendered. A change of
+  // direction mid-stream re-renders everything so Latin runs get isolated.
+  useEffect(() => {
+    const root = contentRef.current;
+    if (!root || isUser) return;
+    if (renderedDirRef.current !== dir) {
+      root.replaceChildren();
+      renderedDirRef.current = dir;
+    }
+    const created = renderInto(root, marked);
+    if (dir === 'rtl') created.forEach(isolateLtrRuns);
+  }, [marked, isUser, dir]);
+
+  // Tapping a citation number opens the sources panel at that source.
+  const openCitation = (e: React.MouseEvent) => {
+    const n = Number((e.target as HTMLElement).closest('[data-cite]')?.getAttribute('data-cite'));
+    if (!n) return;
+    setSourcesOpen(true);
+    setCitedSource(n);
+  };
+
+  // Images rendered from Markdown are not React elements, but their load
+  // errors still reach this capture handler.
+  const onImageError = (e: React.SyntheticEvent) => {
+    if (e.target instanceof HTMLImageElement) replaceBrokenImage(e.target);
+  };
+
+  const copy = () => {
+    navigator.clipboard.writeText(message.text)
+      .then(() => {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+      })
+      .catch(err => console.error(err));
+  };
+
+  return (
+    <div className={`flex items-start gap-3 mb-5 ${isUser ? 'flex-row-reverse' : ''}`}>
+      <div className={`max-w-[85%] flex flex-col ${isUser ? 'items-end' : 'items-start'}`}>
+        {message.attachments && message.attachments.length > 0 && (
+          <div className="flex flex-wrap justify-end gap-2 mb-2">
+            {message.attachments.map(a => (
+              <button key={a.id} onClick={() => setZoomed(a)} className="btn-active">
+                <img src={attachmentUrl(a)} alt={t('message.attachedPhoto')} className="h-28 w-auto max-w-[180px] object-cover rounded-2xl border border-slate-700" />
+              </button>
+            ))}
+          </div>
+        )}
+        {zoomed && (
+          <div onClick={() => setZoomed(null)} className="fixed inset-0 z-50 bg-slate-950/95 flex items-center justify-center p-4">
+            <img src={attachmentUrl(zoomed)} alt={t('message.attachedPhoto')} className="max-w-full max-h-full rounded-2xl" />
+          </div>
+        )}
+        {message.pending && (
+          <div className="flex items-center gap-2 px-4 py-3 rounded-2xl rounded-ss-none border border-dashed border-slate-700 text-slate-400 text-[13px]">
+            <Icons.History className="h-4 w-4 text-amber-400" />
+            {t('message.queued')}
+          </div>
+        )}
+        {!message.pending && ((isUser && message.text) || (!isUser && (message.text || !message.error))) && (
+          <div className={`px-4 py-3 rounded-2xl text-sm leading-relaxed shadow-sm ${
+            isUser ? 'bg-cyan-600 text-white rounded-se-none' : 'bg-slate-800 text-slate-200 rounded-ss-none border border-slate-700'
+          }`}>
+            {isUser ? <p dir={dir} className="whitespace-pre-wrap">{message.text}</p> : <div ref={contentRef} dir={dir} className="prose" onClick={openCitation} onErrorCapture={onImageError}></div>}
+          </div>
+        )}
+        {message.error && (
+          <div className={message.text ? 'mt-2' : ''}>
+            <ErrorCard message={errorMessage(t, message.error.kind)} onRetry={onRetry} />
+          </div>
+        )}
+        {!isUser && sources.length > 0 && (
+          <SourcesPanel
+            sources={sources}
+            policy={policy}
+            open={sourcesOpen}
+            highlighted={citedSource}
+            onToggle={() => { setSourcesOpen(o => !o); setCitedSource(null); }}
+            onPolicyChange={onPolicyChange}
+          />
+        )}
+        {!isUser && message.text && <ReadAloud text={message.text} lang={lang} />}
+        {((!isUser && message.text) || onRegenerate) && (
+          <div className="mt-2 flex items-center gap-4">
+            {!isUser && message.text && (
+              <button onClick={copy} className={`flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest btn-active ${copied ? 'text-emerald-400' : 'text-slate-500'}`}>
+                {copied ? <Icons.Check className="h-3.5 w-3.5" /> : <Icons.Copy className="h-3.5 w-3.5" />} {copied ? t('message.copied') : t('message.copy')}
+              </button>
+            )}
+            {onRegenerate && (
+              <button onClick={onRegenerate} className="flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest text-slate-500 btn-active">
+                <Icons.Refresh className="h-3.5 w-3.5" /> {t('message.regenerate')}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Icons } from './Icons';
+import { transcribeAudio } from './geminiService';
+import { toTutorError } from './errors';
+import { errorMessage, useT } from './i18n';
+import { Recording, canRecord, startRecording } from './voice';
+
+// Hold to talk, release to transcribe. The text lands in the composer so the
+// student can check it before sending.
+export const MicButton: React.FC<{
+  lang: string;
+  disabled?: boolean;
+  onText: (text: string) => void;
+  onError: (message: string) => void;
+}> = ({ lang, disabled, onText, onError }) => {
+  const [state, setState] = useState<'idle' | 'starting' | 'recording' | 'transcribing'>('idle');
+  const recordingRef = useRef<Recording | null>(null);
+  const heldRef = useRef(false);
+  const t = useT();
+
+  useEffect(() => () => recordingRef.current?.cancel(), []);
+
+  if (!canRecord()) return null;
+
+  const release = async () => {
+    heldRef.current = false;
+    const recording = recordingRef.current;
+    if (!recording) return;
+    recordingRef.current = null;
+    setState('transcribing');
+    try {
+      const audio = await recording.stop();
+      const text = audio ? await transcribeAudio(audio, lang) : '';
+      if (text) onText(text);
+      else onError(t('mic.nothingHeard'));
+    } catch (err) {
+      onError(errorMessage(t, toTutorError(err).kind));
+    }
+    setState('idle');
+  };
+
+  const press = async () => {
+    if (disabled || state !== 'idle') return;
+    heldRef.current = true;
+    setState('starting');
+    try {
+      const recording = await startRecording(release);
+      // Let go while the permission prompt was open: nothing worth sending.
+      if (!heldRef.current) {
+        recording.cancel();
+        setState('idle');
+        return;
+      }
+      recordingRef.current = recording;
+      setState('recording');
+    } catch (err) {
+      console.error(err);
+      heldRef.current = false;
+      onError(t('mic.blocked'));
+      setState('idle');
+    }
+  };
+
+  const onKey = (e: React.KeyboardEvent, down: boolean) => {
+    if (e.key !== ' ' && e.key !== 'Enter') return;
+    e.preventDefault();
+    if (down && !e.repeat) press();
+    if (!down) release();
+  };
+
+  return (
+    <button
+      type="button"
+      disabled={disabled || state === 'transcribing'}
+      onPointerDown={e => { e.preventDefault(); press(); }}
+      onPointerUp={release}
+      onPointerLeave={() => { if (heldRef.current) release(); }}
+      onPointerCancel={release}
+      onKeyDown={e => onKey(e, true)}
+      onKeyUp={e => onKey(e, false)}
+      onContextMenu={e => e.preventDefault()}
+      className={`p-2 rounded-xl btn-active disabled:opacity-30 select-none touch-none ${
+        state === 'recording' ? 'bg-rose-600 text-white animate-pulse' : state === 'transcribing' ? 'text-cyan-400 animate-pulse' : 'text-slate-400'
+      }`}
+      title={t(state === 'recording' ? 'mic.release' : 'mic.hold')}
+    >
+      <Icons.Mic className="h-5 w-5" />
+    </button>
+  );
+};
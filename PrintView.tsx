@@ -0,0 +1,76 @@
+import React, { useEffect, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { ChatSession } from './types';
+import { renderMarkdown } from './markdown';
+import { detectDirection, isolateLtrRuns } from './bidi';
+import { answerPairs, collectSources } from './threadExport';
+import { withCitationMarks } from './citations';
+import { useT, valueLabel } from './i18n';
+
+// Printable study notes for a thread. Rendered outside #root and shown only by
+// the print stylesheet in index.html, so the browser's print dialog (and its
+// "Save as PDF") gets clean black-on-white pages with the same KaTeX math and
+// RTL handling as the chat.
+export const PrintView: React.FC<{
+  session: ChatSession;
+  selected?: Set<string>;
+  onDone: () => void;
+}> = ({ session, selected, onDone }) => {
+  const rootRef = useRef<HTMLDivElement>(null);
+  const t = useT();
+  const pairs = answerPairs(session.messages, selected);
+  const sources = collectSources(pairs);
+  // Citation numbers refer to the appendix, which spans every answer.
+  const numberOf = (uri: string) => sources.findIndex(s => s.uri === uri) + 1;
+
+  useEffect(() => {
+    rootRef.current?.querySelectorAll<HTMLElement>('.prose[dir="rtl"]').forEach(isolateLtrRuns);
+    let live = true;
+    window.addEventListener('afterprint', onDone, { once: true });
+    // Let the fonts for math and Naskh finish loading before the snapshot.
+    document.fonts.ready.then(() => { if (live) window.print(); });
+    return () => {
+      live = false;
+      window.removeEventListener('afterprint', onDone);
+    };
+  }, []);
+
+  return createPortal(
+    <div id="print-root" ref={rootRef}>
+      <header className="print-header">
+        <h1>{session.title || t('export.studyNotes')}</h1>
+        <p>{valueLabel(t, 'subject', session.subject)} · {valueLabel(t, 'lang', session.lang)} · {new Date(session.updatedAt).toLocaleDateString()} · SigNify AI</p>
+      </header>
+
+      {pairs.map(({ question, answer }, i) => (
+        <section key={answer.id} className="print-answer">
+          <h2 dir={detectDirection(question?.text || '')}>
+            <span className="print-number">{i + 1}.</span> {question?.text.trim() || t('export.photoQuestion')}
+          </h2>
+          <div
+            dir={detectDirection(answer.text)}
+            className="prose"
+            dangerouslySetInnerHTML={{ __html: renderMarkdown(withCitationMarks(answer.text, answer.citations, numberOf)) }}
+          />
+          {answer.sources && answer.sources.length > 0 && (
+            <p className="print-cites">
+              {t('export.sources')}: {answer.sources.map(s => `[${numberOf(s.uri)}]`).join(' ')}
+            </p>
+          )}
+        </section>
+      ))}
+
+      {sources.length > 0 && (
+        <section className="print-sources">
+          <h2>{t('export.sources')}</h2>
+          <ol>
+            {sources.map(s => (
+              <li key={s.uri}>{s.title} — <span className="print-url">{s.uri}</span></li>
+            ))}
+          </ol>
+        </section>
+      )}
+    </div>,
+    document.body
+  );
+};
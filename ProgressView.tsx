@@ -0,0 +1,131 @@
+import React, { useState, useEffect } from 'react';
+import { SUBJECTS } from './constants';
+import { listActivity, listCards } from './progressStore';
+import { dailyCounts, streak, summarise } from './progressStats';
+import { ActivityEvent, ReviewCard } from './types';
+import { Translate, useT, valueLabel } from './i18n';
+
+const CHART_DAYS = 14;
+
+const percent = (value: number | null) => value === null ? '—' : `${Math.round(value * 100)}%`;
+
+const masteryColor = (value: number | null) =>
+  value === null ? 'bg-slate-700' : value >= 0.8 ? 'bg-emerald-500' : value >= 0.5 ? 'bg-amber-500' : 'bg-rose-500';
+
+const formatDue = (t: Translate, due: number) => {
+  const days = Math.ceil((due - Date.now()) / (24 * 60 * 60 * 1000));
+  return days <= 0 ? t('progress.dueNow') : days === 1 ? t('progress.dueTomorrow') : t('progress.dueIn', { count: days });
+};
+
+export const ProgressView: React.FC<{
+  initialSubject: string;
+  onReview: (card: ReviewCard) => void;
+}> = ({ initialSubject, onReview }) => {
+  const [subject, setSubject] = useState(initialSubject);
+  const [events, setEvents] = useState<ActivityEvent[] | null>(null);
+  const [cards, setCards] = useState<ReviewCard[]>([]);
+  const t = useT();
+
+  useEffect(() => {
+    Promise.all([listActivity(), listCards()])
+      .then(([e, c]) => { setEvents(e); setCards(c); })
+      .catch(err => { console.error(err); setEvents([]); });
+  }, []);
+
+  if (!events) return null;
+
+  const subjectEvents = events.filter(e => e.subject === subject);
+  const stats = summarise(subject, subjectEvents);
+  const days = dailyCounts(subjectEvents, CHART_DAYS);
+  const peak = Math.max(1, ...days.map(d => d.count));
+  const streakDays = streak(events);
+  const deck = cards.filter(c => c.subject === subject).sort((a, b) => a.due - b.due);
+
+  return (
+    <div className="flex-1 overflow-y-auto no-scrollbar p-4 pb-10 flex flex-col gap-6">
+      <div className="flex items-center justify-between bg-slate-900 border border-slate-800 rounded-3xl px-5 py-4">
+        <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">{t('progress.studyStreak')}</span>
+        <span className="text-lg font-black text-slate-50">{streakDays} <span className="text-xs text-slate-500">{t(streakDays === 1 ? 'progress.dayOne' : 'progress.days')}</span></span>
+      </div>
+
+      <div className="flex gap-2 overflow-x-auto no-scrollbar py-1">
+        {SUBJECTS.map(s => (
+          <button
+            key={s}
+            onClick={() => setSubject(s)}
+            className={`flex-shrink-0 px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest transition-all border ${
+              subject === s ? 'bg-indigo-600 border-indigo-500 text-white shadow-lg shadow-indigo-600/20' : 'bg-slate-900 border-slate-800 text-slate-500'
+            }`}
+          >
+            {valueLabel(t, 'subject', s)}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        {[
+          { label: t('progress.streak'), value: t('progress.daysShort', { count: stats.streak }) },
+          { label: t('progress.mastery'), value: percent(stats.mastery) },
+          { label: t('progress.quizzes'), value: String(stats.quizzes) },
+          { label: t('progress.questions'), value: String(stats.questions) },
+          { label: t('progress.exercises'), value: String(stats.exercises) },
+          { label: t('progress.topics'), value: String(stats.topics.length) },
+        ].map(item => (
+          <div key={item.label} className="bg-slate-900 border border-slate-800 rounded-2xl p-3">
+            <span className="block text-[9px] font-black uppercase tracking-widest text-slate-500">{item.label}</span>
+            <span className="text-lg font-black text-slate-50">{item.value}</span>
+          </div>
+        ))}
+      </div>
+
+      <section>
+        <h3 className="text-[10px] font-black uppercase tracking-widest text-indigo-400 mb-3">{t('progress.lastDays', { count: CHART_DAYS })}</h3>
+        <div className="flex items-end gap-1 h-20 bg-slate-900 border border-slate-800 rounded-2xl p-3">
+          {days.map(d => (
+            <div key={d.day} className="flex-1 h-full flex items-end" title={`${new Date(d.day).toLocaleDateString()}: ${d.count}`}>
+              <div className={`w-full rounded-sm ${d.count ? 'bg-indigo-500' : 'bg-slate-800'}`} style={{ height: `${Math.max(8, (d.count / peak) * 100)}%` }} />
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section>
+        <h3 className="text-[10px] font-black uppercase tracking-widest text-indigo-400 mb-3">{t('progress.masteryByTopic')}</h3>
+        {stats.topics.length === 0 ? (
+          <p className="text-xs text-slate-600">{t('progress.nothingYet', { subject: valueLabel(t, 'subject', subject) })}</p>
+        ) : (
+          <div className="flex flex-col gap-3">
+            {stats.topics.map(topic => (
+              <div key={topic.topic}>
+                <div className="flex justify-between text-xs mb-1">
+                  <span className="text-slate-300 font-semibold truncate pe-3">{topic.topic}</span>
+                  <span className="text-slate-500 font-black flex-shrink-0">{percent(topic.mastery)}</span>
+                </div>
+                <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                  <div className={`h-full ${masteryColor(topic.mastery)}`} style={{ width: `${topic.mastery === null ? 100 : Math.max(4, topic.mastery * 100)}%`, opacity: topic.mastery === null ? 0.4 : 1 }} />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      {deck.length > 0 && (
+        <section>
+          <h3 className="text-[10px] font-black uppercase tracking-widest text-indigo-400 mb-3">{t('progress.reviewSchedule')}</h3>
+          <div className="flex flex-col gap-2">
+            {deck.map(card => (
+              <div key={card.id} className="flex items-center gap-3 bg-slate-900 border border-slate-800 rounded-2xl px-4 py-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-bold text-slate-100 truncate">{card.topic}</p>
+                  <p className="text-[10px] text-slate-500 font-bold">{formatDue(t, card.due)} · {t('progress.reviewed', { count: card.repetitions })}</p>
+                </div>
+                <button onClick={() => onReview(card)} className="text-[10px] font-black uppercase tracking-widest text-indigo-400 btn-active">{t('progress.review')}</button>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,279 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Icons } from './Icons';
+import { ErrorCard } from './ErrorCard';
+import { SUBJECTS } from './constants';
+import { generateQuiz } from './geminiService';
+import { loadSettings } from './settings';
+import { Curriculum, chapterLabel, findSubject, loadCurriculum } from './curriculum';
+import { TutorErrorKind, toTutorError } from './errors';
+import { MessageKey, errorMessage, useT, valueLabel } from './i18n';
+import { Quiz, QuizQuestionKind, QuizResult } from './types';
+import { scoreQuiz } from './quizScoring';
+import { detectDirection } from './bidi';
+
+const LENGTHS = [5, 10, 15];
+const TIME_LIMITS = [0, 5, 10, 20]; // minutes; 0 = untimed
+
+const KIND_LABELS: Record<QuizQuestionKind, MessageKey> = {
+  mcq: 'quiz.kind.mcq',
+  blank: 'quiz.kind.blank',
+  short: 'quiz.kind.short',
+};
+
+// Board papers are mostly MCQs, so the mix leans that way.
+const splitCount = (total: number) => {
+  const blank = Math.round(total * 0.2);
+  const short = Math.round(total * 0.2);
+  return { mcq: total - blank - short, blank, short };
+};
+
+const formatClock = (ms: number) => {
+  const s = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
+
+const chip = (active: boolean) => `flex-shrink-0 px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest transition-all border ${
+  active ? 'bg-rose-600 border-rose-500 text-white shadow-lg shadow-rose-600/20' : 'bg-slate-900 border-slate-800 text-slate-500'
+}`;
+
+export const QuizView: React.FC<{
+  initialSubject: string;
+  lang: string;
+  onFinish?: (result: QuizResult) => void;
+}> = ({ initialSubject, lang, onFinish }) => {
+  const [phase, setPhase] = useState<'setup' | 'running' | 'results'>('setup');
+  const [subject, setSubject] = useState(initialSubject);
+  const [chapter, setChapter] = useState('');
+  const [length, setLength] = useState(10);
+  const [minutes, setMinutes] = useState(10);
+  const [curriculum, setCurriculum] = useState<Curriculum | null>(null);
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState<TutorErrorKind | null>(null);
+  const t = useT();
+
+  const [quiz, setQuiz] = useState<Quiz | null>(null);
+  const [index, setIndex] = useState(0);
+  const [responses, setResponses] = useState<Record<string, string>>({});
+  const [startedAt, setStartedAt] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const [result, setResult] = useState<QuizResult | null>(null);
+  const submittedRef = useRef(false);
+
+  useEffect(() => {
+    loadCurriculum().then(setCurriculum).catch(() => setCurriculum(null));
+  }, []);
+
+  const deadline = minutes > 0 ? startedAt + minutes * 60_000 : Infinity;
+
+  const submit = () => {
+    if (!quiz || submittedRef.current) return;
+    submittedRef.current = true;
+    const scored = scoreQuiz(quiz, responses, startedAt);
+    setResult(scored);
+    setPhase('results');
+    onFinish?.(scored);
+  };
+
+  useEffect(() => {
+    if (phase !== 'running') return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [phase]);
+
+  useEffect(() => {
+    if (phase === 'running' && now >= deadline) submit();
+  }, [now, phase]);
+
+  const start = (q: Quiz) => {
+    submittedRef.current = false;
+    setQuiz(q);
+    setResponses({});
+    setIndex(0);
+    setResult(null);
+    setStartedAt(Date.now());
+    setNow(Date.now());
+    setPhase('running');
+  };
+
+  const create = async () => {
+    setGenerating(true);
+    setError(null);
+    try {
+      const q = await generateQuiz({ subject, chapter: chapter || undefined, lang, ...splitCount(length), tutor: loadSettings().tutor });
+      if (q.questions.length === 0) throw new SyntaxError('Quiz came back empty');
+      start(q);
+    } catch (err) {
+      setError(toTutorError(err).kind);
+    }
+    setGenerating(false);
+  };
+
+  if (phase === 'setup') {
+    const chapters = curriculum ? findSubject(curriculum, subject)?.chapters || [] : [];
+    return (
+      <div className="flex-1 overflow-y-auto no-scrollbar p-4 flex flex-col gap-6">
+        <section>
+          <h3 className="text-[10px] font-black uppercase tracking-widest text-rose-400 mb-3">{t('quiz.subject')}</h3>
+          <div className="flex gap-2 overflow-x-auto no-scrollbar py-1">
+            {SUBJECTS.map(s => (
+              <button key={s} onClick={() => { setSubject(s); setChapter(''); }} className={chip(subject === s)}>{valueLabel(t, 'subject', s)}</button>
+            ))}
+          </div>
+        </section>
+
+        <section>
+          <h3 className="text-[10px] font-black uppercase tracking-widest text-rose-400 mb-3">{t('quiz.chapter')}</h3>
+          <select
+            value={chapter}
+            onChange={e => setChapter(e.target.value)}
+            className="w-full bg-slate-900 border border-slate-800 rounded-2xl px-4 py-3 text-sm text-slate-100 focus:ring-0 focus:border-rose-500/50"
+          >
+            <option value="">{t('quiz.wholeSyllabus')}</option>
+            {chapters.map(c => (
+              <option key={c.number} value={chapterLabel(c)}>{t('curriculum.chapterShort', { number: c.number })} · {c.title}</option>
+            ))}
+          </select>
+        </section>
+
+        <section className="grid grid-cols-2 gap-4">
+          <div>
+            <h3 className="text-[10px] font-black uppercase tracking-widest text-rose-400 mb-3">{t('quiz.questions')}</h3>
+            <div className="flex gap-2">
+              {LENGTHS.map(n => <button key={n} onClick={() => setLength(n)} className={chip(length === n)}>{n}</button>)}
+            </div>
+          </div>
+          <div>
+            <h3 className="text-[10px] font-black uppercase tracking-widest text-rose-400 mb-3">{t('quiz.time')}</h3>
+            <div className="flex gap-2 flex-wrap">
+              {TIME_LIMITS.map(m => <button key={m} onClick={() => setMinutes(m)} className={chip(minutes === m)}>{m ? t('quiz.minutes', { count: m }) : t('quiz.untimed')}</button>)}
+            </div>
+          </div>
+        </section>
+
+        {error && <ErrorCard message={errorMessage(t, error)} onRetry={create} />}
+
+        <button
+          onClick={create}
+          disabled={generating}
+          className="mt-auto bg-rose-600 py-4 rounded-2xl text-sm font-black uppercase tracking-widest text-white disabled:opacity-40 btn-active shadow-lg shadow-rose-600/20"
+        >
+          {t(generating ? 'quiz.preparing' : 'quiz.start')}
+        </button>
+      </div>
+    );
+  }
+
+  if (phase === 'results' && result && quiz) {
+    const total = quiz.questions.length;
+    return (
+      <div className="flex-1 overflow-y-auto no-scrollbar p-4 pb-10">
+        <div className="bg-slate-900 border border-slate-800 p-6 rounded-3xl mb-6 text-center">
+          <p className="text-[10px] font-black uppercase tracking-widest text-rose-400">{valueLabel(t, 'subject', quiz.subject)}{quiz.chapter ? ` · ${quiz.chapter}` : ''}</p>
+          <p className="text-4xl font-black text-slate-50 mt-3">{Math.round(result.score * 10) / 10}<span className="text-slate-600 text-2xl"> / {total}</span></p>
+          <p className="text-xs text-slate-500 mt-2">{Math.round((result.score / total) * 100)}% · {t('quiz.taken', { time: formatClock(result.durationMs) })}</p>
+        </div>
+
+        <div className="flex flex-col gap-3">
+          {quiz.questions.map((q, i) => {
+            const a = result.answers[i];
+            const marks = Math.round(a.score * 100) / 100;
+            return (
+              <div key={q.id} className={`p-4 rounded-2xl border ${a.correct ? 'border-emerald-500/30 bg-emerald-600/5' : 'border-rose-500/30 bg-rose-600/5'}`}>
+                <p className="text-[10px] font-black uppercase tracking-widest text-slate-500 mb-1">
+                  {t('quiz.questionShort', { n: i + 1 })} · {t(KIND_LABELS[q.kind])} · {t(marks === 1 ? 'quiz.markOne' : 'quiz.marks', { count: marks })}
+                </p>
+                <p className="text-sm font-bold text-slate-100 mb-3">{q.prompt}</p>
+                <p className="text-xs text-slate-400"><span className="font-black text-slate-500">{t('quiz.yourAnswer')} </span>{a.response || '—'}</p>
+                <p className="text-xs text-emerald-400 mt-1"><span className="font-black text-slate-500">{t('quiz.answerKey')} </span>{q.answer}</p>
+                {q.keywords && q.keywords.length > 0 && (
+                  <p className="text-xs text-slate-500 mt-1"><span className="font-black">{t('quiz.keyPoints')} </span>{q.keywords.join(', ')}</p>
+                )}
+                <p className="text-xs text-slate-300 mt-3 leading-relaxed">{q.explanation}</p>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 mt-6">
+          <button onClick={() => start(quiz)} className="py-3 rounded-2xl border border-slate-800 bg-slate-900 text-[10px] font-black uppercase tracking-widest text-slate-300 btn-active">{t('quiz.retake')}</button>
+          <button onClick={() => setPhase('setup')} className="py-3 rounded-2xl bg-rose-600 text-[10px] font-black uppercase tracking-widest text-white btn-active">{t('quiz.new')}</button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!quiz) return null;
+  const q = quiz.questions[index];
+  const response = responses[q.id] || '';
+  const setResponse = (value: string) => setResponses(r => ({ ...r, [q.id]: value }));
+  const isLast = index === quiz.questions.length - 1;
+
+  return (
+    <div className="flex-1 flex flex-col p-4 overflow-hidden">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">{t('quiz.progress', { n: index + 1, total: quiz.questions.length })}</span>
+        {minutes > 0 && (
+          <span className={`text-xs font-black tabular-nums ${deadline - now < 60_000 ? 'text-rose-400' : 'text-slate-300'}`}>{formatClock(deadline - now)}</span>
+        )}
+      </div>
+      <div className="h-1 bg-slate-800 rounded-full mb-6 overflow-hidden">
+        <div className="h-full bg-rose-500 transition-all" style={{ width: `${((index + 1) / quiz.questions.length) * 100}%` }} />
+      </div>
+
+      <div className="flex-1 overflow-y-auto no-scrollbar">
+        <p dir={detectDirection(q.prompt)} className="text-lg font-bold text-slate-50 leading-relaxed mb-6">{q.prompt}</p>
+        {q.kind === 'mcq' && (
+          <div className="flex flex-col gap-2">
+            {(q.options || []).map((opt, i) => (
+              <button
+                key={i}
+                onClick={() => setResponse(opt)}
+                dir={detectDirection(opt)}
+                className={`text-start px-4 py-3 rounded-2xl border text-sm transition-all ${
+                  response === opt ? 'border-rose-500 bg-rose-600/15 text-white' : 'border-slate-800 bg-slate-900 text-slate-300'
+                }`}
+              >
+                <span className="font-black text-rose-400 me-3">{String.fromCharCode(65 + i)}</span>{opt}
+              </button>
+            ))}
+          </div>
+        )}
+        {q.kind === 'blank' && (
+          <input
+            value={response}
+            dir="auto"
+            onChange={e => setResponse(e.target.value)}
+            placeholder={t('quiz.blankPlaceholder')}
+            className="w-full bg-slate-900 border border-slate-800 rounded-2xl px-4 py-3 text-sm text-slate-100 focus:ring-0 focus:border-rose-500/50"
+          />
+        )}
+        {q.kind === 'short' && (
+          <textarea
+            value={response}
+            dir="auto"
+            onChange={e => setResponse(e.target.value)}
+            rows={6}
+            placeholder={t('quiz.shortPlaceholder')}
+            className="w-full bg-slate-900 border border-slate-800 rounded-2xl px-4 py-3 text-sm text-slate-100 focus:ring-0 focus:border-rose-500/50 resize-none"
+          />
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 pt-4">
+        <button
+          onClick={() => setIndex(i => i - 1)}
+          disabled={index === 0}
+          className="flex items-center justify-center gap-2 py-3 rounded-2xl border border-slate-800 bg-slate-900 text-[10px] font-black uppercase tracking-widest text-slate-300 disabled:opacity-30 btn-active"
+        >
+          <Icons.Logo className="h-4 w-4 rotate-180" /> {t('quiz.previous')}
+        </button>
+        <button
+          onClick={() => (isLast ? submit() : setIndex(i => i + 1))}
+          className="py-3 rounded-2xl bg-rose-600 text-[10px] font-black uppercase tracking-widest text-white btn-active"
+        >
+          {t(isLast ? 'quiz.submit' : 'quiz.next')}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Icons } from './Icons';
+import { detectDirection } from './bidi';
+import {
+  canSpeak, choosePreferredVoice, claimSpeech, ownsSpeech, preferredVoice,
+  speechTag, splitSentences, toSpokenText, voicesFor,
+} from './speech';
+import { useT, valueLabel } from './i18n';
+
+// Read-aloud control for a bot answer or translation. While speaking it shows
+// the text sentence by sentence with the current one highlighted; tapping a
+// sentence jumps there.
+export const ReadAloud: React.FC<{ text: string; lang: string }> = ({ text, lang }) => {
+  const [state, setState] = useState<'idle' | 'playing' | 'paused'>('idle');
+  const [current, setCurrent] = useState(-1);
+  const [, setVoicesLoaded] = useState(0);
+  const t = useT();
+  const turnRef = useRef(0);
+  const sentences = useMemo(() => splitSentences(toSpokenText(text)), [text]);
+
+  useEffect(() => {
+    if (!canSpeak()) return;
+    const onVoices = () => setVoicesLoaded(n => n + 1);
+    speechSynthesis.addEventListener('voiceschanged', onVoices);
+    return () => {
+      speechSynthesis.removeEventListener('voiceschanged', onVoices);
+      if (ownsSpeech(turnRef.current)) speechSynthesis.cancel();
+    };
+  }, []);
+
+  if (!canSpeak() || sentences.length === 0) return null;
+
+  const voices = voicesFor(lang);
+  const voice = preferredVoice(lang);
+
+  const reset = () => {
+    setState('idle');
+    setCurrent(-1);
+  };
+
+  const released = () => {
+    if (!ownsSpeech(turnRef.current)) reset();
+  };
+
+  const speakFrom = (index: number) => {
+    speechSynthesis.cancel();
+    // A paused queue stays paused for new utterances in Chrome.
+    speechSynthesis.resume();
+    const turn = claimSpeech();
+    turnRef.current = turn;
+
+    const speakAt = (i: number) => {
+      if (!ownsSpeech(turn)) return;
+      if (i >= sentences.length) return reset();
+      const u = new SpeechSynthesisUtterance(sentences[i]);
+      u.lang = voice?.lang || speechTag(lang);
+      if (voice) u.voice = voice;
+      u.rate = 0.95;
+      u.onstart = () => { if (ownsSpeech(turn)) setCurrent(i); };
+      // Events from an older turn only matter if another reader took over;
+      // jumping to a sentence within this one cancels the old turn too.
+      u.onend = () => (ownsSpeech(turn) ? speakAt(i + 1) : released());
+      u.onerror = e => (ownsSpeech(turn) && e.error !== 'interrupted' ? reset() : released());
+      speechSynthesis.speak(u);
+    };
+
+    setState('playing');
+    setCurrent(index);
+    speakAt(index);
+  };
+
+  const pause = () => {
+    speechSynthesis.pause();
+    setState('paused');
+  };
+
+  const resume = () => {
+    speechSynthesis.resume();
+    setState('playing');
+  };
+
+  const stop = () => {
+    claimSpeech();
+    speechSynthesis.cancel();
+    reset();
+  };
+
+  const button = 'flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest btn-active';
+
+  return (
+    <div className="mt-2 w-full">
+      <div className="flex items-center gap-4">
+        {state === 'idle' && (
+          <button onClick={() => speakFrom(0)} className={`${button} text-slate-500`} title={voice ? voice.name : t('readAloud.noVoice', { lang: valueLabel(t, 'lang', lang) })}>
+            <Icons.Speaker className="h-3.5 w-3.5" /> {t('readAloud.read')}
+          </button>
+        )}
+        {state === 'playing' && (
+          <button onClick={pause} className={`${button} text-cyan-400`}>
+            <Icons.Pause className="h-3.5 w-3.5" /> {t('readAloud.pause')}
+          </button>
+        )}
+        {state === 'paused' && (
+          <button onClick={resume} className={`${button} text-cyan-400`}>
+            <Icons.Speaker className="h-3.5 w-3.5" /> {t('readAloud.resume')}
+          </button>
+        )}
+        {state !== 'idle' && (
+          <button onClick={stop} className={`${button} text-slate-500`}>
+            <Icons.Stop className="h-3.5 w-3.5" /> {t('readAloud.stop')}
+          </button>
+        )}
+        {state !== 'idle' && voices.length > 1 && (
+          <select
+            value={voice?.voiceURI}
+            onChange={e => { choosePreferredVoice(lang, e.target.value); stop(); }}
+            className="ms-auto max-w-[45%] bg-slate-900 border border-slate-800 rounded-lg text-[10px] text-slate-400 px-2 py-1 focus:ring-0"
+            title={t('readAloud.voice', { lang: valueLabel(t, 'lang', lang) })}
+          >
+            {voices.map(v => <option key={v.voiceURI} value={v.voiceURI}>{v.name}</option>)}
+          </select>
+        )}
+      </div>
+
+      {state !== 'idle' && (
+        <div dir={detectDirection(text)} className="mt-2 max-h-40 overflow-y-auto no-scrollbar rounded-2xl bg-slate-900/60 border border-slate-800 p-3 text-[13px] leading-relaxed">
+          {sentences.map((s, i) => (
+            <span
+              key={i}
+              onClick={() => speakFrom(i)}
+              className={`cursor-pointer rounded px-0.5 transition-colors ${i === current ? 'bg-cyan-500/25 text-white' : 'text-slate-400'}`}
+            >
+              {s}{' '}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Icons } from './Icons';
+import { AppView, ChatSession } from './types';
+import { listSessions, renameSession, deleteSession } from './sessionStore';
+import { importThread } from './threadExport';
+import { VIEW_TITLES, useT, valueLabel } from './i18n';
+
+const formatDate = (ts: number) =>
+  new Date(ts).toLocaleDateString(undefined, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+export const SessionList: React.FC<{
+  view?: AppView;
+  activeId?: string;
+  onOpen: (session: ChatSession) => void;
+  onDeleted: (id: string) => void;
+  onClose: () => void;
+}> = ({ view, activeId, onOpen, onDeleted, onClose }) => {
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const t = useT();
+
+  const refresh = useCallback(() => {
+    listSessions(view, query).then(setSessions).catch(err => console.error(err));
+  }, [view, query]);
+
+  useEffect(() => { refresh(); }, [refresh]);
+
+  const commitRename = async (id: string) => {
+    setError(null);
+    try {
+      await renameSession(id, draftTitle);
+      setEditingId(null);
+      refresh();
+    } catch (err) {
+      console.error(err);
+      setError(t('history.renameFailed'));
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm(t('history.confirmDelete'))) return;
+    setError(null);
+    try {
+      await deleteSession(id);
+      onDeleted(id);
+      refresh();
+    } catch (err) {
+      console.error(err);
+      setError(t('history.deleteFailed'));
+    }
+  };
+
+  // Opens a thread exported on another device (see threadExport.ts).
+  const handleImport = async (file?: File) => {
+    if (!file) return;
+    setError(null);
+    try {
+      onOpen(await importThread(await file.text()));
+    } catch (err) {
+      console.error(err);
+      setError(t('history.importFailed'));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 bg-slate-950/90 backdrop-blur-sm flex justify-center">
+      <div className="w-full max-w-[600px] flex flex-col p-4">
+        <div className="flex items-center justify-between py-2 mb-3">
+          <h2 className="text-xs font-black uppercase tracking-[0.2em] text-slate-100">{view ? t('history.viewTitle', { view: t(VIEW_TITLES[view]) }) : t('common.history')}</h2>
+          <div className="flex items-center gap-1">
+            <button onClick={() => fileRef.current?.click()} className="p-2 text-[10px] font-black uppercase tracking-widest text-cyan-400 btn-active" title={t('history.importHint')}>
+              {t('history.import')}
+            </button>
+            <button onClick={onClose} className="p-2 text-slate-400 btn-active"><Icons.Close className="h-5 w-5" /></button>
+          </div>
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={e => { handleImport(e.target.files?.[0]); e.target.value = ''; }}
+          />
+        </div>
+
+        {error && (
+          <p className="flex items-center gap-2 text-xs text-red-300 bg-red-950/30 border border-red-500/30 rounded-2xl px-3 py-2 mb-3">
+            <Icons.Alert className="h-4 w-4 flex-shrink-0" /> {error}
+          </p>
+        )}
+
+        <div className="flex items-center gap-2 bg-slate-900 px-3 rounded-2xl border border-slate-800 mb-4">
+          <Icons.Search className="h-4 w-4 text-slate-500" />
+          <input
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder={t('history.search')}
+            className="flex-1 bg-transparent border-none focus:ring-0 text-sm py-3 placeholder-slate-600 text-slate-100"
+          />
+        </div>
+
+        <div className="flex-1 overflow-y-auto no-scrollbar flex flex-col gap-2">
+          {sessions.length === 0 && (
+            <p className="text-center text-xs text-slate-600 mt-10">{t(query ? 'history.noMatches' : 'history.empty')}</p>
+          )}
+          {sessions.map(s => (
+            <div key={s.id} className={`p-4 rounded-2xl border ${s.id === activeId ? 'border-cyan-500/40 bg-cyan-600/10' : 'border-slate-800 bg-slate-900'}`}>
+              {editingId === s.id ? (
+                <form onSubmit={e => { e.preventDefault(); commitRename(s.id); }} className="flex gap-2">
+                  <input
+                    autoFocus
+                    value={draftTitle}
+                    onChange={e => setDraftTitle(e.target.value)}
+                    className="flex-1 bg-slate-800 rounded-lg border-none focus:ring-0 text-sm px-3 py-2 text-slate-100"
+                  />
+                  <button type="submit" className="text-[10px] font-black uppercase tracking-widest text-cyan-400 px-2">{t('common.save')}</button>
+                </form>
+              ) : (
+                <div className="flex items-start gap-3">
+                  <button onClick={() => onOpen(s)} className="flex-1 text-start">
+                    <span className="block text-sm font-bold text-slate-100 leading-snug">{s.title}</span>
+                    <span className="block text-[10px] font-bold uppercase tracking-widest text-slate-500 mt-1.5">
+                      {t(VIEW_TITLES[s.view])} · {valueLabel(t, 'subject', s.subject)} · {valueLabel(t, 'lang', s.lang)} · {formatDate(s.updatedAt)}
+                    </span>
+                  </button>
+                  <button onClick={() => { setEditingId(s.id); setDraftTitle(s.title); }} className="p-1.5 text-slate-500 btn-active" title={t('history.rename')}>
+                    <Icons.Pencil className="h-4 w-4" />
+                  </button>
+                  <button onClick={() => handleDelete(s.id)} className="p-1.5 text-slate-500 btn-active" title={t('history.delete')}>
+                    <Icons.Trash className="h-4 w-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
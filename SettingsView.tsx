@@ -0,0 +1,148 @@
+import React from 'react';
+import { Settings, TutorSettings } from './types';
+import { ANSWER_LANGUAGES, PROMPTS, SUBJECTS } from './constants';
+import { SETTING_OPTIONS, TUTOR_OPTIONS } from './settings';
+import { MessageKey, useT, valueLabel } from './i18n';
+
+// Each language is named in itself, so it can be found whatever the app
+// language currently is.
+const UI_LANG_LABELS: Record<Settings['uiLang'], string> = { en: 'English', ur: 'اردو', sd: 'سنڌي' };
+const THEME_LABELS: Record<Settings['theme'], MessageKey> = { dark: 'theme.dark', light: 'theme.light' };
+const TEXT_SIZE_LABELS: Record<Settings['textSize'], MessageKey> = { small: 'textSize.small', medium: 'textSize.medium', large: 'textSize.large' };
+
+const TUTOR_LABELS: { [K in keyof TutorSettings]: Record<TutorSettings[K], { label: MessageKey; hint: MessageKey }> } = {
+  tone: {
+    friendly: { label: 'tone.friendly', hint: 'tone.friendlyHint' },
+    formal: { label: 'tone.formal', hint: 'tone.formalHint' },
+    concise: { label: 'tone.concise', hint: 'tone.conciseHint' },
+  },
+  languageMix: {
+    pure: { label: 'mix.pure', hint: 'mix.pureHint' },
+    terms: { label: 'mix.terms', hint: 'mix.termsHint' },
+    bilingual: { label: 'mix.bilingual', hint: 'mix.bilingualHint' },
+  },
+  scope: {
+    syllabus: { label: 'scope.syllabus', hint: 'scope.syllabusHint' },
+    extended: { label: 'scope.extended', hint: 'scope.extendedHint' },
+  },
+};
+
+const TUTOR_SECTIONS: { key: keyof TutorSettings; title: MessageKey }[] = [
+  { key: 'tone', title: 'settings.tone' },
+  { key: 'languageMix', title: 'settings.languageMix' },
+  { key: 'scope', title: 'settings.scope' },
+];
+
+const chip = (active: boolean) => `flex-shrink-0 px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest transition-all border ${
+  active ? 'bg-cyan-600 border-cyan-500 text-white shadow-lg shadow-cyan-600/20' : 'bg-slate-900 border-slate-800 text-slate-500'
+}`;
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section>
+    <h3 className="text-[10px] font-black uppercase tracking-widest text-cyan-400 mb-3 px-1">{title}</h3>
+    {children}
+  </section>
+);
+
+function Chips<T extends string>({ options, value, label, onChange }: {
+  options: readonly T[];
+  value: T;
+  label: (option: T) => string;
+  onChange: (option: T) => void;
+}) {
+  return (
+    <div className="flex gap-2 overflow-x-auto no-scrollbar py-1">
+      {options.map(o => <button key={o} onClick={() => onChange(o)} className={chip(value === o)}>{label(o)}</button>)}
+    </div>
+  );
+}
+
+const Toggle: React.FC<{ label: string; hint: string; on: boolean; disabled?: boolean; onChange: (on: boolean) => void }> = ({ label, hint, on, disabled, onChange }) => (
+  <button
+    role="switch"
+    aria-checked={on}
+    disabled={disabled}
+    onClick={() => onChange(!on)}
+    className="w-full flex items-center gap-4 text-start px-4 py-3 rounded-2xl border bg-slate-900 border-slate-800 btn-active disabled:opacity-40"
+  >
+    <span className="flex-1">
+      <span className="block text-sm font-bold text-slate-100">{label}</span>
+      <span className="block text-xs text-slate-500 mt-0.5">{hint}</span>
+    </span>
+    <span className={`w-10 h-6 flex-shrink-0 rounded-full p-1 transition-all ${on ? 'bg-cyan-600' : 'bg-slate-700'}`}>
+      <span className={`block w-4 h-4 rounded-full bg-white transition-all ${on ? 'translate-x-4 rtl:-translate-x-4' : ''}`}></span>
+    </span>
+  </button>
+);
+
+// Device settings: the defaults every view starts from, display, data use
+// and how the tutor answers. Saved on change; the next question uses them.
+export const SettingsView: React.FC<{
+  settings: Settings;
+  onChange: (patch: Partial<Settings>) => void;
+}> = ({ settings, onChange }) => {
+  const t = useT();
+  const updateTutor = (patch: Partial<TutorSettings>) => onChange({ tutor: { ...settings.tutor, ...patch } });
+
+  return (
+    <div className="flex-1 overflow-y-auto no-scrollbar p-4 flex flex-col gap-6">
+      <Section title={t('settings.defaultSubject')}>
+        <Chips options={SUBJECTS} value={settings.defaultSubject} label={s => valueLabel(t, 'subject', s)} onChange={defaultSubject => onChange({ defaultSubject })} />
+      </Section>
+      <Section title={t('settings.answerLang')}>
+        <Chips options={ANSWER_LANGUAGES} value={settings.answerLang} label={l => valueLabel(t, 'lang', l)} onChange={answerLang => onChange({ answerLang })} />
+      </Section>
+      <Section title={t('settings.uiLang')}>
+        <Chips options={SETTING_OPTIONS.uiLang} value={settings.uiLang} label={l => UI_LANG_LABELS[l]} onChange={uiLang => onChange({ uiLang })} />
+      </Section>
+      <Section title={t('settings.theme')}>
+        <Chips options={SETTING_OPTIONS.theme} value={settings.theme} label={o => t(THEME_LABELS[o])} onChange={theme => onChange({ theme })} />
+      </Section>
+      <Section title={t('settings.textSize')}>
+        <Chips options={SETTING_OPTIONS.textSize} value={settings.textSize} label={o => t(TEXT_SIZE_LABELS[o])} onChange={textSize => onChange({ textSize })} />
+      </Section>
+      <Section title={t('settings.data')}>
+        <div className="flex flex-col gap-2">
+          <Toggle
+            label={t('settings.dataSaver')}
+            hint={t('settings.dataSaverHint')}
+            on={settings.dataSaver}
+            onChange={dataSaver => onChange({ dataSaver })}
+          />
+          <Toggle
+            label={t('settings.grounding')}
+            hint={t('settings.groundingHint')}
+            on={settings.searchGrounding && !settings.dataSaver}
+            disabled={settings.dataSaver}
+            onChange={searchGrounding => onChange({ searchGrounding })}
+          />
+        </div>
+      </Section>
+      {TUTOR_SECTIONS.map(({ key, title }) => (
+        <Section key={key} title={t(title)}>
+          <div className="flex flex-col gap-2">
+            {TUTOR_OPTIONS[key].map(option => {
+              const { label, hint } = (TUTOR_LABELS[key] as Record<string, { label: MessageKey; hint: MessageKey }>)[option];
+              const active = settings.tutor[key] === option;
+              return (
+                <button
+                  key={option}
+                  onClick={() => updateTutor({ [key]: option })}
+                  className={`text-start px-4 py-3 rounded-2xl border transition-all btn-active ${
+                    active ? 'bg-cyan-600/10 border-cyan-500/50' : 'bg-slate-900 border-slate-800'
+                  }`}
+                >
+                  <span className={`block text-sm font-bold ${active ? 'text-cyan-300' : 'text-slate-100'}`}>{t(label)}</span>
+                  <span className="block text-xs text-slate-500 mt-0.5">{t(hint)}</span>
+                </button>
+              );
+            })}
+          </div>
+        </Section>
+      ))}
+      <p className="text-[10px] text-slate-600 px-1 leading-relaxed">
+        {t('settings.promptVersions', { list: Object.entries(PROMPTS).map(([mode, p]) => `${mode}@${p.version}`).join(' · ') })}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,11 @@
+import React from 'react';
+import { Source } from './types';
+import { sourceDomain } from './citations';
+
+// A grounding source, opened outside the app. Untitled sources show their
+// domain instead.
+export const SourceLink: React.FC<{ source: Source; className?: string }> = ({ source, className }) => (
+  <a href={source.uri} target="_blank" rel="noreferrer" dir="auto" className={className}>
+    {source.title || sourceDomain(source) || source.uri}
+  </a>
+);
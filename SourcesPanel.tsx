@@ -0,0 +1,173 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Icons } from './Icons';
+import { Source, SourcePolicy, SourceTrust } from './types';
+import { DEFAULT_SOURCE_POLICY } from './constants';
+import { normaliseDomain, sourceDomain, sourceTrust } from './citations';
+import { SourceLink } from './SourceLink';
+import { MessageKey, useT } from './i18n';
+
+const TRUST_BADGES: Record<SourceTrust, { label: MessageKey; className: string }> = {
+  trusted: { label: 'sources.trusted', className: 'text-emerald-300 bg-emerald-400/10 border-emerald-400/20' },
+  untrusted: { label: 'sources.untrusted', className: 'text-amber-300 bg-amber-400/10 border-amber-400/20' },
+  unverified: { label: 'sources.unverified', className: 'text-slate-400 bg-slate-400/10 border-slate-400/20' },
+};
+
+// Moves `domain` onto the list for `trust`, or off both lists.
+function withTrust(policy: SourcePolicy, domain: string, trust: SourceTrust): SourcePolicy {
+  return {
+    allow: [...policy.allow.filter(d => d !== domain), ...(trust === 'trusted' ? [domain] : [])],
+    deny: [...policy.deny.filter(d => d !== domain), ...(trust === 'untrusted' ? [domain] : [])],
+  };
+}
+
+// The sources under a grounded answer. Collapsed it shows the domains and a
+// warning when any of them is untrusted; expanded it lists every source with
+// the number its citations use.
+export const SourcesPanel: React.FC<{
+  sources: Source[];
+  policy: SourcePolicy;
+  open: boolean;
+  highlighted: number | null;
+  onToggle: () => void;
+  onPolicyChange: (policy: SourcePolicy) => void;
+}> = ({ sources, policy, open, highlighted, onToggle, onPolicyChange }) => {
+  const [editing, setEditing] = useState(false);
+  const t = useT();
+  const listRef = useRef<HTMLOListElement>(null);
+  const rows = sources.map((s, i) => ({ source: s, n: i + 1, domain: sourceDomain(s), trust: sourceTrust(s, policy) }));
+  const flagged = rows.filter(r => r.trust === 'untrusted').length;
+  const trusted = rows.filter(r => r.trust === 'trusted').length;
+  const domains = [...new Set(rows.map(r => r.domain).filter(Boolean))];
+
+  useEffect(() => {
+    if (open && highlighted) listRef.current?.children[highlighted - 1]?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [open, highlighted]);
+
+  return (
+    <div className="mt-2 w-full">
+      {flagged > 0 && (
+        <p className="flex items-center gap-2 text-[11px] text-amber-300 bg-amber-950/30 border border-amber-500/30 rounded-xl px-3 py-2 mb-2">
+          <Icons.Alert className="h-4 w-4 flex-shrink-0" />
+          {t(flagged === 1 ? 'sources.flaggedOne' : 'sources.flaggedMany')}
+        </p>
+      )}
+      <button onClick={onToggle} className="w-full flex items-center gap-2 text-start text-[10px] font-black uppercase tracking-widest text-cyan-400 btn-active">
+        <span>{t(sources.length === 1 ? 'sources.countOne' : 'sources.countMany', { count: sources.length })}</span>
+        {trusted > 0 && <span className="text-emerald-400">· {t('sources.trustedCount', { count: trusted })}</span>}
+        <span className="flex-1 truncate normal-case tracking-normal font-bold text-slate-500">{domains.slice(0, 3).join(', ')}</span>
+        <span className="text-slate-500">{open ? '−' : '+'}</span>
+      </button>
+
+      {open && (
+        <div className="mt-2 rounded-2xl border border-slate-700 bg-slate-900 overflow-hidden">
+          <ol ref={listRef}>
+            {rows.map(({ source, n, domain, trust }) => (
+              <li key={source.uri} className={`flex items-start gap-3 px-3 py-2.5 border-b border-slate-800 ${highlighted === n ? 'bg-cyan-600/10' : ''}`}>
+                <span className="text-[10px] font-black text-cyan-400 mt-0.5 w-4 flex-shrink-0">{n}</span>
+                <span className="flex-1 min-w-0">
+                  <SourceLink source={source} className="block text-xs font-bold text-slate-100 truncate hover:underline" />
+                  <span className="flex items-center gap-2 mt-1">
+                    <span className="text-[10px] text-slate-500 truncate">{domain || t('sources.unknownSite')}</span>
+                    <span className={`text-[8px] font-black uppercase tracking-widest border rounded px-1.5 py-0.5 ${TRUST_BADGES[trust].className}`}>{t(TRUST_BADGES[trust].label)}</span>
+                  </span>
+                </span>
+                {domain && (
+                  <span className="flex gap-2 flex-shrink-0 text-[9px] font-black uppercase tracking-widest">
+                    {trust !== 'trusted' && <button onClick={() => onPolicyChange(withTrust(policy, domain, 'trusted'))} className="text-emerald-400 btn-active">{t('sources.trust')}</button>}
+                    {trust !== 'untrusted' && <button onClick={() => onPolicyChange(withTrust(policy, domain, 'untrusted'))} className="text-amber-400 btn-active">{t('sources.flag')}</button>}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ol>
+          <button onClick={() => setEditing(true)} className="w-full px-3 py-2.5 text-start text-[10px] font-black uppercase tracking-widest text-slate-400 btn-active">
+            {t('sources.edit')}
+          </button>
+        </div>
+      )}
+
+      {editing && <SourcePolicySheet policy={policy} onChange={onPolicyChange} onClose={() => setEditing(false)} />}
+    </div>
+  );
+};
+
+const DomainList: React.FC<{
+  title: string;
+  hint: string;
+  domains: string[];
+  accent: string;
+  onChange: (domains: string[]) => void;
+}> = ({ title, hint, domains, accent, onChange }) => {
+  const [draft, setDraft] = useState('');
+  const t = useT();
+  const domain = normaliseDomain(draft);
+
+  const add = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!domain) return;
+    if (!domains.includes(domain)) onChange([...domains, domain]);
+    setDraft('');
+  };
+
+  return (
+    <section>
+      <h3 className={`text-[10px] font-black uppercase tracking-widest mb-1 ${accent}`}>{title}</h3>
+      <p className="text-[11px] text-slate-500 mb-3">{hint}</p>
+      <div className="flex flex-wrap gap-2 mb-3">
+        {domains.map(d => (
+          <span key={d} className="flex items-center gap-1 bg-slate-900 border border-slate-800 rounded-full ps-3 pe-1 py-1 text-xs text-slate-200">
+            {d}
+            <button onClick={() => onChange(domains.filter(x => x !== d))} className="p-0.5 text-slate-500 btn-active" title={t('common.remove')}>
+              <Icons.Close className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        {domains.length === 0 && <span className="text-xs text-slate-600">{t('common.none')}</span>}
+      </div>
+      <form onSubmit={add} className="flex gap-2">
+        <input
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          placeholder={t('sources.domainPlaceholder')}
+          className="flex-1 min-w-0 bg-slate-900 border border-slate-800 rounded-xl px-3 py-2 text-sm text-slate-100 focus:ring-0 placeholder-slate-600"
+        />
+        <button type="submit" disabled={!domain} className="px-4 rounded-xl bg-slate-800 text-[10px] font-black uppercase tracking-widest text-slate-200 btn-active disabled:opacity-30">{t('common.add')}</button>
+      </form>
+    </section>
+  );
+};
+
+export const SourcePolicySheet: React.FC<{
+  policy: SourcePolicy;
+  onChange: (policy: SourcePolicy) => void;
+  onClose: () => void;
+}> = ({ policy, onChange, onClose }) => {
+  const t = useT();
+  return (
+    <div className="fixed inset-0 z-30 bg-slate-950/90 backdrop-blur-sm flex justify-center">
+      <div className="w-full max-w-[600px] flex flex-col p-4 gap-6 overflow-y-auto no-scrollbar">
+        <div className="flex items-center justify-between py-2">
+          <h2 className="text-xs font-black uppercase tracking-[0.2em] text-slate-100">{t('sources.sheetTitle')}</h2>
+          <button onClick={onClose} className="p-2 text-slate-400 btn-active"><Icons.Close className="h-5 w-5" /></button>
+        </div>
+        <DomainList
+          title={t('sources.prefer')}
+          hint={t('sources.preferHint')}
+          domains={policy.allow}
+          accent="text-emerald-400"
+          onChange={allow => onChange({ ...policy, allow })}
+        />
+        <DomainList
+          title={t('sources.untrusted')}
+          hint={t('sources.untrustedHint')}
+          domains={policy.deny}
+          accent="text-amber-400"
+          onChange={deny => onChange({ ...policy, deny })}
+        />
+        <button onClick={() => onChange(DEFAULT_SOURCE_POLICY)} className="self-start text-[10px] font-black uppercase tracking-widest text-slate-500 btn-active">
+          {t('sources.reset')}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,9 @@
+import React from 'react';
+
+// The pulsing bar shown while a reply or a translation is on its way.
+export const Spinner: React.FC = () => (
+  <div className="flex gap-2 animate-pulse mb-8 items-center px-4">
+    <div className="h-1.5 w-1.5 bg-cyan-500 rounded-full" />
+    <div className="h-1.5 w-12 bg-slate-800 rounded-full" />
+  </div>
+);
@@ -0,0 +1,434 @@
+import React, { useState, useEffect, useRef } from 'react';
+import QRCode from 'qrcode';
+import { Icons } from './Icons';
+import { SUBJECTS } from './constants';
+import { Curriculum, chapterLabel, findSubject, loadCurriculum } from './curriculum';
+import { Assignment, Submission } from './types';
+import { detectDirection } from './bidi';
+import { useT, valueLabel } from './i18n';
+import {
+  deleteAssignment, encodeAssignment, importSubmission, listAssignments, listSubmissions,
+  newAssignment, newQuestion, saveAssignment, saveSubmission, shareLink,
+} from './assignments';
+
+const chip = (active: boolean) => `flex-shrink-0 px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest transition-all border ${
+  active ? 'bg-teal-600 border-teal-500 text-white shadow-lg shadow-teal-600/20' : 'bg-slate-900 border-slate-800 text-slate-500'
+}`;
+
+const heading = 'text-[10px] font-black uppercase tracking-widest text-teal-400 mb-3';
+const field = 'w-full bg-slate-900 border border-slate-800 rounded-2xl px-4 py-3 text-sm text-slate-100 focus:ring-0 focus:border-teal-500/50 placeholder-slate-600';
+
+const formatDate = (ts: number) => new Date(ts).toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+
+type Screen =
+  | { name: 'list' }
+  | { name: 'edit'; assignment: Assignment }
+  | { name: 'share'; assignment: Assignment }
+  | { name: 'review'; assignment: Assignment; submission?: Submission };
+
+// Tutor-facing screens: write assignments, share them as a link or QR code,
+// and review the submission files students send back.
+export const TeacherView: React.FC<{
+  initialSubject: string;
+  lang: string;
+}> = ({ initialSubject, lang }) => {
+  const [screen, setScreen] = useState<Screen>({ name: 'list' });
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const t = useT();
+
+  const refresh = async () => {
+    const list = await listAssignments(true);
+    setAssignments(list);
+    const received = await Promise.all(list.map(a => listSubmissions(a.id).then(subs => subs.filter(s => s.received).length)));
+    setCounts(Object.fromEntries(list.map((a, i) => [a.id, received[i]])));
+  };
+
+  useEffect(() => {
+    if (screen.name === 'list') refresh().catch(err => console.error(err));
+  }, [screen.name]);
+
+  const handleImport = async (file?: File) => {
+    if (!file) return;
+    setImportError(null);
+    try {
+      const submission = await importSubmission(await file.text());
+      const own = assignments.find(a => a.id === submission.assignment.id);
+      setScreen({ name: 'review', assignment: own || submission.assignment, submission });
+    } catch (err) {
+      console.error(err);
+      setImportError(t('teacher.importFailed'));
+    }
+  };
+
+  const remove = async (a: Assignment) => {
+    if (!window.confirm(t('teacher.confirmDelete', { title: a.title || t('teacher.untitled') }))) return;
+    await deleteAssignment(a.id);
+    refresh().catch(err => console.error(err));
+  };
+
+  if (screen.name === 'edit') {
+    return (
+      <AssignmentEditor
+        initial={screen.assignment}
+        onCancel={() => setScreen({ name: 'list' })}
+        onSaved={a => setScreen({ name: 'share', assignment: a })}
+      />
+    );
+  }
+  if (screen.name === 'share') {
+    return <ShareAssignment assignment={screen.assignment} onDone={() => setScreen({ name: 'list' })} />;
+  }
+  if (screen.name === 'review') {
+    return (
+      <ReviewSubmissions
+        assignment={screen.assignment}
+        initial={screen.submission}
+        onBack={() => setScreen({ name: 'list' })}
+      />
+    );
+  }
+
+  return (
+    <div className="flex-1 overflow-y-auto no-scrollbar p-4 flex flex-col gap-4">
+      <div className="grid grid-cols-2 gap-3">
+        <button
+          onClick={() => setScreen({ name: 'edit', assignment: newAssignment(initialSubject, lang) })}
+          className="flex items-center justify-center gap-2 py-4 rounded-2xl bg-teal-600 text-white text-[10px] font-black uppercase tracking-widest btn-active shadow-lg shadow-teal-600/20"
+        >
+          <Icons.Plus className="h-4 w-4" /> {t('teacher.new')}
+        </button>
+        <button
+          onClick={() => fileRef.current?.click()}
+          className="flex items-center justify-center gap-2 py-4 rounded-2xl bg-slate-900 border border-slate-800 text-slate-300 text-[10px] font-black uppercase tracking-widest btn-active"
+        >
+          <Icons.Download className="h-4 w-4 rotate-180" /> {t('teacher.import')}
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={e => { handleImport(e.target.files?.[0]); e.target.value = ''; }}
+        />
+      </div>
+
+      {importError && (
+        <p className="flex items-center gap-2 text-xs text-red-300 bg-red-950/30 border border-red-500/30 rounded-2xl px-3 py-2">
+          <Icons.Alert className="h-4 w-4 flex-shrink-0" /> {importError}
+        </p>
+      )}
+
+      <section>
+        <h3 className={heading}>{t('teacher.yours')}</h3>
+        {assignments.length === 0 && (
+          <p className="text-center text-xs text-slate-600 mt-6">{t('teacher.empty')}</p>
+        )}
+        <div className="flex flex-col gap-2">
+          {assignments.map(a => (
+            <div key={a.id} className="p-4 rounded-2xl border border-slate-800 bg-slate-900">
+              <span dir="auto" className="block text-sm font-bold text-slate-100">{a.title || t('teacher.untitled')}</span>
+              <span className="block text-[10px] font-bold uppercase tracking-widest text-slate-500 mt-1.5">
+                {valueLabel(t, 'subject', a.subject)}{a.chapter ? ` · ${a.chapter}` : ''} · {t(a.questions.length === 1 ? 'teacher.questionOne' : 'teacher.questionCount', { count: a.questions.length })} · {formatDate(a.createdAt)}
+              </span>
+              <div className="flex gap-4 mt-3 text-[10px] font-black uppercase tracking-widest">
+                <button onClick={() => setScreen({ name: 'share', assignment: a })} className="text-teal-400 btn-active">{t('teacher.share')}</button>
+                <button onClick={() => setScreen({ name: 'review', assignment: a })} className="text-slate-300 btn-active">
+                  {t('teacher.submissions')}{counts[a.id] ? ` (${counts[a.id]})` : ''}
+                </button>
+                <button onClick={() => setScreen({ name: 'edit', assignment: a })} className="text-slate-400 btn-active">{t('teacher.edit')}</button>
+                <button onClick={() => remove(a)} className="text-slate-500 btn-active ms-auto"><Icons.Trash className="h-4 w-4" /></button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </section>
+    </div>
+  );
+};
+
+const AssignmentEditor: React.FC<{
+  initial: Assignment;
+  onCancel: () => void;
+  onSaved: (assignment: Assignment) => void;
+}> = ({ initial, onCancel, onSaved }) => {
+  const [draft, setDraft] = useState(initial);
+  const [curriculum, setCurriculum] = useState<Curriculum | null>(null);
+  const t = useT();
+
+  useEffect(() => {
+    loadCurriculum().then(setCurriculum).catch(() => setCurriculum(null));
+  }, []);
+
+  const chapters = curriculum ? findSubject(curriculum, draft.subject)?.chapters || [] : [];
+  const chapter = chapters.find(c => chapterLabel(c) === draft.chapter);
+  const exercises = chapter ? chapter.topics.flatMap(topic => topic.exercises) : [];
+  const questions = draft.questions;
+  const filled = questions.filter(q => q.prompt.trim());
+
+  const update = (patch: Partial<Assignment>) => setDraft(d => ({ ...d, ...patch }));
+  const updateQuestion = (id: string, patch: { prompt?: string; answerKey?: string }) =>
+    update({ questions: questions.map(q => (q.id === id ? { ...q, ...patch } : q)) });
+  // An exercise fills the first empty question, or is added at the end.
+  const addExercise = (text: string) => {
+    const empty = questions.find(q => !q.prompt.trim());
+    update({ questions: empty ? questions.map(q => (q === empty ? { ...q, prompt: text } : q)) : [...questions, newQuestion(text)] });
+  };
+
+  const save = async () => {
+    const subject = valueLabel(t, 'subject', draft.subject);
+    const clean = {
+      ...draft,
+      title: draft.title.trim() || (draft.chapter ? `${subject} · ${draft.chapter}` : t('teacher.defaultTitle', { subject })),
+      questions: filled.map(q => ({ ...q, prompt: q.prompt.trim(), answerKey: q.answerKey?.trim() || undefined })),
+    };
+    onSaved(await saveAssignment(clean));
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto no-scrollbar p-4 flex flex-col gap-6">
+      <section>
+        <h3 className={heading}>{t('teacher.title')}</h3>
+        <input dir="auto" value={draft.title} onChange={e => update({ title: e.target.value })} placeholder={t('teacher.titlePlaceholder')} className={field} />
+      </section>
+
+      <section>
+        <h3 className={heading}>{t('quiz.subject')}</h3>
+        <div className="flex gap-2 overflow-x-auto no-scrollbar py-1">
+          {SUBJECTS.map(s => (
+            <button key={s} onClick={() => update({ subject: s, chapter: undefined })} className={chip(draft.subject === s)}>{valueLabel(t, 'subject', s)}</button>
+          ))}
+        </div>
+      </section>
+
+      <section>
+        <h3 className={heading}>{t('quiz.chapter')}</h3>
+        <select value={draft.chapter || ''} onChange={e => update({ chapter: e.target.value || undefined })} className={field}>
+          <option value="">{t('quiz.wholeSyllabus')}</option>
+          {chapters.map(c => (
+            <option key={c.number} value={chapterLabel(c)}>{t('curriculum.chapterShort', { number: c.number })} · {c.title}</option>
+          ))}
+        </select>
+        {exercises.length > 0 && (
+          <div className="flex gap-2 overflow-x-auto no-scrollbar py-1 mt-3">
+            {exercises.map(x => (
+              <button key={x.id} onClick={() => addExercise(`${x.label}. ${x.question}`)} className={chip(false)} title={x.question}>
+                + {x.label}
+              </button>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section className="flex flex-col gap-3">
+        <h3 className={heading.replace(' mb-3', '')}>{t('quiz.questions')}</h3>
+        {questions.map((q, i) => (
+          <div key={q.id} className="p-4 rounded-2xl border border-slate-800 bg-slate-900 flex flex-col gap-2">
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">{t('teacher.questionN', { n: i + 1 })}</span>
+              {questions.length > 1 && (
+                <button onClick={() => update({ questions: questions.filter(x => x.id !== q.id) })} className="p-1 text-slate-500 btn-active" title={t('common.remove')}>
+                  <Icons.Close className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+            <textarea
+              dir="auto"
+              rows={2}
+              value={q.prompt}
+              onChange={e => updateQuestion(q.id, { prompt: e.target.value })}
+              placeholder={t('teacher.questionPlaceholder')}
+              className="bg-slate-800 rounded-xl border-none focus:ring-0 text-sm px-3 py-2 text-slate-100 placeholder-slate-600 resize-none"
+            />
+            <textarea
+              dir="auto"
+              rows={2}
+              value={q.answerKey || ''}
+              onChange={e => updateQuestion(q.id, { answerKey: e.target.value })}
+              placeholder={t('teacher.answerKeyPlaceholder')}
+              className="bg-slate-800/50 rounded-xl border-none focus:ring-0 text-xs px-3 py-2 text-slate-300 placeholder-slate-600 resize-none"
+            />
+          </div>
+        ))}
+        <button onClick={() => update({ questions: [...questions, newQuestion()] })} className="py-3 rounded-2xl border border-dashed border-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-400 btn-active">
+          + {t('teacher.addQuestion')}
+        </button>
+      </section>
+
+      <div className="flex gap-3 pb-4">
+        <button onClick={onCancel} className="flex-1 py-4 rounded-2xl bg-slate-900 border border-slate-800 text-slate-400 text-[10px] font-black uppercase tracking-widest btn-active">{t('teacher.cancel')}</button>
+        <button onClick={save} disabled={filled.length === 0} className="flex-1 py-4 rounded-2xl bg-teal-600 text-white text-[10px] font-black uppercase tracking-widest btn-active disabled:opacity-30">
+          {t('teacher.saveAndShare')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const ShareAssignment: React.FC<{
+  assignment: Assignment;
+  onDone: () => void;
+}> = ({ assignment, onDone }) => {
+  const [withKey, setWithKey] = useState(false);
+  const [link, setLink] = useState('');
+  const [qr, setQr] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const t = useT();
+  const hasKey = assignment.questions.some(q => q.answerKey);
+
+  useEffect(() => {
+    let live = true;
+    encodeAssignment(assignment, withKey).then(async payload => {
+      const url = shareLink(payload);
+      // Long assignments can exceed what a QR code holds; the link still works.
+      const svg = await QRCode.toString(url, { type: 'svg', errorCorrectionLevel: 'L', margin: 1 }).catch(() => null);
+      if (!live) return;
+      setLink(url);
+      setQr(svg);
+    }).catch(err => console.error(err));
+    return () => { live = false; };
+  }, [assignment, withKey]);
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(link);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto no-scrollbar p-4 flex flex-col gap-5 items-center">
+      <div className="text-center">
+        <h3 dir="auto" className="text-lg font-black text-slate-50">{assignment.title}</h3>
+        <p className="text-[10px] font-bold uppercase tracking-widest text-slate-500 mt-1">{valueLabel(t, 'subject', assignment.subject)} · {t(assignment.questions.length === 1 ? 'teacher.questionOne' : 'teacher.questionCount', { count: assignment.questions.length })}</p>
+      </div>
+
+      {qr ? (
+        <div className="w-64 h-64 bg-white rounded-3xl p-3 [&>svg]:w-full [&>svg]:h-full" dangerouslySetInnerHTML={{ __html: qr }} />
+      ) : link ? (
+        <p className="text-xs text-amber-300 text-center px-6">{t('teacher.tooLongForQr')}</p>
+      ) : null}
+
+      {hasKey && (
+        <label className="flex items-center gap-3 text-xs text-slate-300">
+          <input type="checkbox" checked={withKey} onChange={e => setWithKey(e.target.checked)} className="accent-teal-500" />
+          {t('teacher.includeKey')}
+        </label>
+      )}
+
+      <div className="w-full flex gap-2">
+        <input readOnly value={link} onFocus={e => e.target.select()} className="flex-1 min-w-0 bg-slate-900 border border-slate-800 rounded-2xl px-4 py-3 text-xs text-slate-400 focus:ring-0" />
+        <button onClick={copy} disabled={!link} className="px-4 rounded-2xl bg-teal-600 text-white text-[10px] font-black uppercase tracking-widest btn-active disabled:opacity-30">
+          {t(copied ? 'message.copied' : 'message.copy')}
+        </button>
+      </div>
+      {'share' in navigator && (
+        <button
+          onClick={() => navigator.share({ title: assignment.title, url: link }).catch(() => {})}
+          disabled={!link}
+          className="w-full py-3 rounded-2xl bg-slate-900 border border-slate-800 text-slate-300 text-[10px] font-black uppercase tracking-widest btn-active"
+        >
+          {t('teacher.shareLink')}
+        </button>
+      )}
+
+      <button onClick={onDone} className="text-[10px] font-black uppercase tracking-widest text-slate-500 btn-active py-2">{t('teacher.done')}</button>
+    </div>
+  );
+};
+
+const ReviewSubmissions: React.FC<{
+  assignment: Assignment;
+  initial?: Submission;
+  onBack: () => void;
+}> = ({ assignment, initial, onBack }) => {
+  const [submissions, setSubmissions] = useState<Submission[]>([]);
+  const [current, setCurrent] = useState<Submission | null>(initial || null);
+  const t = useT();
+
+  useEffect(() => {
+    listSubmissions(assignment.id)
+      .then(subs => setSubmissions(subs.filter(s => s.received).sort((a, b) => (b.submittedAt || 0) - (a.submittedAt || 0))))
+      .catch(err => console.error(err));
+  }, [assignment.id, current]);
+
+  const mark = (questionId: string, correct: boolean) => {
+    if (!current) return;
+    const updated = { ...current, answers: current.answers.map(a => (a.questionId === questionId ? { ...a, correct } : a)) };
+    setCurrent(updated);
+    saveSubmission(updated).catch(err => console.error(err));
+  };
+
+  if (!current) {
+    return (
+      <div className="flex-1 overflow-y-auto no-scrollbar p-4 flex flex-col gap-4">
+        <button onClick={onBack} className="self-start text-[10px] font-black uppercase tracking-widest text-slate-500 btn-active">‹ {t('teacher.assignments')}</button>
+        <h3 dir="auto" className="text-lg font-black text-slate-50">{assignment.title}</h3>
+        {submissions.length === 0 && (
+          <p className="text-center text-xs text-slate-600 mt-6">{t('teacher.noSubmissions')}</p>
+        )}
+        {submissions.map(s => {
+          const marked = s.answers.filter(a => a.correct !== undefined);
+          return (
+            <button key={s.id} onClick={() => setCurrent(s)} className="text-start p-4 rounded-2xl border border-slate-800 bg-slate-900 btn-active">
+              <span dir="auto" className="block text-sm font-bold text-slate-100">{s.student}</span>
+              <span className="block text-[10px] font-bold uppercase tracking-widest text-slate-500 mt-1.5">
+                {t('teacher.answered', { n: s.answers.length, total: assignment.questions.length })} · {formatDate(s.submittedAt || s.startedAt)}
+                {marked.length > 0 && ` · ${t('teacher.correctCount', { n: marked.filter(a => a.correct).length, total: marked.length })}`}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    );
+  }
+
+  // Prompts come from the tutor's own copy when it is on this device, since
+  // only that one has the answer key.
+  const questions = assignment.questions.length ? assignment.questions : current.assignment.questions;
+  const correct = current.answers.filter(a => a.correct).length;
+
+  return (
+    <div className="flex-1 overflow-y-auto no-scrollbar p-4 flex flex-col gap-4">
+      <button onClick={() => setCurrent(null)} className="self-start text-[10px] font-black uppercase tracking-widest text-slate-500 btn-active">‹ {t('teacher.submissions')}</button>
+      <div>
+        <h3 dir="auto" className="text-lg font-black text-slate-50">{current.student}</h3>
+        <p className="text-[10px] font-bold uppercase tracking-widest text-slate-500 mt-1">
+          {assignment.title} · {t('teacher.markedCorrect', { n: correct, total: questions.length })}
+        </p>
+      </div>
+
+      {questions.map((q, i) => {
+        const answer = current.answers.find(a => a.questionId === q.id);
+        return (
+          <section key={q.id} className="rounded-2xl border border-slate-800 bg-slate-900 overflow-hidden">
+            <p dir={detectDirection(q.prompt)} className="px-4 py-3 text-sm font-bold text-slate-100 border-b border-slate-800">
+              <span className="text-teal-400 me-2">{i + 1}.</span>{q.prompt}
+            </p>
+            <div className="grid grid-cols-2 divide-x divide-slate-800 rtl:divide-x-reverse">
+              <div className="p-4">
+                <h4 className="text-[9px] font-black uppercase tracking-widest text-slate-500 mb-2">{t('teacher.student')}</h4>
+                <p dir={detectDirection(answer?.text || '')} className="text-sm text-slate-200 whitespace-pre-wrap">
+                  {answer?.text || <span className="text-slate-600 italic">{t('teacher.noAnswer')}</span>}
+                </p>
+              </div>
+              <div className="p-4 bg-teal-950/20">
+                <h4 className="text-[9px] font-black uppercase tracking-widest text-teal-500 mb-2">{t('teacher.answerKey')}</h4>
+                <p dir={detectDirection(q.answerKey || '')} className="text-sm text-slate-300 whitespace-pre-wrap">
+                  {q.answerKey || <span className="text-slate-600 italic">{t('common.none')}</span>}
+                </p>
+              </div>
+            </div>
+            {answer && (
+              <div className="flex gap-2 px-4 py-3 border-t border-slate-800">
+                <button onClick={() => mark(q.id, true)} className={`flex-1 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest btn-active ${answer.correct === true ? 'bg-emerald-600 text-white' : 'bg-slate-800 text-slate-400'}`}>{t('drill.correct')}</button>
+                <button onClick={() => mark(q.id, false)} className={`flex-1 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest btn-active ${answer.correct === false ? 'bg-red-600 text-white' : 'bg-slate-800 text-slate-400'}`}>{t('teacher.needsWork')}</button>
+              </div>
+            )}
+          </section>
+        );
+      })}
+    </div>
+  );
+};
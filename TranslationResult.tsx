@@ -0,0 +1,84 @@
+import React, { useState, useEffect } from 'react';
+import { Icons } from './Icons';
+import { ReadAloud } from './ReadAloud';
+import { TranslatorResponse, WordBreakdown } from './types';
+import { detectDirection } from './bidi';
+import { deleteWord, listWords, saveWord, vocabId } from './vocabStore';
+import { useT, valueLabel } from './i18n';
+
+// A translation with its word-by-word breakdown. Any word can be saved to
+// the glossary for flashcard review.
+export const TranslationResult: React.FC<{
+  result: TranslatorResponse;
+  lang: string;
+  onOpenGlossary: () => void;
+}> = ({ result, lang, onOpenGlossary }) => {
+  const [saved, setSaved] = useState<Set<string>>(new Set());
+  const t = useT();
+  const idOf = (w: WordBreakdown) => vocabId(w, result.sourceLang, lang);
+
+  useEffect(() => {
+    listWords().then(words => setSaved(new Set(words.map(w => w.id)))).catch(err => console.error(err));
+  }, [result]);
+
+  const toggle = async (w: WordBreakdown) => {
+    const id = idOf(w);
+    if (saved.has(id)) await deleteWord(id);
+    else await saveWord(w, result.sourceLang, lang);
+    setSaved(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <div className="animate-in fade-in slide-in-from-bottom-2 duration-300 mb-8">
+      <div className="bg-slate-900 border border-slate-800 p-6 rounded-3xl shadow-2xl">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-[10px] font-black uppercase tracking-widest text-cyan-500">{t('translation.title')}</h3>
+          <span className="text-[9px] font-black uppercase tracking-widest text-amber-300 bg-amber-400/10 border border-amber-400/20 rounded-full px-2 py-0.5">
+            {valueLabel(t, 'lang', result.sourceLang)} → {valueLabel(t, 'lang', lang)}
+          </span>
+        </div>
+        <p dir={detectDirection(result.mainTranslation)} className="text-xl font-bold text-slate-50 leading-relaxed">{result.mainTranslation}</p>
+        {result.transliteration && <p dir="ltr" className="text-sm italic text-slate-400 mt-1">{result.transliteration}</p>}
+        <div className="mb-6"><ReadAloud text={result.mainTranslation} lang={lang} /></div>
+
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-[10px] font-black uppercase tracking-widest text-cyan-500">{t('translation.breakdown')}</h3>
+          <button onClick={onOpenGlossary} className="flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest text-amber-400 btn-active">
+            <Icons.Bookmark className="h-3.5 w-3.5" /> {t('translation.glossary')}
+          </button>
+        </div>
+        <div className="rounded-2xl border border-slate-800 divide-y divide-slate-800/50 bg-slate-900/50">
+          {result.wordByWord.map((w, i) => {
+            const isSaved = saved.has(idOf(w));
+            return (
+              <div key={i} className="p-3 flex items-start gap-3">
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap items-baseline gap-x-3 gap-y-1">
+                    <span dir={detectDirection(w.original)} className="font-bold text-slate-200">{w.original}</span>
+                    <span dir={detectDirection(w.translation)} className="font-bold text-cyan-400">{w.translation}</span>
+                    {w.partOfSpeech && (
+                      <span className="text-[8px] font-black uppercase tracking-widest text-slate-400 border border-slate-700 rounded px-1.5 py-0.5">{w.partOfSpeech}</span>
+                    )}
+                  </div>
+                  {w.transliteration && <p dir="ltr" className="text-xs italic text-slate-500 mt-1">{w.transliteration}</p>}
+                  {w.example && <p dir={detectDirection(w.example)} className="text-xs text-slate-400 mt-1.5">{w.example}</p>}
+                </div>
+                <button
+                  onClick={() => toggle(w).catch(err => console.error(err))}
+                  className={`p-1.5 btn-active ${isSaved ? 'text-amber-400' : 'text-slate-600'}`}
+                  title={t(isSaved ? 'translation.unsave' : 'translation.save')}
+                >
+                  <Icons.Bookmark className="h-4 w-4" fill={isSaved ? 'currentColor' : 'none'} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
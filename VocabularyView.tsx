@@ -0,0 +1,131 @@
+import React, { useState, useEffect } from 'react';
+import { Icons } from './Icons';
+import { ReadAloud } from './ReadAloud';
+import { VocabEntry } from './types';
+import { REVIEW_GRADES } from './srs';
+import { detectDirection } from './bidi';
+import { deleteWord, gradeWord, listDueWords, listWords } from './vocabStore';
+import { useT, valueLabel } from './i18n';
+
+const tab = (active: boolean) => `flex-1 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${
+  active ? 'bg-amber-600 text-white shadow-lg shadow-amber-600/20' : 'text-slate-500'
+}`;
+
+// Words saved from the translator: flashcards for the ones due today and the
+// full glossary.
+export const VocabularyView: React.FC = () => {
+  const [mode, setMode] = useState<'review' | 'list'>('review');
+  const [due, setDue] = useState<VocabEntry[]>([]);
+  const [words, setWords] = useState<VocabEntry[]>([]);
+  const [flipped, setFlipped] = useState(false);
+  const [reviewed, setReviewed] = useState(0);
+  const [query, setQuery] = useState('');
+  const t = useT();
+
+  useEffect(() => {
+    listDueWords().then(setDue).catch(err => console.error(err));
+    listWords().then(setWords).catch(err => console.error(err));
+  }, []);
+
+  const card = due[0];
+
+  const grade = async (quality: (typeof REVIEW_GRADES)[number]['quality']) => {
+    if (!card) return;
+    const updated = await gradeWord(card, quality);
+    // Forgotten words come back at the end of today's session.
+    setDue(d => (quality < 3 ? [...d.slice(1), updated] : d.slice(1)));
+    setWords(ws => ws.map(w => (w.id === updated.id ? updated : w)));
+    setReviewed(n => n + 1);
+    setFlipped(false);
+  };
+
+  const remove = async (id: string) => {
+    await deleteWord(id);
+    setWords(ws => ws.filter(w => w.id !== id));
+    setDue(d => d.filter(w => w.id !== id));
+  };
+
+  const q = query.trim().toLowerCase();
+  const shown = q ? words.filter(w => [w.original, w.translation, w.transliteration].some(s => s.toLowerCase().includes(q))) : words;
+
+  return (
+    <div className="flex-1 overflow-y-auto no-scrollbar p-4 flex flex-col gap-5">
+      <div className="flex gap-1 bg-slate-900 border border-slate-800 rounded-2xl p-1">
+        <button onClick={() => setMode('review')} className={tab(mode === 'review')}>{t('progress.review')}{due.length ? ` · ${due.length}` : ''}</button>
+        <button onClick={() => setMode('list')} className={tab(mode === 'list')}>{t('translation.glossary')} · {words.length}</button>
+      </div>
+
+      {mode === 'review' && (card ? (
+        <>
+          <button
+            onClick={() => setFlipped(f => !f)}
+            className="min-h-[260px] rounded-3xl border border-amber-500/20 bg-amber-600/10 p-6 flex flex-col items-center justify-center gap-3 text-center btn-active"
+          >
+            <span className="text-[9px] font-black uppercase tracking-widest text-amber-400">{valueLabel(t, 'lang', card.sourceLang)} → {valueLabel(t, 'lang', card.targetLang)}</span>
+            <span dir={detectDirection(card.original)} className="text-3xl font-black text-slate-50">{card.original}</span>
+            {flipped ? (
+              <>
+                <span dir={detectDirection(card.translation)} className="text-xl font-bold text-cyan-400">{card.translation}</span>
+                {card.transliteration && <span dir="ltr" className="text-sm italic text-slate-400">{card.transliteration}</span>}
+                {card.partOfSpeech && <span className="text-[9px] font-black uppercase tracking-widest text-slate-400 border border-slate-700 rounded px-1.5 py-0.5">{card.partOfSpeech}</span>}
+                {card.example && <span dir={detectDirection(card.example)} className="text-sm text-slate-300 mt-2">{card.example}</span>}
+              </>
+            ) : (
+              <span className="text-[10px] font-bold uppercase tracking-widest text-slate-500 mt-4">{t('vocab.tapToShow')}</span>
+            )}
+          </button>
+          {flipped && (
+            <>
+              <ReadAloud text={card.original} lang={card.sourceLang} />
+              <div className="grid grid-cols-4 gap-2">
+                {REVIEW_GRADES.map(g => (
+                  <button key={g.label} onClick={() => grade(g.quality).catch(err => console.error(err))} className="py-3 rounded-2xl bg-slate-900 border border-slate-800 text-[10px] font-black uppercase tracking-widest text-slate-200 btn-active">
+                    {t(g.label)}
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+        </>
+      ) : (
+        <p className="text-center text-xs text-slate-600 mt-10">
+          {reviewed
+            ? t(reviewed === 1 ? 'vocab.doneOne' : 'vocab.doneMany', { count: reviewed })
+            : t(words.length ? 'vocab.noneDue' : 'vocab.empty')}
+        </p>
+      ))}
+
+      {mode === 'list' && (
+        <>
+          <div className="flex items-center gap-2 bg-slate-900 px-3 rounded-2xl border border-slate-800">
+            <Icons.Search className="h-4 w-4 text-slate-500" />
+            <input
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              placeholder={t('vocab.search')}
+              className="flex-1 bg-transparent border-none focus:ring-0 text-sm py-3 placeholder-slate-600 text-slate-100"
+            />
+          </div>
+          <div className="flex flex-col gap-2">
+            {shown.map(w => (
+              <div key={w.id} className="p-4 rounded-2xl border border-slate-800 bg-slate-900 flex items-start gap-3">
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap items-baseline gap-x-3 gap-y-1">
+                    <span dir={detectDirection(w.original)} className="font-bold text-slate-100">{w.original}</span>
+                    <span dir={detectDirection(w.translation)} className="font-bold text-cyan-400">{w.translation}</span>
+                    {w.partOfSpeech && <span className="text-[8px] font-black uppercase tracking-widest text-slate-400 border border-slate-700 rounded px-1.5 py-0.5">{w.partOfSpeech}</span>}
+                  </div>
+                  {w.transliteration && <p dir="ltr" className="text-xs italic text-slate-500 mt-1">{w.transliteration}</p>}
+                  {w.example && <p dir={detectDirection(w.example)} className="text-xs text-slate-400 mt-1.5">{w.example}</p>}
+                </div>
+                <button onClick={() => remove(w.id).catch(err => console.error(err))} className="p-1.5 text-slate-500 btn-active" title={t('common.remove')}>
+                  <Icons.Trash className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { decodeAssignment, encodeAssignment } from './assignments';
+import { Assignment } from './types';
+
+const assignment: Assignment = {
+  id: 'abc123',
+  title: 'Motion',
+  subject: 'Physics',
+  chapter: 'Kinematics',
+  lang: 'Urdu',
+  questions: [
+    { id: 'q1', prompt: 'Define velocity.', answerKey: 'Rate of change of displacement.' },
+    { id: 'q2', prompt: 'State Newton’s first law.' },
+  ],
+  createdAt: 1_700_000_000_000,
+};
+
+const link = (tuple: unknown) => `j${Buffer.from(JSON.stringify(tuple)).toString('base64url')}`;
+const DAMAGED = /damaged or incomplete/;
+
+describe('share links', () => {
+  it('round-trips an assignment with its answer key', async () => {
+    const payload = await encodeAssignment(assignment, true);
+    expect(payload[0]).toBe('z');
+    expect(await decodeAssignment(payload)).toEqual(assignment);
+  });
+
+  it('leaves the answer key out when asked', async () => {
+    const decoded = await decodeAssignment(await encodeAssignment(assignment, false));
+    expect(decoded.questions.map(q => q.answerKey)).toEqual([undefined, undefined]);
+  });
+
+  it('reads uncompressed links', async () => {
+    const payload = link([1, 'id1', 'Title', 'Math', '', 'English', [['q1', 'What is 2 + 2?']], 5]);
+    expect(await decodeAssignment(payload)).toEqual({
+      id: 'id1', title: 'Title', subject: 'Math', chapter: undefined, lang: 'English',
+      questions: [{ id: 'q1', prompt: 'What is 2 + 2?', answerKey: undefined }], createdAt: 5,
+    });
+  });
+
+  it('rejects links that are not valid payloads', async () => {
+    await expect(decodeAssignment('')).rejects.toThrow(DAMAGED);
+    await expect(decodeAssignment('z!!!')).rejects.toThrow(DAMAGED);
+    await expect(decodeAssignment(`j${Buffer.from('{').toString('base64url')}`)).rejects.toThrow(DAMAGED);
+    await expect(decodeAssignment(link({ id: 'x' }))).rejects.toThrow(DAMAGED);
+  });
+
+  it('rejects payloads with a wrong field', async () => {
+    const good = [1, 'id1', 'Title', 'Math', '', 'English', [['q1', 'Prompt']], 5];
+    const broken = [
+      [2, ...good.slice(1)],
+      [1, '', ...good.slice(2)],
+      [1, 'id1', 42, ...good.slice(3)],
+      [...good.slice(0, 6), 'not a list', 5],
+      [...good.slice(0, 6), [['q1', { html: '<b>' }]], 5],
+      [...good.slice(0, 6), [['q1']], 5],
+      [...good.slice(0, 7), 'yesterday'],
+      good.slice(0, 7),
+    ];
+    for (const tuple of broken) await expect(decodeAssignment(link(tuple))).rejects.toThrow(DAMAGED);
+  });
+});
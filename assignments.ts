@@ -0,0 +1,201 @@
+import { STORES, withStore } from './db';
+import { Assignment, AssignmentQuestion, Submission, SubmissionAnswer } from './types';
+import { isRecord, list } from './guards';
+
+// Teacher-mode assignments. The whole assignment is packed into the share
+// link (deflated JSON in the URL hash), so a tutor can send it over WhatsApp
+// or as a QR code and students open it without any server. Students send
+// their answers back as a submission file.
+
+const PAYLOAD_VERSION = 1;
+const SHARE_PARAM = 'assignment';
+const SUBMISSION_FORMAT = 'signify-submission';
+
+const shortId = () => Math.random().toString(36).slice(2, 8);
+
+export function newAssignment(subject: string, lang: string): Assignment {
+  return { id: `${Date.now().toString(36)}${shortId()}`, title: '', subject, lang, questions: [newQuestion()], createdAt: Date.now(), authored: true };
+}
+
+export const newQuestion = (prompt = ''): AssignmentQuestion => ({ id: shortId(), prompt });
+
+// ---- Storage ----
+
+export async function saveAssignment(assignment: Assignment): Promise<Assignment> {
+  await withStore(STORES.assignments, 'readwrite', s => s.put(assignment));
+  return assignment;
+}
+
+export function getAssignment(id: string) {
+  return withStore<Assignment | undefined>(STORES.assignments, 'readonly', s => s.get(id));
+}
+
+// Newest first; `authored` picks the tutor's own or the ones received.
+export async function listAssignments(authored: boolean): Promise<Assignment[]> {
+  const all = await withStore<Assignment[]>(STORES.assignments, 'readonly', s => s.getAll());
+  return all.filter(a => !!a.authored === authored).sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function deleteAssignment(id: string): Promise<void> {
+  const submissions = await listSubmissions(id);
+  await Promise.all(submissions.map(sub => withStore(STORES.submissions, 'readwrite', s => s.delete(sub.id))));
+  await withStore(STORES.assignments, 'readwrite', s => s.delete(id));
+}
+
+export function listSubmissions(assignmentId: string) {
+  return withStore<Submission[]>(STORES.submissions, 'readonly', s => s.index('assignmentId').getAll(assignmentId));
+}
+
+export async function saveSubmission(submission: Submission): Promise<Submission> {
+  await withStore(STORES.submissions, 'readwrite', s => s.put(submission));
+  return submission;
+}
+
+const draftId = (assignmentId: string) => `draft-${assignmentId}`;
+
+// The student's own answers on this device, started on first open.
+export async function draftFor(assignment: Assignment): Promise<Submission> {
+  const existing = await withStore<Submission | undefined>(STORES.submissions, 'readonly', s => s.get(draftId(assignment.id)));
+  return existing || { id: draftId(assignment.id), assignment, student: '', answers: [], startedAt: Date.now() };
+}
+
+// ---- Share links ----
+
+type QuestionTuple = [id: string, prompt: string, answerKey?: string];
+type PayloadTuple = [version: number, id: string, title: string, subject: string, chapter: string, lang: string, questions: QuestionTuple[], createdAt: number];
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(Array.from(bytes, b => String.fromCharCode(b)).join('')).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), c => c.charCodeAt(0));
+
+async function pipe(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const out = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(out).arrayBuffer());
+}
+
+// Positional arrays and deflate keep a ten-question assignment small enough
+// for a QR code. The first character says whether the rest is compressed,
+// for browsers without CompressionStream.
+export async function encodeAssignment(assignment: Assignment, withKey: boolean): Promise<string> {
+  const tuple: PayloadTuple = [
+    PAYLOAD_VERSION,
+    assignment.id,
+    assignment.title,
+    assignment.subject,
+    assignment.chapter || '',
+    assignment.lang,
+    assignment.questions.map(q => (withKey && q.answerKey ? [q.id, q.prompt, q.answerKey] : [q.id, q.prompt])),
+    assignment.createdAt,
+  ];
+  const bytes = new TextEncoder().encode(JSON.stringify(tuple));
+  if (typeof CompressionStream === 'undefined') return `j${toBase64Url(bytes)}`;
+  return `z${toBase64Url(await pipe(bytes, new CompressionStream('deflate-raw')))}`;
+}
+
+const isString = (v: unknown): v is string => typeof v === 'string';
+
+function isQuestionTuple(v: unknown): v is QuestionTuple {
+  return Array.isArray(v) && (v.length === 2 || v.length === 3)
+    && isString(v[0]) && isString(v[1]) && (v[2] === undefined || isString(v[2]));
+}
+
+// A link can be edited by hand, so every field is checked before anything is
+// saved; one wrong type rejects the whole link.
+function isPayloadTuple(v: unknown): v is PayloadTuple {
+  if (!Array.isArray(v) || v.length !== 8) return false;
+  const [version, id, title, subject, chapter, lang, questions, createdAt] = v;
+  return version === PAYLOAD_VERSION && isString(id) && id !== '' && isString(title) && isString(subject)
+    && isString(chapter) && isString(lang) && Array.isArray(questions) && questions.every(isQuestionTuple)
+    && typeof createdAt === 'number' && Number.isFinite(createdAt);
+}
+
+export async function decodeAssignment(payload: string): Promise<Assignment> {
+  try {
+    const body = fromBase64Url(payload.slice(1));
+    const bytes = payload[0] === 'z' ? await pipe(body, new DecompressionStream('deflate-raw')) : body;
+    const data: unknown = JSON.parse(new TextDecoder().decode(bytes));
+    if (!isPayloadTuple(data)) throw new Error('bad payload');
+    const [, id, title, subject, chapter, lang, questions, createdAt] = data;
+    return {
+      id,
+      title,
+      subject,
+      chapter: chapter || undefined,
+      lang,
+      questions: questions.map(([qid, prompt, answerKey]) => ({ id: qid, prompt, answerKey })),
+      createdAt,
+    };
+  } catch {
+    throw new Error('This assignment link is damaged or incomplete. Ask your tutor to send it again.');
+  }
+}
+
+export const shareLink = (payload: string) =>
+  `${location.origin}${location.pathname}#${SHARE_PARAM}=${payload}`;
+
+// The payload from a share link the app was opened with, if any.
+export function readShareHash(hash = location.hash): string | null {
+  const match = new RegExp(`^#${SHARE_PARAM}=([\\w-]+)$`).exec(hash);
+  return match ? match[1] : null;
+}
+
+// Saves an assignment opened from a link. A tutor opening their own link
+// keeps the authored copy with its answer key.
+export async function receiveAssignment(payload: string): Promise<Assignment> {
+  const assignment = await decodeAssignment(payload);
+  const existing = await getAssignment(assignment.id);
+  return existing || saveAssignment(assignment);
+}
+
+// ---- Submission files ----
+
+export function submissionToJson(submission: Submission): string {
+  const { assignment, student, answers, startedAt, submittedAt } = submission;
+  const withoutKey = { ...assignment, authored: undefined, questions: assignment.questions.map(({ id, prompt }) => ({ id, prompt })) };
+  return JSON.stringify({ format: SUBMISSION_FORMAT, version: PAYLOAD_VERSION, assignment: withoutKey, student, answers, startedAt, submittedAt }, null, 2);
+}
+
+// Stores a student's file for review. Importing the same file twice replaces
+// the earlier copy instead of adding a duplicate.
+export async function importSubmission(json: string): Promise<Submission> {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('This file is not a SigNify submission.');
+  }
+  const a = isRecord(data) ? data.assignment : undefined;
+  if (!isRecord(data) || data.format !== SUBMISSION_FORMAT || !isRecord(a) || typeof a.id !== 'string' || !Array.isArray(a.questions) || !Array.isArray(data.answers)) {
+    throw new Error('This file is not a SigNify submission.');
+  }
+  const text = (v: unknown) => (typeof v === 'string' ? v : '');
+  const student = text(data.student).trim() || 'Unnamed student';
+  const submittedAt = typeof data.submittedAt === 'number' ? data.submittedAt : Date.now();
+  // Files carry the questions without their answer keys (see submissionToJson).
+  const assignment: Assignment = {
+    id: a.id,
+    title: text(a.title),
+    subject: text(a.subject),
+    chapter: text(a.chapter) || undefined,
+    lang: text(a.lang),
+    questions: list(a.questions).flatMap(q => isRecord(q) && typeof q.id === 'string' && typeof q.prompt === 'string' ? [{ id: q.id, prompt: q.prompt }] : []),
+    createdAt: typeof a.createdAt === 'number' ? a.createdAt : submittedAt,
+  };
+  const answers: SubmissionAnswer[] = list(data.answers).flatMap(x => isRecord(x) && typeof x.questionId === 'string' && typeof x.text === 'string'
+    ? [{ questionId: x.questionId, text: x.text, at: typeof x.at === 'number' ? x.at : submittedAt }]
+    : []);
+  return saveSubmission({
+    id: `${a.id}:${student}:${submittedAt}`,
+    assignment,
+    student,
+    answers,
+    startedAt: typeof data.startedAt === 'number' ? data.startedAt : submittedAt,
+    submittedAt,
+    received: true,
+  });
+}
+
+export const submissionFileName = (submission: Submission) =>
+  `signify-submission-${(submission.student || 'student').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-')}-${submission.assignment.id}.json`;
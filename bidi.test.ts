@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { detectDirection } from './bidi';
+
+describe('detectDirection', () => {
+  it('reads Urdu and Sindhi prose right to left', () => {
+    expect(detectDirection('روشنی کی رفتار بہت تیز ہے')).toBe('rtl');
+    expect(detectDirection('سنڌي ٻولي')).toBe('rtl');
+  });
+
+  it('keeps English left to right', () => {
+    expect(detectDirection('Light travels fast')).toBe('ltr');
+    expect(detectDirection('')).toBe('ltr');
+  });
+
+  it('stays right to left when Urdu prose quotes English terms', () => {
+    expect(detectDirection('نیوٹن کا دوسرا قانون Force اور acceleration کا تعلق بتاتا ہے')).toBe('rtl');
+  });
+
+  it('does not count code or math', () => {
+    expect(detectDirection('یہ فارمولا ہے `const velocity = distance / time` اور $F = ma$')).toBe('rtl');
+    expect(detectDirection('Run ```\nپرنٹ\n``` now')).toBe('ltr');
+  });
+});
@@ -0,0 +1,70 @@
+// Script detection and bidi fixes for Urdu and Sindhi text. Answers mix
+// Arabic-script prose with English terms, formulas and code; left to the
+// browser's defaults those Latin runs reorder their neighbours, so "F = ma"
+// can come out as "ma = F".
+
+export type Direction = 'ltr' | 'rtl';
+
+// Arabic, Arabic Supplement/Extended-A and the presentation forms, which
+// together cover Urdu and Sindhi letters.
+const RTL_CHARS = /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF]/g;
+const LTR_CHARS = /[A-Za-z\u00C0-\u024F]/g;
+// Share of strong letters that must be Arabic-script for the text to read
+// right to left. Below a half, because English terms inflate the Latin count.
+const RTL_THRESHOLD = 0.4;
+
+// Code and math are written left to right whatever the surrounding language,
+// so they do not vote.
+const stripNonProse = (text: string) =>
+  text.replace(/```[\s\S]*?```/g, ' ').replace(/`[^`]*`/g, ' ').replace(/\$\$[\s\S]*?\$\$|\$[^$\n]*\$/g, ' ');
+
+export function detectDirection(text: string): Direction {
+  const prose = stripNonProse(text);
+  const rtl = (prose.match(RTL_CHARS) || []).length;
+  const ltr = (prose.match(LTR_CHARS) || []).length;
+  return rtl > 0 && rtl / (rtl + ltr) >= RTL_THRESHOLD ? 'rtl' : 'ltr';
+}
+
+// A left-to-right run inside RTL prose: starts with a Latin letter or digit
+// and continues through Latin, digits, operators and the spaces between them,
+// e.g. "F = ma", "H2O", "v = u + at", "x² + 2x".
+const LTR_RUN = /[A-Za-z0-9][A-Za-z0-9\u00B2\u00B3\u00B9\u2070-\u209F\s=+\-*/^().,:;%<>\u2264\u2265\u2248\u00B1\u00D7\u00F7\u221A\u2206\u00B0'_]*[A-Za-z0-9\u00B2\u00B3\u00B9\u2070-\u209F)%\u00B0]|[A-Za-z0-9]/g;
+const SKIP_TAGS = new Set(['CODE', 'PRE', 'KBD', 'BDI', 'SCRIPT', 'STYLE']);
+
+// Wraps each Latin run of rendered RTL content in <bdi dir="ltr"> so it keeps
+// its own order, and pins code blocks to LTR. Call it only on RTL content;
+// existing <bdi> wrappers are skipped, so calling it again is harmless.
+export function isolateLtrRuns(root: HTMLElement) {
+  root.querySelectorAll('pre, code, kbd').forEach(el => el.setAttribute('dir', 'ltr'));
+
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+    acceptNode: node => {
+      for (let el = node.parentElement; el && el !== root; el = el.parentElement) {
+        if (SKIP_TAGS.has(el.tagName) || el.classList.contains('katex')) return NodeFilter.FILTER_REJECT;
+      }
+      return NodeFilter.FILTER_ACCEPT;
+    },
+  });
+  const nodes: Text[] = [];
+  while (walker.nextNode()) nodes.push(walker.currentNode as Text);
+
+  for (const node of nodes) {
+    const text = node.data;
+    const matches = [...text.matchAll(LTR_RUN)];
+    if (matches.length === 0) continue;
+
+    const frag = document.createDocumentFragment();
+    let last = 0;
+    for (const m of matches) {
+      const start = m.index!;
+      if (start > last) frag.append(text.slice(last, start));
+      const bdi = document.createElement('bdi');
+      bdi.dir = 'ltr';
+      bdi.textContent = m[0];
+      frag.append(bdi);
+      last = start + m[0].length;
+    }
+    if (last < text.length) frag.append(text.slice(last));
+    node.replaceWith(frag);
+  }
+}
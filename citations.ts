@@ -0,0 +1,103 @@
+import { Citation, Message, Source, SourcePolicy, SourceTrust } from './types';
+import { StreamChunk } from './providers';
+
+// Grounding sources for answers: which domains count as trustworthy, and the
+// numbered citation marks that tie a sentence to the sources behind it.
+
+// Accepts what a student pastes ("https://www.stbb.edu.pk/books") and keeps
+// the bare domain; returns '' for anything that is not one.
+export function normaliseDomain(input: string): string {
+  const host = input.trim().toLowerCase().replace(/^[a-z]+:\/\//, '').split(/[/?#:]/)[0].replace(/^www\./, '');
+  return /^[\p{L}\p{N}-]+(\.[\p{L}\p{N}-]+)+$/u.test(host) ? host : '';
+}
+
+// Gemini links grounding results through a redirect URL and puts the site's
+// domain in the title, so the title is preferred when it looks like one.
+export function sourceDomain(source: Source): string {
+  const fromTitle = normaliseDomain(source.title);
+  if (fromTitle && !/\s/.test(source.title.trim())) return fromTitle;
+  try {
+    return new URL(source.uri).hostname.replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+const covers = (domain: string, entry: string) => domain === entry || domain.endsWith(`.${entry}`);
+
+// A denied domain wins over an allowed parent, so "gov.pk" can be trusted
+// while one of its subdomains is not.
+export function sourceTrust(source: Source, policy: SourcePolicy): SourceTrust {
+  const domain = sourceDomain(source);
+  if (!domain) return 'unverified';
+  if (policy.deny.some(d => covers(domain, d))) return 'untrusted';
+  if (policy.allow.some(d => covers(domain, d))) return 'trusted';
+  return 'unverified';
+}
+
+// Added to grounded system prompts. Search grounding has no domain filter,
+// so the preference is stated to the model and enforced by flagging.
+export function sourcePolicyPrompt(policy: SourcePolicy): string {
+  const lines: string[] = [];
+  if (policy.allow.length) lines.push(`When searching, prefer these sites: ${policy.allow.join(', ')}.`);
+  if (policy.deny.length) lines.push(`Do not rely on these sites: ${policy.deny.join(', ')}.`);
+  return lines.join('\n  ');
+}
+
+type Reply = Pick<Message, 'text' | 'sources' | 'citations' | 'promptVersion'>;
+
+// Folds one streamed chunk into the reply so far: text is appended, sources
+// are kept once per URL and citations once per position.
+export function appendChunk(reply: Reply, chunk: StreamChunk): Reply {
+  const sources = [...(reply.sources || []), ...chunk.sources].filter((v, i, a) => a.findIndex(t => t.uri === v.uri) === i);
+  const citations = [...(reply.citations || []), ...(chunk.citations || [])]
+    .filter((c, i, a) => a.findIndex(o => o.end === c.end && o.uris.join() === c.uris.join()) === i);
+  return { text: reply.text + chunk.text, sources, citations, promptVersion: chunk.promptVersion ?? reply.promptVersion };
+}
+
+const isWordChar = (ch: string | undefined) => !!ch && /[\p{L}\p{N}]/u.test(ch);
+
+// Marks must not land inside code or math, where they would be shown as text
+// or break the formula.
+function insideCodeOrMath(text: string, at: number): boolean {
+  const before = text.slice(0, at);
+  if ((before.match(/^\s*```/gm) || []).length % 2) return true;
+  if ((before.match(/\$\$/g) || []).length % 2) return true;
+  const line = before.slice(before.lastIndexOf('\n') + 1).replace(/\\\$|\$\$/g, '');
+  return (line.match(/\$/g) || []).length % 2 === 1;
+}
+
+// Inserts superscript citation numbers into the markdown. `numberOf` gives the
+// number shown for a source URL (0 to leave it out) and `isFlagged` marks
+// sources from untrusted domains.
+export function withCitationMarks(
+  text: string,
+  citations: Citation[] | undefined,
+  numberOf: (uri: string) => number,
+  isFlagged: (uri: string) => boolean = () => false
+): string {
+  if (!citations?.length) return text;
+  const marks = new Map<number, Set<string>>();
+  for (const c of citations) {
+    let end = Math.min(c.end, text.length);
+    while (end < text.length && isWordChar(text[end - 1]) && isWordChar(text[end])) end++;
+    while (end > 0 && /\s/.test(text[end - 1])) end--;
+    if (end <= 0 || insideCodeOrMath(text, end)) continue;
+    const uris = marks.get(end) || new Set<string>();
+    c.uris.forEach(u => uris.add(u));
+    marks.set(end, uris);
+  }
+
+  let out = text;
+  [...marks.entries()].sort((a, b) => b[0] - a[0]).forEach(([end, uris]) => {
+    const html = [...uris]
+      .map(uri => ({ n: numberOf(uri), flagged: isFlagged(uri) }))
+      .filter(m => m.n > 0)
+      .sort((a, b) => a.n - b.n)
+      .filter((m, i, a) => a.findIndex(o => o.n === m.n) === i)
+      .map(m => `<sup class="cite${m.flagged ? ' cite-flagged' : ''}" data-cite="${m.n}">${m.n}</sup>`)
+      .join('');
+    out = out.slice(0, end) + html + out.slice(end);
+  });
+  return out;
+}
@@ -1,2 +1,157 @@
-// This file is reserved for application-wide constants.
-// For now, model definitions are co-located with their service functions for clarity.
+import { TutorSettings } from './types';
+
+// Application-wide constants and the prompt registry: every system prompt the
+// chat and translation modes send, in one place and versioned.
+
+// Class 10 subjects, named as in public/curriculum.json.
+export const SUBJECTS = ['Physics', 'Chemistry', 'Math', 'Bio', 'English', 'Urdu', 'Sindhi'];
+
+// Languages answers can be given in.
+export const ANSWER_LANGUAGES = ['English', 'Urdu', 'Sindhi'];
+
+// The class the curriculum and prompts are written for.
+export const GRADE = 'Class 10';
+
+// Sources preferred for grounded answers: the textbook board and government
+// and education sites. Homework-answer sites are flagged, since their answers
+// are user-written and often wrong for the Sindh syllabus.
+export const DEFAULT_SOURCE_POLICY = {
+  allow: ['stbb.edu.pk', 'gov.pk', 'edu.pk'],
+  deny: ['brainly.com', 'brainly.in', 'answers.com', 'quora.com', 'chegg.com', 'coursehero.com'],
+};
+
+export const DEFAULT_TUTOR_SETTINGS: TutorSettings = {
+  tone: 'friendly',
+  languageMix: 'terms',
+  scope: 'syllabus',
+};
+
+export type PromptMode = 'qa' | 'books' | 'practical' | 'grammar' | 'translate' | 'translate-sentences' | 'quiz' | 'drills' | 'grade-drill' | 'transcribe';
+
+export interface PromptVars {
+  subject: string;
+  lang: string;
+  grade: string;
+  tutor: TutorSettings;
+}
+
+// Bump `version` whenever a template's wording changes, so replies can be
+// traced back to the prompt that produced them (Message.promptVersion).
+interface PromptTemplate {
+  version: number;
+  // Whether the tutor's tone, language and scope settings are appended. Not
+  // for translation, drill exercises (their language is set by the drill) or
+  // transcription, which must stay word for word.
+  tutored: boolean;
+  render: (v: PromptVars) => string;
+}
+
+const PERSONA = 'You are SigNify AI';
+const BOARD = 'Sindh Textbook Board (Jamshoro)';
+
+export const PROMPTS: Record<PromptMode, PromptTemplate> = {
+  qa: {
+    version: 1,
+    tutored: true,
+    render: v => `${PERSONA}, an expert tutor for ${v.grade} ${BOARD} students.
+  Subject: ${v.subject}.
+  Provide accurate, teacher-like responses with markdown formatting.
+  If the student sends a photo of a textbook page or handwritten working, read it carefully, restate the question, and point out any mistakes in their steps.`,
+  },
+  books: {
+    version: 1,
+    tutored: true,
+    render: v => `${PERSONA}, the textbook assistant for ${v.grade} ${BOARD} students.
+  Provide summaries and solved exercise answers for ${v.grade} ${v.subject}, following the official textbook content.
+  A photo of a textbook page identifies the exercise to solve.`,
+  },
+  practical: {
+    version: 1,
+    tutored: true,
+    render: v => `${PERSONA}, the practical learning tutor for ${v.grade} ${BOARD} students.
+  Subject: ${v.subject}.
+  Explain the concept step by step in simple words, built around a diagram or model: describe what it shows part by part, with its labels, so the student can draw it in their copy.
+  If the concept has an experiment, give the apparatus, method, observation and result.
+  If the student sends a photo of a diagram, identify it and explain each labelled part.`,
+  },
+  grammar: {
+    version: 1,
+    tutored: true,
+    render: v => `${PERSONA}, a grammar expert for ${v.grade} ${BOARD} students.
+  Explain rules for English, Urdu, or Sindhi grammar as requested.
+  Use tables and clear examples in your response.`,
+  },
+  translate: {
+    version: 1,
+    tutored: false,
+    render: v => `${PERSONA}, an educational translator for ${v.grade} students. Return JSON only.
+  sourceLang: the language of the input (English, Urdu, Sindhi or another language name).
+  transliteration: the sentence in Urdu or Sindhi script (input or translation) written in Roman letters, as Pakistani students spell it; empty if neither is.
+  wordByWord: every meaningful word or short phrase, with its transliteration, part of speech in English (noun, verb, adjective...) and a short example sentence in the source language.`,
+  },
+  'translate-sentences': {
+    version: 1,
+    tutored: false,
+    render: v => `${PERSONA}, an educational translator for ${v.grade} students. The sentences are consecutive parts of one document; use the surrounding sentences for context.
+  Return exactly one translation per sentence, in the same order, without merging or splitting sentences. Return JSON only.`,
+  },
+  quiz: {
+    version: 1,
+    tutored: true,
+    render: v => `${PERSONA}, setting ${v.grade} ${BOARD} exam papers. Write questions in the style of the board exam.
+  MCQs have exactly four options and "answer" is the exact text of the correct option.
+  Fill-in-the-blank prompts mark the gap with "_____" and "answer" is the missing word or phrase.
+  Short questions list 2–5 "keywords" a full-marks answer must mention.
+  Every question has a one or two sentence explanation. Return JSON only.`,
+  },
+  drills: {
+    version: 1,
+    tutored: false,
+    render: v => `${PERSONA}, setting grammar exercises for ${v.grade} ${BOARD} students in the style of the board exam.
+  "answer" is the expected sentence. "rubric" lists 2–4 short points a correct answer must get right, each naming the exact words or inflections involved, e.g. "had + past participle: had finished" or "pronoun I → he".
+  Use a different sentence for every exercise. Return JSON only.`,
+  },
+  'grade-drill': {
+    version: 1,
+    tutored: true,
+    render: v => `${PERSONA}, marking grammar exercises for ${v.grade} ${BOARD} students. Accept any answer that follows the instruction and is grammatically correct, even if it differs from the model answer.
+  "met" has one true/false per rubric point, in order.
+  "mistakes" lists each wrong word or inflection: "wrong" exactly as the student wrote it (empty if a word is missing), "correct" what it should be, and "note" the rule in a few words, e.g. "past participle after had". Spelling mistakes count.
+  "corrected" is the student's answer with only the mistakes fixed, in the language of the exercise. "explanation" is one or two simple sentences; the language instructions below apply to it and to "note" only. Return JSON only.`,
+  },
+  transcribe: {
+    version: 1,
+    tutored: false,
+    render: v => `${PERSONA}, transcribing spoken questions from ${v.grade} students in Sindh. Students mix English, Urdu and Sindhi; keep subject terms such as "velocity" or "photosynthesis" as spoken.
+  Return only what was said, without answering it. If nothing intelligible was said, return an empty string. Return JSON only.`,
+  },
+};
+
+const TONES: Record<TutorSettings['tone'], string> = {
+  friendly: 'Be warm and encouraging, like a patient teacher.',
+  formal: 'Keep a formal, exam-focused tone.',
+  concise: 'Be brief: short steps, no introductions or padding.',
+};
+
+const LANGUAGE_MIXES: Record<TutorSettings['languageMix'], (lang: string) => string> = {
+  pure: lang => `Answer entirely in ${lang}.`,
+  terms: lang => `Answer in ${lang}, keeping technical terms in English as printed in the textbook (e.g. "velocity", "photosynthesis").`,
+  bilingual: lang => `Answer in ${lang}, and give key definitions and formulas in English as well.`,
+};
+
+const SCOPES: Record<TutorSettings['scope'], (grade: string) => string> = {
+  syllabus: grade => `Stay strictly within the ${BOARD} ${grade} syllabus; if a question is outside it, say so briefly.`,
+  extended: grade => `Base answers on the ${BOARD} ${grade} syllabus, but go beyond it when the student asks, marking what is not in the syllabus.`,
+};
+
+// The system prompt for `mode` with the tutor's settings applied, followed by
+// any request-specific `context` (source preferences, library diagrams).
+export function buildPrompt(mode: PromptMode, vars: PromptVars, ...context: string[]): { version: string; text: string } {
+  const template = PROMPTS[mode];
+  const { tone, languageMix, scope } = vars.tutor;
+  const settings = template.tutored ? [TONES[tone], LANGUAGE_MIXES[languageMix](vars.lang), SCOPES[scope](vars.grade)] : [];
+  return {
+    version: `${mode}@${template.version}`,
+    text: [template.render(vars), ...settings, ...context].filter(Boolean).join('\n  '),
+  };
+}
@@ -0,0 +1,96 @@
+import { Attachment, Message } from './types';
+
+export interface InlineData {
+  mimeType: string;
+  data: string;
+}
+
+export type Part = { text: string } | { inlineData: InlineData };
+
+export interface Turn {
+  role: 'user' | 'model';
+  parts: Part[];
+}
+
+// gemini-2.5-flash accepts far more than this, but every past turn is billed
+// on each request, so history is kept to a few pages of text.
+export const HISTORY_TOKEN_BUDGET = 6000;
+const SUMMARY_TOKEN_BUDGET = 600;
+const SUMMARY_LINE_LENGTH = 160;
+// Gemini bills a downscaled image at a flat ~258 tokens. Only the most recent
+// photos are resent with the history; older ones are dropped.
+const IMAGE_TOKENS = 258;
+const MAX_HISTORY_IMAGES = 2;
+
+// Rough heuristic (~4 characters per token for English, fewer for Urdu/Sindhi
+// script, so it errs on the side of sending less).
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+const toRole = (m: Message): Turn['role'] => (m.sender === 'user' ? 'user' : 'model');
+
+function clip(text: string, max: number): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > max ? `${flat.slice(0, max - 1)}…` : flat;
+}
+
+// Older turns that no longer fit are collapsed into a short recap of what the
+// student asked, newest first, so follow-ups can still refer back to them.
+function summarise(dropped: Message[]): string | null {
+  const lines: string[] = [];
+  let tokens = 0;
+  for (const m of [...dropped].reverse()) {
+    if (m.sender !== 'user') continue;
+    const line = `- ${clip(m.text || '(sent a photo)', SUMMARY_LINE_LENGTH)}`;
+    tokens += estimateTokens(line);
+    if (tokens > SUMMARY_TOKEN_BUDGET) break;
+    lines.unshift(line);
+  }
+  if (lines.length === 0) return null;
+  return `(Summary of earlier conversation. The student previously asked:\n${lines.join('\n')})`;
+}
+
+const imageParts = (images: Attachment[]): Part[] =>
+  images.map(a => ({ inlineData: { mimeType: a.mimeType, data: a.data } }));
+
+function pushTurn(turns: Turn[], role: Turn['role'], text: string, images: Attachment[] = []) {
+  const parts = imageParts(images);
+  if (text.trim()) parts.push({ text });
+  // A photo-only question whose image was dropped still needs a placeholder.
+  else if (parts.length === 0) parts.push({ text: '(sent a photo)' });
+  const last = turns[turns.length - 1];
+  if (last && last.role === role) last.parts.push(...parts);
+  else turns.push({ role, parts });
+}
+
+// Converts the prior thread plus the new prompt into role-tagged turns. The
+// newest messages are kept verbatim until the budget runs out; anything older
+// is summarised. Consecutive turns from the same role are merged and the
+// result always starts with a user turn, as the API expects. `images` are the
+// photos attached to the new prompt.
+export function buildContents(history: Message[], prompt: string, images: Attachment[] = [], budget = HISTORY_TOKEN_BUDGET): Turn[] {
+  const usable = history.filter(m => m.text.trim() || m.attachments?.length);
+  const keptImages = new Set(
+    usable.flatMap(m => m.attachments || []).slice(-MAX_HISTORY_IMAGES).map(a => a.id)
+  );
+  const imagesOf = (m: Message) => (m.attachments || []).filter(a => keptImages.has(a.id));
+
+  let remaining = budget - estimateTokens(prompt) - images.length * IMAGE_TOKENS;
+  let cut = usable.length;
+  while (cut > 0) {
+    const m = usable[cut - 1];
+    const cost = estimateTokens(m.text) + imagesOf(m).length * IMAGE_TOKENS;
+    if (cost > remaining) break;
+    remaining -= cost;
+    cut--;
+  }
+  while (cut < usable.length && usable[cut].sender !== 'user') cut++;
+
+  const turns: Turn[] = [];
+  const summary = summarise(usable.slice(0, cut));
+  if (summary) pushTurn(turns, 'user', summary);
+  for (const m of usable.slice(cut)) pushTurn(turns, toRole(m), m.text, imagesOf(m));
+  pushTurn(turns, 'user', prompt, images);
+  return turns;
+}
@@ -0,0 +1,117 @@
+import { isRecord, list } from './guards';
+
+// Typed view of public/curriculum.json. The file is fetched at runtime, so a
+// teacher can correct chapter names or add exercises on the deployed site
+// without rebuilding the app.
+
+export interface Exercise {
+  id: string;
+  label: string;
+  question: string;
+}
+
+export interface Topic {
+  id: string;
+  title: string;
+  exercises: Exercise[];
+}
+
+export interface Chapter {
+  number: number;
+  title: string;
+  topics: Topic[];
+}
+
+export interface SubjectCatalogue {
+  name: string;
+  chapters: Chapter[];
+}
+
+export interface Curriculum {
+  version: number;
+  grade: string;
+  board: string;
+  subjects: SubjectCatalogue[];
+}
+
+const CURRICULUM_URL = 'curriculum.json';
+
+const isString = (v: unknown): v is string => typeof v === 'string' && v.trim() !== '';
+
+// Keeps the valid parts of a hand-edited file and reports the rest, rather
+// than rejecting the whole catalogue over one bad entry.
+export function parseCurriculum(raw: unknown): Curriculum {
+  const problems: string[] = [];
+  // Parses each entry of the list `v`; the ones `parse` rejects are dropped
+  // and reported.
+  const each = <T>(v: unknown, parse: (item: Record<string, unknown>) => T | null, problem: (index: number) => string): T[] =>
+    list(v).flatMap((item, i) => {
+      const parsed = isRecord(item) ? parse(item) : null;
+      if (parsed === null) problems.push(problem(i));
+      return parsed === null ? [] : [parsed];
+    });
+
+  const root = isRecord(raw) ? raw : {};
+  const subjects: SubjectCatalogue[] = each(root.subjects, s => !isString(s.name) ? null : {
+    name: s.name,
+    chapters: each(s.chapters, c => typeof c.number !== 'number' || !isString(c.title) ? null : {
+      number: c.number,
+      title: c.title,
+      topics: each(c.topics, t => !isString(t.id) || !isString(t.title) ? null : {
+        id: t.id,
+        title: t.title,
+        exercises: each(t.exercises, x => !isString(x.id) || !isString(x.question) ? null : {
+          id: x.id,
+          label: isString(x.label) ? x.label : x.id,
+          question: x.question,
+        }, () => `${t.id}: exercise without id/question`),
+      }, () => `${s.name} ch.${c.number}: topic without id/title`),
+    }, () => `${s.name}: chapter without number/title`),
+  }, i => `subjects[${i}] has no name`);
+
+  if (problems.length) console.warn('curriculum.json has invalid entries:', problems);
+  return {
+    version: typeof root.version === 'number' ? root.version : 1,
+    grade: isString(root.grade) ? root.grade : 'Class 10',
+    board: isString(root.board) ? root.board : 'Sindh Textbook Board',
+    subjects,
+  };
+}
+
+let cached: Promise<Curriculum> | null = null;
+
+export function loadCurriculum(): Promise<Curriculum> {
+  if (!cached) {
+    cached = fetch(CURRICULUM_URL)
+      .then(res => {
+        if (!res.ok) throw new Error(`curriculum.json responded ${res.status}`);
+        return res.json();
+      })
+      .then(parseCurriculum)
+      .catch(err => {
+        cached = null;
+        throw err;
+      });
+  }
+  return cached;
+}
+
+export function findSubject(curriculum: Curriculum, subject: string): SubjectCatalogue | undefined {
+  return curriculum.subjects.find(s => s.name.toLowerCase() === subject.toLowerCase());
+}
+
+// How a chapter is named in quizzes and the progress screen, so results from
+// both land on the same topic.
+export const chapterLabel = (chapter: Chapter) => `Chapter ${chapter.number}: ${chapter.title}`;
+
+// Builds the exact, chapter-scoped request sent to streamBooks so the model
+// knows which textbook exercise is meant.
+export function buildBooksPrompt(subject: string, chapter: Chapter, topic?: Topic, exercise?: Exercise): string {
+  const scope = [`${subject}, ${chapterLabel(chapter)}`];
+  if (topic) scope.push(`Topic: ${topic.title}`);
+  if (exercise) {
+    return `${scope.join(' › ')} › Exercise ${exercise.label}\n\n${exercise.question}\n\nSolve this exercise step by step as expected in the Sindh Board textbook.`;
+  }
+  if (topic) return `${scope.join(' › ')}\n\nSummarise this topic with key definitions, formulas and likely exam questions.`;
+  return `${scope.join(' › ')}\n\nGive a chapter summary with its main topics, key terms and important exercise questions.`;
+}
@@ -0,0 +1,82 @@
+// Shared IndexedDB connection. Each store is created in the upgrade step for
+// the version that introduced it, so existing installs migrate forward.
+const DB_NAME = 'signify';
+const DB_VERSION = 6;
+
+export const STORES = {
+  sessions: 'sessions',
+  outbox: 'outbox',
+  activity: 'activity',
+  reviews: 'reviews',
+  assignments: 'assignments',
+  submissions: 'submissions',
+  vocabulary: 'vocabulary',
+  drills: 'drills',
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = (e) => {
+        const db = req.result;
+        if (e.oldVersion < 1) {
+          const sessions = db.createObjectStore(STORES.sessions, { keyPath: 'id' });
+          sessions.createIndex('view', 'view');
+          sessions.createIndex('updatedAt', 'updatedAt');
+        }
+        if (e.oldVersion < 2) {
+          db.createObjectStore(STORES.outbox, { keyPath: 'id' });
+        }
+        if (e.oldVersion < 3) {
+          const activity = db.createObjectStore(STORES.activity, { keyPath: 'id' });
+          activity.createIndex('subject', 'subject');
+          activity.createIndex('at', 'at');
+          db.createObjectStore(STORES.reviews, { keyPath: 'id' }).createIndex('due', 'due');
+        }
+        if (e.oldVersion < 4) {
+          db.createObjectStore(STORES.assignments, { keyPath: 'id' });
+          db.createObjectStore(STORES.submissions, { keyPath: 'id' }).createIndex('assignmentId', 'assignment.id');
+        }
+        if (e.oldVersion < 5) {
+          db.createObjectStore(STORES.vocabulary, { keyPath: 'id' }).createIndex('due', 'due');
+        }
+        if (e.oldVersion < 6) {
+          db.createObjectStore(STORES.drills, { keyPath: 'id' }).createIndex('kind', 'kind');
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export function promisify<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  const tx = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = await promisify(fn(tx.objectStore(storeName)));
+  await done;
+  return result;
+}
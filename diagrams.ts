@@ -0,0 +1,183 @@
+// The curated diagram library behind the practical view. Each entry is an SVG
+// in public/diagrams/<id>.svg; the model is shown the entries that fit the
+// question and embeds them by id as ![caption](diagram:<id>), so answers never
+// point at images on the web that may not exist.
+
+export interface Diagram {
+  id: string;
+  title: string;
+  subject: string;
+  // Chapter topic in curriculum.json the diagram belongs to.
+  topic: string;
+  keywords: string[];
+  // The labels drawn on the diagram, also shown if the image cannot load.
+  labels: string[];
+}
+
+export const DIAGRAMS: Diagram[] = [
+  {
+    id: 'simple-pendulum',
+    title: 'Simple pendulum',
+    subject: 'Physics',
+    topic: 'Simple harmonic motion',
+    keywords: ['pendulum', 'shm', 'oscillation', 'vibration', 'bob', 'amplitude', 'time period'],
+    labels: ['Rigid support', 'String', 'Bob', 'Mean position', 'Extreme position', 'Amplitude', 'Length'],
+  },
+  {
+    id: 'transverse-wave',
+    title: 'Transverse wave',
+    subject: 'Physics',
+    topic: 'Waves and their types',
+    keywords: ['wave', 'transverse', 'crest', 'trough', 'wavelength', 'amplitude'],
+    labels: ['Crest', 'Trough', 'Wavelength', 'Amplitude', 'Mean position'],
+  },
+  {
+    id: 'concave-mirror',
+    title: 'Image formed by a concave mirror',
+    subject: 'Physics',
+    topic: 'Reflection and spherical mirrors',
+    keywords: ['concave', 'mirror', 'spherical', 'reflection', 'focus', 'centre of curvature', 'ray diagram'],
+    labels: ['Object', 'Image', 'Principal axis', 'C', 'F', 'P'],
+  },
+  {
+    id: 'convex-lens',
+    title: 'Image formed by a convex lens',
+    subject: 'Physics',
+    topic: 'Lenses and optical instruments',
+    keywords: ['convex', 'lens', 'converging', 'refraction', 'focal length', 'ray diagram'],
+    labels: ['Object', 'Image', 'Principal axis', 'F', '2F', 'Optical centre'],
+  },
+  {
+    id: 'glass-slab-refraction',
+    title: 'Refraction through a glass slab',
+    subject: 'Physics',
+    topic: 'Refraction and total internal reflection',
+    keywords: ['refraction', 'glass slab', 'incident', 'refracted', 'emergent', 'normal', 'snell'],
+    labels: ['Incident ray', 'Normal', 'Refracted ray', 'Emergent ray', 'Angle of incidence', 'Angle of refraction'],
+  },
+  {
+    id: 'series-parallel-circuits',
+    title: 'Resistors in series and in parallel',
+    subject: 'Physics',
+    topic: "Ohm's law and resistance",
+    keywords: ['circuit', 'series', 'parallel', 'resistor', 'resistance', 'battery', 'current'],
+    labels: ['Battery', 'R1', 'R2', 'R3', 'Series', 'Parallel'],
+  },
+  {
+    id: 'dc-motor',
+    title: 'D.C. motor',
+    subject: 'Physics',
+    topic: 'Electric motor and generator',
+    keywords: ['motor', 'dc motor', 'commutator', 'brushes', 'coil', 'armature'],
+    labels: ['N', 'S', 'Coil', 'Split-ring commutator', 'Carbon brushes', 'Battery'],
+  },
+  {
+    id: 'transformer',
+    title: 'Step-up transformer',
+    subject: 'Physics',
+    topic: 'Electromagnetic induction and transformers',
+    keywords: ['transformer', 'step up', 'step down', 'primary', 'secondary', 'induction', 'core'],
+    labels: ['Soft iron core', 'Primary coil', 'Secondary coil', 'A.C. input', 'A.C. output'],
+  },
+  {
+    id: 'logic-gates',
+    title: 'AND, OR and NOT gates',
+    subject: 'Physics',
+    topic: 'Logic gates',
+    keywords: ['logic gate', 'and gate', 'or gate', 'not gate', 'truth table', 'digital'],
+    labels: ['AND', 'OR', 'NOT', 'A', 'B', 'X'],
+  },
+  {
+    id: 'ph-scale',
+    title: 'The pH scale',
+    subject: 'Chemistry',
+    topic: 'pH scale',
+    keywords: ['ph', 'acid', 'base', 'alkali', 'neutral', 'indicator'],
+    labels: ['Acidic', 'Neutral', 'Basic', '0', '7', '14'],
+  },
+  {
+    id: 'fractional-distillation',
+    title: 'Fractional distillation of petroleum',
+    subject: 'Chemistry',
+    topic: 'Urea and petroleum',
+    keywords: ['petroleum', 'fractional distillation', 'crude oil', 'fractions', 'fractionating column', 'refinery'],
+    labels: ['Crude oil', 'Furnace', 'Fractionating column', 'Petroleum gas', 'Petrol', 'Kerosene', 'Diesel', 'Lubricating oil', 'Bitumen'],
+  },
+  {
+    id: 'respiratory-system',
+    title: 'Human respiratory system',
+    subject: 'Bio',
+    topic: 'Human respiratory system',
+    keywords: ['respiratory', 'lungs', 'trachea', 'bronchi', 'breathing', 'diaphragm', 'alveoli'],
+    labels: ['Nasal cavity', 'Larynx', 'Trachea', 'Bronchus', 'Lung', 'Diaphragm'],
+  },
+  {
+    id: 'nephron',
+    title: 'Structure of a nephron',
+    subject: 'Bio',
+    topic: 'Human urinary system',
+    keywords: ['nephron', 'kidney', 'glomerulus', 'bowman', 'loop of henle', 'urine', 'excretion'],
+    labels: ["Bowman's capsule", 'Glomerulus', 'Proximal tubule', 'Loop of Henle', 'Distal tubule', 'Collecting duct'],
+  },
+  {
+    id: 'neuron',
+    title: 'Structure of a neuron',
+    subject: 'Bio',
+    topic: 'Nervous system',
+    keywords: ['neuron', 'nerve cell', 'axon', 'dendrite', 'myelin', 'nervous system'],
+    labels: ['Dendrites', 'Cell body', 'Nucleus', 'Axon', 'Myelin sheath', 'Axon terminals'],
+  },
+  {
+    id: 'human-eye',
+    title: 'Structure of the human eye',
+    subject: 'Bio',
+    topic: 'Receptors in humans: eye and ear',
+    keywords: ['eye', 'retina', 'lens', 'cornea', 'iris', 'pupil', 'optic nerve', 'vision'],
+    labels: ['Cornea', 'Iris', 'Pupil', 'Lens', 'Ciliary muscle', 'Retina', 'Optic nerve'],
+  },
+  {
+    id: 'flower-structure',
+    title: 'Parts of a flower',
+    subject: 'Bio',
+    topic: 'Sexual reproduction in plants',
+    keywords: ['flower', 'stamen', 'carpel', 'pistil', 'anther', 'stigma', 'ovary', 'pollination'],
+    labels: ['Petal', 'Sepal', 'Anther', 'Filament', 'Stigma', 'Style', 'Ovary'],
+  },
+  {
+    id: 'venn-diagram',
+    title: 'Venn diagram of two sets',
+    subject: 'Math',
+    topic: 'Venn diagrams',
+    keywords: ['venn', 'set', 'union', 'intersection', 'universal set', 'complement'],
+    labels: ['U', 'A', 'B', 'A ∩ B'],
+  },
+];
+
+export const DIAGRAM_SCHEME = 'diagram:';
+
+export const findDiagram = (id: string) => DIAGRAMS.find(d => d.id === id);
+
+// Relative, like curriculum.json, so it resolves wherever the build is hosted.
+export const diagramUrl = (diagram: Diagram) => `diagrams/${diagram.id}.svg`;
+
+// The subject's diagrams, those whose keywords appear in `text` first.
+export function findDiagrams(subject: string, text: string, limit = 8): Diagram[] {
+  const q = text.toLowerCase();
+  const score = (d: Diagram) => d.keywords.filter(k => q.includes(k)).length + (q.includes(d.title.toLowerCase()) ? 2 : 0);
+  return DIAGRAMS
+    .filter(d => d.subject === subject)
+    .map(d => ({ d, score: score(d) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ d }) => d);
+}
+
+// Lists the diagrams the model may embed, and how.
+export function diagramPrompt(diagrams: Diagram[]): string {
+  const rules = `Never link to images on the web.`;
+  if (!diagrams.length) return `${rules} Describe any diagram in words, part by part.`;
+  const list = diagrams.map(d => `- ${d.id}: ${d.title} (labels: ${d.labels.join(', ')})`).join('\n');
+  return `${rules} When one of these library diagrams fits, show it on its own line as ![short caption](${DIAGRAM_SCHEME}<id>) and explain its labels:
+${list}
+If none fits, describe the diagram in words, part by part.`;
+}
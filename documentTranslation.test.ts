@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_DOCUMENT_CHARS, splitDocument } from './documentTranslation';
+
+const sources = (text: string) => splitDocument(text).map(s => s.source);
+
+describe('splitDocument', () => {
+  it('splits paragraphs into sentences and numbers them', () => {
+    const doc = splitDocument('Light travels fast. Sound does not!\n\nWhy? Ask Dr. Ali.');
+    expect(doc.map(s => [s.id, s.paragraph, s.source])).toEqual([
+      [0, 0, 'Light travels fast.'],
+      [1, 0, 'Sound does not!'],
+      [2, 1, 'Why?'],
+      [3, 1, 'Ask Dr. Ali.'],
+    ]);
+    expect(doc.every(s => s.status === 'pending')).toBe(true);
+  });
+
+  it('ends sentences at Urdu punctuation', () => {
+    expect(sources('روشنی تیز ہے۔ کیوں؟')).toEqual(['روشنی تیز ہے۔', 'کیوں؟']);
+  });
+
+  it('does not end a sentence after an abbreviation or initial', () => {
+    expect(sources('See Fig. 3 for details. Newton, I. Newton wrote it.')).toEqual(['See Fig. 3 for details.', 'Newton, I. Newton wrote it.']);
+  });
+
+  it('strips Markdown markers and drops code blocks', () => {
+    expect(sources('# Motion\n\n- First point\n> quoted\n\n```\nconst x = 1;\n```\n\n1. Last')).toEqual([
+      'Motion', 'First point quoted', 'Last',
+    ]);
+  });
+
+  it('skips text without letters or digits', () => {
+    expect(sources('---\n\n...   ***')).toEqual([]);
+  });
+
+  it('reads no further than the document limit', () => {
+    const doc = splitDocument(`${'a'.repeat(MAX_DOCUMENT_CHARS)} overflow.`);
+    expect(doc.map(s => s.source)).toEqual(['a'.repeat(MAX_DOCUMENT_CHARS)]);
+  });
+});
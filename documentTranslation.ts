@@ -0,0 +1,129 @@
+import { translateSentences } from './geminiService';
+import { TutorErrorKind, isAbortError, toTutorError, wait } from './errors';
+
+// Translating whole passages: the text is split into sentences, sent in
+// small batches a few at a time, and every sentence keeps its own status so
+// one failed batch does not lose the rest of the document.
+
+export const MAX_DOCUMENT_CHARS = 20_000;
+export const MAX_BATCH_SENTENCES = 8;
+export const MAX_BATCH_CHARS = 2_000;
+const CONCURRENCY = 3;
+// A long document needs more requests than the proxy allows a device per
+// minute (server/rateLimit.ts). A batch turned away by that limit waits as
+// long as the proxy's Retry-After asks and is sent again. A longer wait means
+// the daily quota is used up, and the batch fails as usual.
+const MAX_RATE_LIMIT_WAIT_MS = 65_000;
+const RATE_LIMIT_RETRIES = 3;
+
+export type SentenceStatus = 'pending' | 'done' | 'failed';
+
+export interface DocSentence {
+  id: number;
+  paragraph: number;
+  source: string;
+  translation?: string;
+  status: SentenceStatus;
+  error?: TutorErrorKind;
+}
+
+// Markdown syntax that should not be translated: code blocks are dropped and
+// heading, list and quote markers are stripped from the start of lines.
+function plainParagraphs(text: string): string[] {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/^```[\s\S]*?^```\s*$/gm, '')
+    .split(/\n\s*\n/)
+    .map(p => p
+      .split('\n')
+      .map(line => line.replace(/^\s*(#{1,6}\s+|[-*+]\s+|\d+[.)]\s+|>\s?)/, '').trim())
+      .filter(Boolean)
+      .join(' '))
+    .filter(p => /[\p{L}\p{N}]/u.test(p));
+}
+
+// A full stop after these does not end the sentence ("Dr. Ali", "Fig. 3").
+const ABBREVIATION = /(?:^|\s)(?:Mr|Mrs|Ms|Dr|Prof|Sr|Jr|St|No|Fig|Vol|vs|etc|e\.g|i\.e|[A-Z])\.$/;
+
+function sentencesOf(paragraph: string): string[] {
+  return paragraph.split(/(?<=[.!?۔؟])\s+/).reduce<string[]>((out, part) => {
+    if (out.length && ABBREVIATION.test(out[out.length - 1])) out[out.length - 1] += ` ${part}`;
+    else out.push(part);
+    return out;
+  }, []);
+}
+
+export function splitDocument(text: string): DocSentence[] {
+  let id = 0;
+  return plainParagraphs(text.slice(0, MAX_DOCUMENT_CHARS)).flatMap((p, paragraph) =>
+    sentencesOf(p)
+      .map(s => s.trim())
+      .filter(s => /[\p{L}\p{N}]/u.test(s))
+      .map(source => ({ id: id++, paragraph, source, status: 'pending' as const }))
+  );
+}
+
+// Consecutive sentences grouped so each request has some context but stays
+// well inside the model's output limit. An overlong sentence (a run-on line
+// without punctuation) is cut to the batch limit when sent.
+function toBatches(sentences: DocSentence[]): DocSentence[][] {
+  const batches: DocSentence[][] = [];
+  let current: DocSentence[] = [];
+  let chars = 0;
+  for (const s of sentences) {
+    if (current.length && (current.length >= MAX_BATCH_SENTENCES || chars + s.source.length > MAX_BATCH_CHARS)) {
+      batches.push(current);
+      current = [];
+      chars = 0;
+    }
+    current.push(s);
+    chars += Math.min(s.source.length, MAX_BATCH_CHARS);
+  }
+  if (current.length) batches.push(current);
+  return batches;
+}
+
+// Runs `tasks` with at most `limit` in flight. Aborting stops new tasks from
+// starting; the ones already running are left to finish.
+export async function runLimited(tasks: (() => Promise<void>)[], limit: number, signal?: AbortSignal): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length && !signal?.aborted) await tasks[next++]();
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, worker));
+}
+
+async function translateBatch(batch: DocSentence[], lang: string, signal?: AbortSignal): Promise<string[]> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await translateSentences(batch.map(s => s.source.slice(0, MAX_BATCH_CHARS)), lang);
+    } catch (e) {
+      const { kind, retryAfterMs } = toTutorError(e);
+      const limited = kind === 'quota' && retryAfterMs !== undefined && retryAfterMs <= MAX_RATE_LIMIT_WAIT_MS;
+      if (!limited || attempt >= RATE_LIMIT_RETRIES || signal?.aborted) throw e;
+      await wait(retryAfterMs, signal);
+    }
+  }
+}
+
+// Translates the given sentences, reporting each batch as it settles.
+// Failures are reported per sentence rather than thrown.
+export function translateDocument(
+  sentences: DocSentence[],
+  lang: string,
+  onUpdate: (updated: DocSentence[]) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const tasks = toBatches(sentences).map(batch => async () => {
+    try {
+      const translations = await translateBatch(batch, lang, signal);
+      if (signal?.aborted) return;
+      onUpdate(batch.map((s, i) => ({ ...s, translation: translations[i], status: 'done', error: undefined })));
+    } catch (e) {
+      if (isAbortError(e) || signal?.aborted) return;
+      const { kind } = toTutorError(e);
+      onUpdate(batch.map(s => ({ ...s, status: 'failed', error: kind })));
+    }
+  });
+  return runLimited(tasks, CONCURRENCY, signal);
+}
@@ -0,0 +1,28 @@
+import { STORES, withStore } from './db';
+import { DrillAttempt, DrillExercise, DrillFeedback, DrillKind } from './types';
+import { drillKind } from './drills';
+import { logActivity } from './progressStore';
+
+// Every graded drill answer, kept for the per-rule accuracy in drills.ts. Each
+// attempt is also logged as activity so drills count towards the streak.
+
+export async function recordAttempt(exercise: DrillExercise, response: string, feedback: DrillFeedback): Promise<DrillAttempt> {
+  const at = Date.now();
+  const attempt: DrillAttempt = {
+    id: `${at}-${Math.random().toString(36).slice(2, 8)}`,
+    kind: exercise.kind,
+    rule: exercise.rule,
+    sentence: exercise.sentence,
+    response,
+    score: feedback.score,
+    correct: feedback.correct,
+    at,
+  };
+  await withStore(STORES.drills, 'readwrite', s => s.put(attempt));
+  await logActivity('exercise', drillKind(exercise.kind).subject, exercise.rule, feedback.score);
+  return attempt;
+}
+
+export function listAttempts(kind?: DrillKind): Promise<DrillAttempt[]> {
+  return withStore<DrillAttempt[]>(STORES.drills, 'readonly', s => (kind ? s.index('kind').getAll(kind) : s.getAll()));
+}
@@ -0,0 +1,157 @@
+import { DrillAttempt, DrillExercise, DrillFeedback, DrillKind, DrillMistake } from './types';
+import { normalise } from './quizScoring';
+
+// Grammar drills: the rules each kind of exercise practises, and the parts of
+// grading and progress that need no model.
+
+export interface DrillKindInfo {
+  id: DrillKind;
+  label: string;
+  // Subject the attempts count towards on the progress screen.
+  subject: string;
+  // Language the sentences are written in.
+  lang: string;
+  rules: string[];
+}
+
+export const DRILL_KINDS: DrillKindInfo[] = [
+  {
+    id: 'tense',
+    label: 'Tenses',
+    subject: 'English',
+    lang: 'English',
+    rules: [
+      'Present Indefinite',
+      'Present Continuous',
+      'Present Perfect',
+      'Present Perfect Continuous',
+      'Past Indefinite',
+      'Past Continuous',
+      'Past Perfect',
+      'Future Indefinite',
+      'Future Continuous',
+    ],
+  },
+  {
+    id: 'voice',
+    label: 'Active / Passive',
+    subject: 'English',
+    lang: 'English',
+    rules: [
+      'Passive: present tenses',
+      'Passive: past tenses',
+      'Passive: future and modals',
+      'Passive: questions and negatives',
+      'Passive to active',
+    ],
+  },
+  {
+    id: 'narration',
+    label: 'Direct / Indirect',
+    subject: 'English',
+    lang: 'English',
+    rules: [
+      'Reported statements',
+      'Reported questions',
+      'Reported commands and requests',
+      'Reported exclamations',
+      'Indirect to direct',
+    ],
+  },
+  {
+    id: 'urdu',
+    label: 'Urdu grammar',
+    subject: 'Urdu',
+    lang: 'Urdu',
+    rules: [
+      'Gender (تذکیر و تانیث)',
+      'Number (واحد جمع)',
+      'Past tense (فعل ماضی)',
+      'Present and future (حال و مستقبل)',
+      'Postpositions (حروف جار)',
+      'Active and passive (معروف و مجہول)',
+    ],
+  },
+  {
+    id: 'sindhi',
+    label: 'Sindhi grammar',
+    subject: 'Sindhi',
+    lang: 'Sindhi',
+    rules: [
+      'Gender (مذڪر ۽ مونث)',
+      'Number (واحد ۽ جمع)',
+      'Past tense (زمان ماضي)',
+      'Present and future (حال ۽ مستقبل)',
+      'Postpositions (حرف جر)',
+      'Pronominal suffixes (ضميري پڇاڙيون)',
+    ],
+  },
+];
+
+export const drillKind = (id: DrillKind): DrillKindInfo => DRILL_KINDS.find(k => k.id === id) || DRILL_KINDS[0];
+
+// Like normalise() but full stops are ignored too; quiz answers keep them for
+// numbers such as "3.5".
+const plain = (text: string) => normalise(text).replace(/\./g, '').trim();
+
+// An answer identical to the model answer is full marks without asking the
+// model; anything else is graded against the rubric.
+export function exactFeedback(exercise: DrillExercise, response: string): DrillFeedback | null {
+  const given = plain(response);
+  if (!given || given !== plain(exercise.answer)) return null;
+  return {
+    correct: true,
+    score: 1,
+    met: exercise.rubric.map(() => true),
+    mistakes: [],
+    corrected: exercise.answer,
+    explanation: '',
+  };
+}
+
+export interface AnswerSegment {
+  text: string;
+  wrong: boolean;
+}
+
+// Splits the student's answer so the words named in the feedback can be
+// highlighted where they were written.
+export function markMistakes(response: string, mistakes: DrillMistake[]): AnswerSegment[] {
+  const wrong = new Set(mistakes.flatMap(m => plain(m.wrong).split(' ')).filter(Boolean));
+  return response.split(/(\s+)/).filter(Boolean).map(text => ({ text, wrong: wrong.has(plain(text)) }));
+}
+
+// Accuracy follows recent attempts, like topic mastery in progressStats.ts.
+const ACCURACY_WINDOW = 10;
+
+export interface RuleAccuracy {
+  rule: string;
+  attempts: number;
+  correct: number;
+  // 0–1 over the last few attempts, or null before the first one.
+  accuracy: number | null;
+  lastAt?: number;
+}
+
+// Every rule of the kind, practised or not, in catalogue order.
+export function ruleAccuracy(kind: DrillKind, attempts: DrillAttempt[]): RuleAccuracy[] {
+  return drillKind(kind).rules.map(rule => {
+    const list = attempts.filter(a => a.kind === kind && a.rule === rule).sort((a, b) => a.at - b.at);
+    const recent = list.slice(-ACCURACY_WINDOW);
+    return {
+      rule,
+      attempts: list.length,
+      correct: list.filter(a => a.correct).length,
+      accuracy: recent.length ? recent.reduce((sum, a) => sum + a.score, 0) / recent.length : null,
+      lastAt: list[list.length - 1]?.at,
+    };
+  });
+}
+
+// Rules to practise next: never tried first, then the lowest accuracy.
+export function weakestRules(stats: RuleAccuracy[], count = 3): string[] {
+  return [...stats]
+    .sort((a, b) => (a.accuracy ?? -1) - (b.accuracy ?? -1))
+    .slice(0, count)
+    .map(s => s.rule);
+}
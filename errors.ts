@@ -0,0 +1,103 @@
+import { isRecord } from './guards';
+
+// Every failure that reaches the UI is a TutorError, so views can show a
+// specific message (error.<kind> in locales/) and decide whether a Retry
+// button makes sense.
+
+export type TutorErrorKind = 'missing-key' | 'quota' | 'offline' | 'safety' | 'malformed-json' | 'storage' | 'unknown';
+
+export class TutorError extends Error {
+  constructor(
+    readonly kind: TutorErrorKind,
+    message: string,
+    readonly retryable = false,
+    // How long the server asked us to wait (its Retry-After), if it said.
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'TutorError';
+  }
+}
+
+// Listed as a record so a new kind cannot be left out.
+const KINDS: Record<TutorErrorKind, true> = {
+  'missing-key': true, quota: true, offline: true, safety: true, 'malformed-json': true, storage: true, unknown: true,
+};
+
+export const isErrorKind = (v: unknown): v is TutorErrorKind => typeof v === 'string' && Object.prototype.hasOwnProperty.call(KINDS, v);
+
+// Cancellation is the student's choice, not a failure: callers check for it
+// before treating an exception as an error.
+export function isAbortError(e: unknown): boolean {
+  return isRecord(e) && e.name === 'AbortError';
+}
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+// Maps SDK, fetch and proxy failures onto the error kinds above.
+export function toTutorError(e: unknown): TutorError {
+  if (e instanceof TutorError) return e;
+  const message = e instanceof Error ? e.message : String(e);
+  const status = isRecord(e) && typeof e.status === 'number' ? e.status : undefined;
+  const text = message.toLowerCase();
+
+  if (e instanceof SyntaxError) return new TutorError('malformed-json', message, true);
+  if (text.includes('api key') || status === 401 || status === 403) return new TutorError('missing-key', message);
+  // Retrying a rate or usage limit only spends more of it.
+  if (status === 429 || text.includes('resource_exhausted') || text.includes('quota')) return new TutorError('quota', message);
+  if (text.includes('safety') || text.includes('blocked')) return new TutorError('safety', message);
+  if (isOffline() || (e instanceof TypeError && /fetch|network/i.test(message))) return new TutorError('offline', message, true);
+  // Without a status this is most likely a bug, which a retry will not fix.
+  return new TutorError('unknown', message, status !== undefined && status >= 500);
+}
+
+export interface RetryOptions {
+  attempts?: number;
+  baseDelayMs?: number;
+  signal?: AbortSignal;
+}
+
+const backoff = (attempt: number, base: number, err: TutorError) => err.retryAfterMs ?? base * 2 ** attempt + Math.random() * base;
+export const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+export async function withRetry<T>(fn: () => Promise<T>, { attempts = 3, baseDelayMs = 500, signal }: RetryOptions = {}): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (e) {
+      if (isAbortError(e) || signal?.aborted) throw e;
+      const err = toTutorError(e);
+      if (!err.retryable || attempt + 1 >= attempts) throw err;
+      await wait(backoff(attempt, baseDelayMs, err), signal);
+    }
+  }
+}
+
+// Streams are only retried if they fail before producing any output; once
+// text has reached the screen a silent restart would duplicate it.
+export async function* withStreamRetry<T>(
+  start: () => AsyncGenerator<T>,
+  { attempts = 3, baseDelayMs = 500, signal }: RetryOptions = {}
+): AsyncGenerator<T> {
+  for (let attempt = 0; ; attempt++) {
+    let started = false;
+    try {
+      for await (const item of start()) {
+        started = true;
+        yield item;
+      }
+      return;
+    } catch (e) {
+      if (isAbortError(e) || signal?.aborted) throw e;
+      const err = toTutorError(e);
+      if (started || !err.retryable || attempt + 1 >= attempts) throw err;
+      await wait(backoff(attempt, baseDelayMs, err), signal);
+    }
+  }
+}
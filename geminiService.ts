@@ -1,75 +1,96 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { Source, TranslatorResponse } from './types';
+import { Type } from "@google/genai";
+import { AppView, Attachment, DrillExercise, DrillFeedback, DrillKind, Message, Quiz, QuizQuestion, SourcePolicy, TranslatorResponse, TutorSettings } from './types';
+import { DEFAULT_SOURCE_POLICY, DEFAULT_TUTOR_SETTINGS, GRADE, PromptVars, buildPrompt } from './constants';
+import { sourcePolicyPrompt } from './citations';
+import { StreamChunk } from './providers';
+import { buildContents, InlineData, Turn } from './conversation';
+import { getProvider } from './providers';
+import { isProxied, proxyStream, proxyJson } from './proxyClient';
+import { TutorError, withRetry, withStreamRetry } from './errors';
+import { drillKind, exactFeedback } from './drills';
+import { diagramPrompt, findDiagrams } from './diagrams';
+import { groundingOn, loadSettings } from './settings';
 
-// strictly using gemini-2.5-flash as requested
-const MODEL = 'gemini-2.5-flash';
-
-function getAi() {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) throw new Error("API Key missing");
-  return new GoogleGenAI({ apiKey });
+// Failures surface as TutorError (see errors.ts); transient ones are retried
+// with backoff before the first chunk arrives. Through the proxy nothing is
+// retried in the browser: the proxy runs this same code and retries there,
+// so one failure is not retried twice and against the proxy's rate limit. Every chunk carries the
+// version of the prompt, so the reply records which one produced it.
+async function* streamResponse(
+  contents: Turn[],
+  prompt: { version: string; text: string },
+  useSearch: boolean = false,
+  signal?: AbortSignal
+): AsyncGenerator<StreamChunk> {
+  const stream = withStreamRetry(() => getProvider().streamChat({ contents, systemInstruction: prompt.text, useSearch, signal }), { signal });
+  for await (const chunk of stream) yield { ...chunk, promptVersion: prompt.version };
 }
 
-async function* streamResponse(
-  prompt: string,
-  systemInstruction: string,
-  useSearch: boolean = false
-): AsyncGenerator<{ text: string, sources: Source[] }> {
-  const ai = getAi();
-  try {
-    const result = await ai.models.generateContentStream({
-      model: MODEL,
-      contents: prompt,
-      config: {
-        systemInstruction,
-        tools: useSearch ? [{ googleSearch: {} }] : undefined,
-      },
-    });
+const vars = (subject: string, lang: string, tutor: TutorSettings): PromptVars => ({ subject, lang, grade: GRADE, tutor });
 
-    for await (const chunk of result) {
-      const text = chunk.text || "";
-      const groundingMetadata = chunk.candidates?.[0]?.groundingMetadata;
-      let sources: Source[] = [];
-      if (groundingMetadata?.groundingChunks) {
-        sources = groundingMetadata.groundingChunks
-          .filter((c: any) => c.web && c.web.uri)
-          .map((c: any) => ({ uri: c.web.uri, title: c.web.title || "Source" }));
-      }
-      yield { text, sources };
-    }
-  } catch (e: any) {
-    yield { text: `Error: ${e.message || "Failed to connect to AI"}`, sources: [] };
-  }
+export async function* streamQa(prompt: string, subject: string, lang: string, history: Message[] = [], images: Attachment[] = [], policy: SourcePolicy = DEFAULT_SOURCE_POLICY, tutor: TutorSettings = DEFAULT_TUTOR_SETTINGS, grounded: boolean = true, signal?: AbortSignal) {
+  if (isProxied()) return yield* proxyStream('qa', { prompt, subject, lang, history, images, policy, tutor, grounded }, signal);
+  const sys = buildPrompt('qa', vars(subject, lang, tutor), grounded ? sourcePolicyPrompt(policy) : '');
+  yield* streamResponse(buildContents(history, prompt, images), sys, grounded, signal);
 }
 
-export async function* streamQa(prompt: string, subject: string, lang: string) {
-  const sys = `You are SigNify AI, an expert tutor for Class 10 Sindh Board students. 
-  Subject: ${subject}. Language: ${lang}. 
-  Focus strictly on the Sindh Textbook Board curriculum (Jamshoro). 
-  Provide accurate, teacher-like responses with markdown formatting.`;
-  yield* streamResponse(prompt, sys, true);
+export async function* streamBooks(query: string, subject: string, lang: string, history: Message[] = [], images: Attachment[] = [], policy: SourcePolicy = DEFAULT_SOURCE_POLICY, tutor: TutorSettings = DEFAULT_TUTOR_SETTINGS, grounded: boolean = true, signal?: AbortSignal) {
+  if (isProxied()) return yield* proxyStream('books', { prompt: query, subject, lang, history, images, policy, tutor, grounded }, signal);
+  const sys = buildPrompt('books', vars(subject, lang, tutor), grounded ? sourcePolicyPrompt(policy) : '');
+  yield* streamResponse(buildContents(history, query, images), sys, grounded, signal);
 }
 
-export async function* streamBooks(query: string, subject: string, lang: string) {
-  const sys = `You are the Sindh Board Textbook Assistant. 
-  Provide summaries and solved exercise answers for Class 10 ${subject}. 
-  Language: ${lang}. Focus on official Jamshoro textbook content only.`;
-  yield* streamResponse(query, sys, true);
+// Practical (visual) learning: explanations built around diagrams, models
+// and experiments rather than text alone. Diagrams come from the curated
+// library (diagrams.ts); the ones matching the question are offered first.
+export async function* streamPractical(prompt: string, subject: string, lang: string, history: Message[] = [], images: Attachment[] = [], policy: SourcePolicy = DEFAULT_SOURCE_POLICY, tutor: TutorSettings = DEFAULT_TUTOR_SETTINGS, grounded: boolean = true, signal?: AbortSignal) {
+  if (isProxied()) return yield* proxyStream('practical', { prompt, subject, lang, history, images, policy, tutor, grounded }, signal);
+  const diagrams = findDiagrams(subject, [prompt, ...history.slice(-2).map(m => m.text)].join(' '));
+  const sys = buildPrompt('practical', vars(subject, lang, tutor), diagramPrompt(diagrams), grounded ? sourcePolicyPrompt(policy) : '');
+  yield* streamResponse(buildContents(history, prompt, images), sys, grounded, signal);
 }
 
-export async function* streamGrammar(prompt: string, lang: string) {
-  const sys = `You are a Grammar Expert for Sindh Board Class 10. 
-  Explain rules for English, Urdu, or Sindhi grammar as requested. 
-  Use tables and clear examples in your response.`;
-  yield* streamResponse(prompt, sys);
+export async function* streamGrammar(prompt: string, lang: string, history: Message[] = [], tutor: TutorSettings = DEFAULT_TUTOR_SETTINGS, signal?: AbortSignal) {
+  if (isProxied()) return yield* proxyStream('grammar', { prompt, lang, history, tutor }, signal);
+  const sys = buildPrompt('grammar', vars('', lang, tutor));
+  yield* streamResponse(buildContents(history, prompt), sys, false, signal);
+}
+
+// The chat stream behind each chat view (CHAT_VIEWS in routes.ts); other views have none.
+// Grammar is text-only, so any images are ignored there. Grounded views use
+// the student's source preferences (see citations.ts) unless search grounding
+// or data saver turns grounding off, and all of them the tutor's settings.
+// Everything comes from the device settings (see settings.ts).
+export function streamForView(
+  view: AppView,
+  prompt: string,
+  subject: string,
+  lang: string,
+  history: Message[] = [],
+  images: Attachment[] = [],
+  signal?: AbortSignal
+): AsyncGenerator<StreamChunk> | null {
+  const settings = loadSettings();
+  const { sourcePolicy, tutor } = settings;
+  const grounded = groundingOn(settings);
+  switch (view) {
+    case 'qa': return streamQa(prompt, subject, lang, history, images, sourcePolicy, tutor, grounded, signal);
+    case 'books': return streamBooks(prompt, subject, lang, history, images, sourcePolicy, tutor, grounded, signal);
+    case 'practical': return streamPractical(prompt, subject, lang, history, images, sourcePolicy, tutor, grounded, signal);
+    case 'grammar': return streamGrammar(prompt, lang, history, tutor, signal);
+    default: return null;
+  }
 }
 
 export async function getTranslation(text: string, targetLang: string): Promise<TranslatorResponse> {
-  const ai = getAi();
+  if (isProxied()) return proxyJson<TranslatorResponse>('translate', { text, targetLang });
+
   const schema = {
     type: Type.OBJECT,
     properties: {
+      sourceLang: { type: Type.STRING },
       mainTranslation: { type: Type.STRING },
+      transliteration: { type: Type.STRING },
       explanation: { type: Type.STRING },
       wordByWord: {
         type: Type.ARRAY,
@@ -77,24 +98,235 @@ export async function getTranslation(text: string, targetLang: string): Promise<
           type: Type.OBJECT,
           properties: {
             original: { type: Type.STRING },
-            translation: { type: Type.STRING }
+            translation: { type: Type.STRING },
+            transliteration: { type: Type.STRING },
+            partOfSpeech: { type: Type.STRING },
+            example: { type: Type.STRING }
           },
-          required: ["original", "translation"]
+          required: ["original", "translation", "transliteration", "partOfSpeech", "example"]
         }
       }
     },
-    required: ["mainTranslation", "explanation", "wordByWord"]
+    required: ["sourceLang", "mainTranslation", "transliteration", "explanation", "wordByWord"]
   };
 
-  const response = await ai.models.generateContent({
-    model: MODEL,
-    contents: `Translate to ${targetLang}: "${text}"`,
-    config: {
-      systemInstruction: "You are an educational translator for Class 10 students. Return JSON only.",
-      responseMimeType: "application/json",
-      responseSchema: schema,
-    },
+  return withRetry(() => getProvider().generateJson<TranslatorResponse>({
+    prompt: `Translate to ${targetLang}: "${text}"`,
+    systemInstruction: buildPrompt('translate', vars('', targetLang, DEFAULT_TUTOR_SETTINGS)).text,
+    schema,
+  }));
+}
+
+// Translates a batch of sentences from a longer document, one translation per
+// sentence in the same order, so the two columns stay aligned.
+export async function translateSentences(sentences: string[], targetLang: string): Promise<string[]> {
+  if (isProxied()) return proxyJson<{ translations: string[] }>('translate-sentences', { sentences, targetLang }).then(r => r.translations);
+
+  const schema = {
+    type: Type.OBJECT,
+    properties: { translations: { type: Type.ARRAY, items: { type: Type.STRING } } },
+    required: ["translations"]
+  };
+
+  return withRetry(async () => {
+    const res = await getProvider().generateJson<{ translations: string[] }>({
+      prompt: `Translate each of these ${sentences.length} sentences to ${targetLang}:\n${JSON.stringify(sentences)}`,
+      systemInstruction: buildPrompt('translate-sentences', vars('', targetLang, DEFAULT_TUTOR_SETTINGS)).text,
+      schema,
+    });
+    const translations = Array.isArray(res.translations) ? res.translations : [];
+    if (translations.length !== sentences.length) {
+      throw new TutorError('malformed-json', `Expected ${sentences.length} translations, got ${translations.length}`, true);
+    }
+    return translations;
   });
+}
+
+export interface QuizRequest {
+  subject: string;
+  chapter?: string;
+  lang: string;
+  mcq: number;
+  blank: number;
+  short: number;
+  tutor?: TutorSettings;
+}
 
-  return JSON.parse(response.text.trim());
-}
\ No newline at end of file
+export async function generateQuiz(req: QuizRequest): Promise<Quiz> {
+  if (isProxied()) return proxyJson<Quiz>('quiz', req);
+
+  const schema = {
+    type: Type.OBJECT,
+    properties: {
+      questions: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            kind: { type: Type.STRING, enum: ['mcq', 'blank', 'short'] },
+            prompt: { type: Type.STRING },
+            options: { type: Type.ARRAY, items: { type: Type.STRING } },
+            answer: { type: Type.STRING },
+            keywords: { type: Type.ARRAY, items: { type: Type.STRING } },
+            explanation: { type: Type.STRING }
+          },
+          required: ["kind", "prompt", "answer", "explanation"]
+        }
+      }
+    },
+    required: ["questions"]
+  };
+
+  const scope = req.chapter ? `${req.subject}, ${req.chapter}` : req.subject;
+  const raw = await withRetry(() => getProvider().generateJson<{ questions: Omit<QuizQuestion, 'id'>[] }>({
+    prompt: `Create a practice quiz on ${scope} in ${req.lang}: ${req.mcq} multiple-choice questions, ${req.blank} fill-in-the-blank questions and ${req.short} short-answer questions.`,
+    systemInstruction: buildPrompt('quiz', vars(req.subject, req.lang, req.tutor || DEFAULT_TUTOR_SETTINGS)).text,
+    schema,
+  }));
+
+  return { subject: req.subject, chapter: req.chapter, lang: req.lang, questions: normaliseQuestions(raw.questions || []) };
+}
+
+// Drops unusable items and makes sure every MCQ offers its own answer.
+function normaliseQuestions(items: Omit<QuizQuestion, 'id'>[]): QuizQuestion[] {
+  return items
+    .filter(q => q && q.prompt && q.answer && ['mcq', 'blank', 'short'].includes(q.kind))
+    .map((q, i) => {
+      const question: QuizQuestion = { ...q, id: `q${i + 1}` };
+      if (q.kind === 'mcq') {
+        const options = (q.options || []).filter(Boolean);
+        question.options = options.includes(q.answer) ? options : [q.answer, ...options].slice(0, 4);
+      }
+      return question;
+    });
+}
+
+const DRILL_GUIDES: Record<DrillKind, string> = {
+  tense: 'Give an English sentence in one tense and ask for it in the tense named by the rule, e.g. "Change into Past Perfect".',
+  voice: 'Give an English sentence and ask for it in the other voice. Use sentences whose object can become the subject.',
+  narration: 'Give an English sentence in direct speech (or indirect, for "Indirect to direct") and ask for it in the other form of narration, following the reporting-verb, pronoun, tense and time-word changes taught by the board.',
+  urdu: 'Give an Urdu sentence with a grammatical mistake or a form to change (gender, number, tense...) and ask for the corrected or changed sentence. Write instructions and sentences in Urdu script.',
+  sindhi: 'Give a Sindhi sentence with a grammatical mistake or a form to change (gender, number, tense...) and ask for the corrected or changed sentence. Write instructions and sentences in Sindhi Arabic script.',
+};
+
+// Sentence-transformation exercises for the grammar drills. `rules` narrows
+// the catalogue in drills.ts; every exercise is tagged with one of them.
+export async function generateDrills(kind: DrillKind, rules: string[], count: number): Promise<DrillExercise[]> {
+  if (isProxied()) return proxyJson<DrillExercise[]>('drills', { kind, rules, count });
+
+  const info = drillKind(kind);
+  const chosen = rules.filter(r => info.rules.includes(r));
+  const pool = chosen.length ? chosen : info.rules;
+  const schema = {
+    type: Type.OBJECT,
+    properties: {
+      exercises: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            rule: { type: Type.STRING, enum: pool },
+            instruction: { type: Type.STRING },
+            sentence: { type: Type.STRING },
+            answer: { type: Type.STRING },
+            rubric: { type: Type.ARRAY, items: { type: Type.STRING } }
+          },
+          required: ["rule", "instruction", "sentence", "answer", "rubric"]
+        }
+      }
+    },
+    required: ["exercises"]
+  };
+
+  const raw = await withRetry(() => getProvider().generateJson<{ exercises: Omit<DrillExercise, 'id' | 'kind'>[] }>({
+    prompt: `Write ${count} ${info.label} exercises, spread across these rules: ${pool.join('; ')}.`,
+    systemInstruction: buildPrompt('drills', vars('', '', DEFAULT_TUTOR_SETTINGS), DRILL_GUIDES[kind]).text,
+    schema,
+  }));
+
+  return (raw.exercises || [])
+    .filter(e => e && e.sentence && e.answer && pool.includes(e.rule))
+    .slice(0, count)
+    .map((e, i) => ({ ...e, id: `d${i + 1}`, kind, rubric: (e.rubric || []).filter(Boolean) }));
+}
+
+// Grades one drill answer against its rubric, naming each wrong word or
+// inflection. Answers that match the model answer are marked locally. The
+// explanation follows the student's answer language and tutor settings.
+export async function gradeDrill(exercise: DrillExercise, response: string, lang: string = 'English', tutor: TutorSettings = DEFAULT_TUTOR_SETTINGS): Promise<DrillFeedback> {
+  const exact = exactFeedback(exercise, response);
+  if (exact) return exact;
+  if (isProxied()) return proxyJson<DrillFeedback>('grade-drill', { exercise, response, lang, tutor });
+
+  const schema = {
+    type: Type.OBJECT,
+    properties: {
+      met: { type: Type.ARRAY, items: { type: Type.BOOLEAN } },
+      mistakes: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            wrong: { type: Type.STRING },
+            correct: { type: Type.STRING },
+            note: { type: Type.STRING }
+          },
+          required: ["wrong", "correct", "note"]
+        }
+      },
+      corrected: { type: Type.STRING },
+      explanation: { type: Type.STRING }
+    },
+    required: ["met", "mistakes", "corrected", "explanation"]
+  };
+
+  const rubric = exercise.rubric.map((r, i) => `${i + 1}. ${r}`).join('\n');
+  const raw = await withRetry(() => getProvider().generateJson<Omit<DrillFeedback, 'correct' | 'score'>>({
+    prompt: `Instruction: ${exercise.instruction}\nSentence: ${exercise.sentence}\nModel answer: ${exercise.answer}\nRubric:\n${rubric}\n\nStudent's answer: ${response}`,
+    systemInstruction: buildPrompt('grade-drill', vars('', lang, tutor)).text,
+    schema,
+  }));
+
+  return normaliseFeedback(exercise, raw);
+}
+
+// One verdict per rubric point, and "correct" only when nothing is wrong.
+function normaliseFeedback(exercise: DrillExercise, raw: Omit<DrillFeedback, 'correct' | 'score'>): DrillFeedback {
+  const met = exercise.rubric.map((_, i) => raw.met?.[i] === true);
+  const mistakes = (raw.mistakes || []).filter(m => m && (m.wrong || m.correct));
+  const score = met.length ? met.filter(Boolean).length / met.length : mistakes.length ? 0 : 1;
+  return {
+    correct: score === 1 && mistakes.length === 0,
+    score,
+    met,
+    mistakes,
+    corrected: raw.corrected || exercise.answer,
+    explanation: raw.explanation || '',
+  };
+}
+
+const SCRIPTS: Record<string, string> = {
+  English: 'English in Latin script',
+  Urdu: 'Urdu in Urdu (Nastaliq/Arabic) script',
+  Sindhi: 'Sindhi in Sindhi Arabic script',
+};
+
+// Turns a push-to-talk recording into text for the composer. The student
+// reviews it before sending, so this only transcribes and never answers.
+export async function transcribeAudio(audio: InlineData, lang: string): Promise<string> {
+  if (isProxied()) return proxyJson<{ text: string }>('transcribe', { audio, lang }).then(r => r.text);
+
+  const schema = {
+    type: Type.OBJECT,
+    properties: { text: { type: Type.STRING } },
+    required: ["text"]
+  };
+
+  const res = await withRetry(() => getProvider().generateJson<{ text: string }>({
+    prompt: `Transcribe this recording. Write it as ${SCRIPTS[lang] || lang}.`,
+    systemInstruction: buildPrompt('transcribe', vars('', lang, DEFAULT_TUTOR_SETTINGS)).text,
+    schema,
+    media: [audio],
+  }));
+  return (res.text || '').trim();
+}
@@ -0,0 +1,9 @@
+// Data from outside the app's own code (stored settings, fetched or imported
+// files, proxy request bodies) is parsed as `unknown` and narrowed with these
+// before any field is read.
+
+export const isRecord = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// The items of `v` if it is an array, otherwise none.
+export const list = (v: unknown): unknown[] => (Array.isArray(v) ? v : []);
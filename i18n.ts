@@ -0,0 +1,54 @@
+import { useSyncExternalStore } from 'react';
+import { AppView, UiLang } from './types';
+import { TutorErrorKind } from './errors';
+import { loadSettings, subscribeSettings } from './settings';
+import { en, MessageKey } from './locales/en';
+import { ur } from './locales/ur';
+import { sd } from './locales/sd';
+
+// The app's own labels in the UI language chosen in settings. Answers are a
+// separate matter: they follow the answer language (see constants.ts).
+
+export type { MessageKey };
+export type Translate = (key: MessageKey, vars?: Record<string, string | number>) => string;
+
+export const CATALOGUES: Record<UiLang, Record<MessageKey, string>> = { en, ur, sd };
+
+export function translate(lang: UiLang, key: MessageKey, vars: Record<string, string | number> = {}): string {
+  const text = CATALOGUES[lang][key] || en[key];
+  return text.replace(/\{(\w+)\}/g, (match, name) => (name in vars ? String(vars[name]) : match));
+}
+
+// Re-renders the component when the UI language changes.
+export function useT(): Translate {
+  const { uiLang } = useSyncExternalStore(subscribeSettings, loadSettings);
+  return (key, vars) => translate(uiLang, key, vars);
+}
+
+// Labels for values that are also data, such as subjects and answer
+// languages. A value without a catalogue entry is shown as it is.
+export function valueLabel(t: Translate, family: 'subject' | 'lang', value: string): string {
+  const key = `${family}.${value}`;
+  return key in en ? t(key as MessageKey) : value;
+}
+
+// What to tell the student about a failure (see errors.ts).
+export const errorMessage = (t: Translate, kind: TutorErrorKind): string => t(`error.${kind}`);
+
+// The name of each screen, as in the header.
+export const VIEW_TITLES: Record<AppView, MessageKey> = {
+  dashboard: 'view.dashboard',
+  qa: 'view.qa',
+  books: 'view.books',
+  practical: 'view.practical',
+  translator: 'view.translator',
+  grammar: 'view.grammar',
+  quiz: 'view.quiz',
+  progress: 'view.progress',
+  teacher: 'view.teacher',
+  assignment: 'view.assignment',
+  vocabulary: 'view.vocabulary',
+  about: 'view.about',
+  contact: 'view.contact',
+  settings: 'view.settings',
+};
@@ -0,0 +1,49 @@
+import { Attachment } from './types';
+
+// Phone cameras produce 4000px, multi-megabyte photos. Textbook print and
+// handwriting stay legible at 1280px, which keeps each upload around 150 KB
+// and well inside the proxy's body limit.
+const MAX_SIDE = 1280;
+const JPEG_QUALITY = 0.75;
+export const MAX_ATTACHMENTS = 3;
+
+export const attachmentUrl = (a: Attachment) => `data:${a.mimeType};base64,${a.data}`;
+
+function loadImage(file: File): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => { URL.revokeObjectURL(url); resolve(img); };
+    img.onerror = () => { URL.revokeObjectURL(url); reject(new Error(`Could not read ${file.name} as an image`)); };
+    img.src = url;
+  });
+}
+
+// Downscales and re-encodes as JPEG. Browsers apply the EXIF orientation
+// when decoding, so photos taken sideways come out upright.
+export async function prepareImage(file: File): Promise<Attachment> {
+  const img = await loadImage(file);
+  const scale = Math.min(1, MAX_SIDE / Math.max(img.naturalWidth, img.naturalHeight));
+  const width = Math.round(img.naturalWidth * scale);
+  const height = Math.round(img.naturalHeight * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  // JPEG has no alpha; paint white first so transparent PNGs don't turn black.
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+
+  const dataUrl = canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    kind: 'image',
+    mimeType: 'image/jpeg',
+    data: dataUrl.slice(dataUrl.indexOf(',') + 1),
+    width,
+    height,
+  };
+}
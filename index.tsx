@@ -1,6 +1,12 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { applyDisplaySettings, loadSettings, subscribeSettings } from './settings';
+
+// Applied before the first render so a light theme or large text does not
+// flash in after load.
+applyDisplaySettings(loadSettings());
+subscribeSettings(() => applyDisplaySettings(loadSettings()));
 
 const root = ReactDOM.createRoot(
   document.getElementById('root') as HTMLElement
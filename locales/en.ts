@@ -0,0 +1,373 @@
+// The English catalogue is the source of truth: its keys are MessageKey, and
+// ur.ts and sd.ts must translate every one of them (checked by tsc and, at
+// build time, by the catalogue check in vite.config.ts). `{name}` marks a
+// value filled in by t(); translations must keep the same placeholders.
+
+export const en = {
+  'nav.back': 'Back',
+  'network.offline': 'Offline',
+  'network.sending': 'Sending {count}',
+  'network.queued': '{count} queued',
+  'common.history': 'History',
+  'common.retry': 'Retry',
+  'common.remove': 'Remove',
+  'common.save': 'Save',
+  'common.none': 'None',
+  'common.add': 'Add',
+
+  'view.dashboard': 'Home',
+  'view.qa': 'AI Tutor',
+  'view.books': 'Solved',
+  'view.practical': 'Practical',
+  'view.translator': 'Translate',
+  'view.grammar': 'Grammar',
+  'view.quiz': 'Quiz',
+  'view.progress': 'Progress',
+  'view.teacher': 'Teacher',
+  'view.assignment': 'Assignment',
+  'view.vocabulary': 'Glossary',
+  'view.about': 'About',
+  'view.contact': 'Contact',
+  'view.settings': 'Settings',
+
+  'subject.Physics': 'Physics',
+  'subject.Chemistry': 'Chemistry',
+  'subject.Math': 'Math',
+  'subject.Bio': 'Bio',
+  'subject.English': 'English',
+  'subject.Urdu': 'Urdu',
+  'subject.Sindhi': 'Sindhi',
+
+  'lang.English': 'English',
+  'lang.Urdu': 'Urdu',
+  'lang.Sindhi': 'Sindhi',
+
+  'dashboard.tagline': 'Sindh Board Study Tutor',
+  'dashboard.qaDesc': 'Concept Q&A',
+  'dashboard.booksDesc': 'Exercises',
+  'dashboard.practicalDesc': 'Diagrams & Labs',
+  'dashboard.translatorDesc': '3 Languages',
+  'dashboard.wordsDue': '{count} words due',
+  'dashboard.grammarDesc': 'Rules & Drills',
+  'dashboard.quizDesc': 'MCQ Practice',
+  'dashboard.progressDesc': 'Streaks',
+  'dashboard.cardsDue': '{count} due',
+  'dashboard.dueForReview': 'Due for review',
+  'dashboard.assignments': 'Assignments',
+  'dashboard.questionCount': '{count} Q',
+  'dashboard.teacherMode': 'Teacher mode',
+  'dashboard.poweredBy': 'Powered by Gemini 2.5 Flash',
+  'dashboard.developedBy': 'Developed by Sike Ali',
+
+  'review.prompt': 'How well did you remember?',
+  'grade.again': 'Again',
+  'grade.hard': 'Hard',
+  'grade.good': 'Good',
+  'grade.easy': 'Easy',
+
+  'mode.sentence': 'Sentence',
+  'mode.document': 'Document',
+  'mode.ask': 'Ask',
+  'mode.drills': 'Drills',
+
+  'chat.newChat': 'New chat',
+  'chat.export': 'Export notes',
+  'chat.translatePlaceholder': 'Text to translate...',
+  'chat.grammarPlaceholder': 'Ask a grammar question...',
+  'chat.practicalPlaceholder': 'Ask for a {subject} diagram or experiment...',
+  'chat.askPlaceholder': 'Ask about {subject}...',
+  'chat.photoUnreadable': 'That photo could not be read. Try another one.',
+  'chat.photoToSend': 'Photo to send',
+  'chat.removePhoto': 'Remove photo',
+  'chat.takePhoto': 'Take a photo',
+  'chat.attachPhoto': 'Attach from gallery',
+  'chat.stop': 'Stop generating',
+  'chat.send': 'Send',
+
+  'message.queued': 'Queued. This will be answered when you are back online.',
+  'message.copy': 'Copy',
+  'message.copied': 'Copied',
+  'message.regenerate': 'Regenerate',
+  'message.attachedPhoto': 'Attached photo',
+
+  'books.chapters': 'Chapters',
+  'diagrams.title': '{subject} diagrams',
+  'diagrams.empty': 'No diagrams in the library for {subject} yet. You can still ask below.',
+
+  'settings.defaultSubject': 'Default subject',
+  'settings.answerLang': 'Answer language',
+  'settings.uiLang': 'App language',
+  'settings.theme': 'Theme',
+  'settings.textSize': 'Text size',
+  'settings.data': 'Data',
+  'settings.dataSaver': 'Data saver',
+  'settings.dataSaverHint': 'Answers without searching the web, so each question uses less data.',
+  'settings.grounding': 'Google Search grounding',
+  'settings.groundingHint': 'AI Tutor, Solved and Practical answers search the web and cite their sources.',
+  'settings.tone': 'Tutor tone',
+  'settings.languageMix': 'Language mix',
+  'settings.scope': 'Curriculum scope',
+  'settings.promptVersions': 'Prompt versions: {list}',
+  'theme.dark': 'Dark',
+  'theme.light': 'Light',
+  'textSize.small': 'Small',
+  'textSize.medium': 'Medium',
+  'textSize.large': 'Large',
+  'tone.friendly': 'Friendly',
+  'tone.friendlyHint': 'Warm and encouraging, like a patient teacher.',
+  'tone.formal': 'Formal',
+  'tone.formalHint': 'Exam-focused, in the register of the board papers.',
+  'tone.concise': 'Concise',
+  'tone.conciseHint': 'Short steps without introductions.',
+  'mix.pure': 'Answer language only',
+  'mix.pureHint': 'Everything in the selected language.',
+  'mix.terms': 'English terms',
+  'mix.termsHint': 'Technical terms kept in English, as printed in the textbook.',
+  'mix.bilingual': 'Bilingual',
+  'mix.bilingualHint': 'Key definitions and formulas also given in English.',
+  'scope.syllabus': 'Syllabus only',
+  'scope.syllabusHint': 'Stays within the Sindh Board syllabus.',
+  'scope.extended': 'Beyond the syllabus',
+  'scope.extendedHint': 'Goes further when asked, marking what is not in the syllabus.',
+
+  'error.missing-key': 'The tutor is not configured with an API key. Please tell your teacher.',
+  'error.quota': 'The tutor has reached its usage limit. Please try again later.',
+  'error.offline': 'You appear to be offline. Check your connection and try again.',
+  'error.safety': 'This request was blocked by the safety filter. Try rephrasing your question.',
+  'error.malformed-json': 'The tutor sent back an answer it could not read. Please try again.',
+  'error.storage': 'This device could not save your question. Free up some space, or try again once you are back online.',
+  'error.unknown': 'Something went wrong while contacting the tutor.',
+
+  'mic.nothingHeard': "Didn't catch that. Hold the mic button while you speak.",
+  'mic.blocked': 'Microphone access was blocked. Allow it in your browser settings to speak your question.',
+  'mic.hold': 'Hold to speak',
+  'mic.release': 'Release to transcribe',
+
+  'readAloud.read': 'Read aloud',
+  'readAloud.pause': 'Pause',
+  'readAloud.resume': 'Resume',
+  'readAloud.stop': 'Stop',
+  'readAloud.noVoice': 'No {lang} voice installed; using the default',
+  'readAloud.voice': '{lang} voice',
+
+  'sources.trusted': 'Trusted',
+  'sources.untrusted': 'Untrusted',
+  'sources.unverified': 'Unverified',
+  'sources.flaggedOne': 'Part of this answer comes from a site you marked untrusted. Check it against your textbook.',
+  'sources.flaggedMany': 'Part of this answer comes from sites you marked untrusted. Check it against your textbook.',
+  'sources.countOne': '{count} source',
+  'sources.countMany': '{count} sources',
+  'sources.trustedCount': '{count} trusted',
+  'sources.unknownSite': 'unknown site',
+  'sources.trust': 'Trust',
+  'sources.flag': 'Flag',
+  'sources.edit': 'Edit trusted sites',
+  'sources.domainPlaceholder': 'e.g. stbb.edu.pk',
+  'sources.sheetTitle': 'Trusted sites',
+  'sources.prefer': 'Prefer',
+  'sources.preferHint': 'The tutor is asked to search these first. A site also covers its subdomains, so gov.pk includes sindh.gov.pk.',
+  'sources.untrustedHint': 'Answers that use these sites are flagged.',
+  'sources.reset': 'Reset to defaults',
+
+  'export.title': 'Export notes',
+  'export.selected': '{selected} of {total} answers',
+  'export.selectNone': 'Select none',
+  'export.selectAll': 'Select all',
+  'export.photoQuestion': 'Photo question',
+  'export.print': 'Print / PDF',
+  'export.markdown': 'Markdown',
+  'export.threadFile': 'Thread file',
+  'export.threadFileHint': 'Whole thread, for opening on another device',
+  'export.studyNotes': 'Study notes',
+  'export.sources': 'Sources',
+  'export.answerN': 'Answer {n}',
+
+  'history.viewTitle': '{view} history',
+  'history.import': 'Import',
+  'history.importHint': 'Open a thread file',
+  'history.importFailed': 'Could not import this file. Choose a thread file exported from SigNify.',
+  'history.renameFailed': 'Could not rename this conversation.',
+  'history.deleteFailed': 'Could not delete this conversation.',
+  'history.confirmDelete': 'Delete this conversation?',
+  'history.search': 'Search old conversations...',
+  'history.noMatches': 'No matching conversations.',
+  'history.empty': 'No saved conversations yet.',
+  'history.rename': 'Rename',
+  'history.delete': 'Delete',
+
+  'curriculum.chapterShort': 'Ch {number}',
+
+  'quiz.subject': 'Subject',
+  'quiz.chapter': 'Chapter',
+  'quiz.wholeSyllabus': 'Whole syllabus',
+  'quiz.questions': 'Questions',
+  'quiz.time': 'Time',
+  'quiz.minutes': '{count}m',
+  'quiz.untimed': 'Off',
+  'quiz.preparing': 'Preparing quiz...',
+  'quiz.start': 'Start quiz',
+  'quiz.taken': '{time} taken',
+  'quiz.questionShort': 'Q{n}',
+  'quiz.kind.mcq': 'MCQ',
+  'quiz.kind.blank': 'Fill in the blank',
+  'quiz.kind.short': 'Short answer',
+  'quiz.markOne': '{count} mark',
+  'quiz.marks': '{count} marks',
+  'quiz.yourAnswer': 'Your answer:',
+  'quiz.answerKey': 'Answer key:',
+  'quiz.keyPoints': 'Key points:',
+  'quiz.retake': 'Retake',
+  'quiz.new': 'New quiz',
+  'quiz.progress': 'Question {n} / {total}',
+  'quiz.blankPlaceholder': 'Type the missing word...',
+  'quiz.shortPlaceholder': 'Write your answer...',
+  'quiz.previous': 'Previous',
+  'quiz.submit': 'Submit',
+  'quiz.next': 'Next',
+
+  'progress.studyStreak': 'Study streak',
+  'progress.dayOne': 'day',
+  'progress.days': 'days',
+  'progress.streak': 'Streak',
+  'progress.daysShort': '{count}d',
+  'progress.mastery': 'Mastery',
+  'progress.quizzes': 'Quizzes',
+  'progress.questions': 'Questions',
+  'progress.exercises': 'Exercises',
+  'progress.topics': 'Topics',
+  'progress.lastDays': 'Last {count} days',
+  'progress.masteryByTopic': 'Mastery by topic',
+  'progress.nothingYet': 'Nothing studied in {subject} yet. Take a quiz to see where you stand.',
+  'progress.reviewSchedule': 'Review schedule',
+  'progress.dueNow': 'Due now',
+  'progress.dueTomorrow': 'Tomorrow',
+  'progress.dueIn': 'In {count} days',
+  'progress.reviewed': 'reviewed {count}×',
+  'progress.review': 'Review',
+
+  'drill.title': 'Drill',
+  'drill.kind.tense': 'Tenses',
+  'drill.kind.voice': 'Active / Passive',
+  'drill.kind.narration': 'Direct / Indirect',
+  'drill.kind.urdu': 'Urdu grammar',
+  'drill.kind.sindhi': 'Sindhi grammar',
+  'drill.rules': 'Rules',
+  'drill.pickWeakest': 'Pick weakest',
+  'drill.selected': '{count} selected.',
+  'drill.noneSelected': 'None selected: the drill mixes all {count} rules.',
+  'drill.sentences': 'Sentences',
+  'drill.preparing': 'Preparing drill...',
+  'drill.start': 'Start drill',
+  'drill.missed': 'Rules to practise again:',
+  'drill.allCorrect': 'Every sentence correct.',
+  'drill.chooseRules': 'Choose rules',
+  'drill.preparingShort': 'Preparing...',
+  'drill.practiseThese': 'Practise these',
+  'drill.new': 'New drill',
+  'drill.progress': 'Sentence {n} / {total}',
+  'drill.correct': 'Correct',
+  'drill.nearly': 'Nearly there',
+  'drill.notQuite': 'Not quite',
+  'drill.missingWord': '(missing)',
+  'drill.corrected': 'Corrected:',
+  'drill.placeholder': 'Write the new sentence...',
+  'drill.finish': 'Finish',
+  'drill.next': 'Next sentence',
+  'drill.checking': 'Checking...',
+  'drill.check': 'Check',
+
+  'teacher.importFailed': 'Could not import this file. Choose a submission file exported from SigNify.',
+  'teacher.confirmDelete': 'Delete "{title}" and its submissions?',
+  'teacher.untitled': 'Untitled assignment',
+  'teacher.new': 'New assignment',
+  'teacher.import': 'Import submission',
+  'teacher.yours': 'Your assignments',
+  'teacher.empty': 'No assignments yet. Write one and share its link with your students.',
+  'teacher.questionOne': '{count} question',
+  'teacher.questionCount': '{count} questions',
+  'teacher.share': 'Share',
+  'teacher.submissions': 'Submissions',
+  'teacher.edit': 'Edit',
+  'teacher.defaultTitle': '{subject} assignment',
+  'teacher.title': 'Title',
+  'teacher.titlePlaceholder': 'e.g. Motion, weekend homework',
+  'teacher.questionN': 'Question {n}',
+  'teacher.questionPlaceholder': 'Question',
+  'teacher.answerKeyPlaceholder': 'Answer key (optional, only you see it)',
+  'teacher.addQuestion': 'Add question',
+  'teacher.cancel': 'Cancel',
+  'teacher.saveAndShare': 'Save & share',
+  'teacher.tooLongForQr': 'Too long for a QR code. Send the link instead, or split the assignment.',
+  'teacher.includeKey': 'Include the answer key (students will be able to see it)',
+  'teacher.shareLink': 'Share link',
+  'teacher.done': 'Done',
+  'teacher.assignments': 'Assignments',
+  'teacher.noSubmissions': 'No submissions yet. Import the files your students send you.',
+  'teacher.answered': '{n}/{total} answered',
+  'teacher.correctCount': '{n}/{total} correct',
+  'teacher.markedCorrect': '{n}/{total} marked correct',
+  'teacher.student': 'Student',
+  'teacher.noAnswer': 'No answer',
+  'teacher.answerKey': 'Answer key',
+  'teacher.needsWork': 'Needs work',
+
+  'assignment.linkDamaged': 'This assignment link is damaged or incomplete. Ask your tutor to send it again.',
+  'assignment.label': 'Assignment',
+  'assignment.changeAnswer': 'Change answer',
+  'assignment.allAnswered': 'All questions answered. Send the file to your tutor.',
+  'assignment.yourName': 'Your name',
+  'assignment.downloadAgain': 'Download again',
+  'assignment.download': 'Download submission',
+  'assignment.changePlaceholder': 'Change your answer...',
+
+  'document.wrongType': 'Choose a .txt or .md file.',
+  'document.tooLarge': 'That file is too large. Split it into chapters and translate them one at a time.',
+  'document.placeholder': 'Paste a passage, a letter or a chapter section...',
+  'document.open': 'Open .txt / .md',
+  'document.translate': 'Translate',
+  'document.editText': 'Edit text',
+  'document.failedOne': '{count} sentence could not be translated.',
+  'document.failedMany': '{count} sentences could not be translated.',
+  'document.stopped': 'Translation was stopped before the end.',
+  'document.continue': 'Continue',
+  'document.original': 'Original',
+  'document.notTranslated': 'Not translated',
+  'document.failed': 'Failed',
+  'document.breakingDown': 'Breaking the sentence down...',
+
+  'translation.title': 'Translation',
+  'translation.breakdown': 'Breakdown',
+  'translation.glossary': 'Glossary',
+  'translation.save': 'Save to glossary',
+  'translation.unsave': 'Remove from glossary',
+
+  'curriculum.unavailable': 'Chapter list unavailable. You can still type your question below.',
+  'curriculum.noChapters': 'No chapters listed for {subject} yet.',
+  'curriculum.chapterSummary': 'Chapter summary',
+  'curriculum.topicNotes': 'Topic notes',
+
+  'vocab.tapToShow': 'Tap to show the meaning',
+  'vocab.doneOne': 'Done for today: {count} card reviewed.',
+  'vocab.doneMany': 'Done for today: {count} cards reviewed.',
+  'vocab.noneDue': 'No words due. Come back tomorrow.',
+  'vocab.empty': 'Save words from the translator breakdown to practise them here.',
+  'vocab.search': 'Search saved words...',
+
+  'diagrams.fallbackTitle': 'Diagram',
+  'diagrams.labels': 'Labels:',
+  'diagrams.unavailable': 'The picture is not available. Follow the description in the answer.',
+
+  'about.creatorTitle': 'About the creator',
+  'about.creatorIntro': 'SigNify AI is developed by {name}, a private teacher at a tuition centre.',
+  'about.creatorSubjects': 'He teaches Physics, Chemistry, Biology, Mathematics, English, Sindhi and Urdu for Class X (Sindh Textbook Board, Jamshoro).',
+  'about.purposeTitle': 'Purpose of the app',
+  'about.purposeExplain': 'Explaining lessons in simple language.',
+  'about.purposeExercises': 'Providing solved exercises and practice problems.',
+  'about.purposeDiagrams': 'Showing diagrams, models and examples for better understanding.',
+  'about.purposeSubjects': 'Guiding in Physics, Chemistry, Biology, Mathematics, English, Urdu and Sindhi.',
+  'contact.intro': 'If you are using SigNify AI, you are welcome to share your feedback with Sike so the app can better fit your learning needs.',
+  'contact.email': 'Email',
+  'contact.social': 'Social',
+};
+
+export type MessageKey = keyof typeof en;
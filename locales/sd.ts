@@ -0,0 +1,368 @@
+import { MessageKey } from './en';
+
+export const sd: Record<MessageKey, string> = {
+  'nav.back': 'واپس',
+  'network.offline': 'آف لائن',
+  'network.sending': '{count} موڪليا پيا وڃن',
+  'network.queued': '{count} قطار ۾',
+  'common.history': 'تاريخ',
+  'common.retry': 'ٻيهر ڪوشش ڪريو',
+  'common.remove': 'هٽايو',
+  'common.save': 'محفوظ ڪريو',
+  'common.none': 'ڪوبه نه',
+  'common.add': 'شامل ڪريو',
+
+  'view.dashboard': 'گهر',
+  'view.qa': 'اي آءِ ٽيوٽر',
+  'view.books': 'حل ٿيل',
+  'view.practical': 'عملي',
+  'view.translator': 'ترجمو',
+  'view.grammar': 'گرامر',
+  'view.quiz': 'ڪوئز',
+  'view.progress': 'ترقي',
+  'view.teacher': 'استاد',
+  'view.assignment': 'اسائنمينٽ',
+  'view.vocabulary': 'لغت',
+  'view.about': 'تعارف',
+  'view.contact': 'رابطو',
+  'view.settings': 'سيٽنگون',
+
+  'subject.Physics': 'فزڪس',
+  'subject.Chemistry': 'ڪيمسٽري',
+  'subject.Math': 'رياضي',
+  'subject.Bio': 'حياتيات',
+  'subject.English': 'انگريزي',
+  'subject.Urdu': 'اردو',
+  'subject.Sindhi': 'سنڌي',
+
+  'lang.English': 'انگريزي',
+  'lang.Urdu': 'اردو',
+  'lang.Sindhi': 'سنڌي',
+
+  'dashboard.tagline': 'سنڌ بورڊ پڙهائي ٽيوٽر',
+  'dashboard.qaDesc': 'تصوراتي سوال جواب',
+  'dashboard.booksDesc': 'مشقون',
+  'dashboard.practicalDesc': 'خاڪا ۽ تجربا',
+  'dashboard.translatorDesc': '3 ٻوليون',
+  'dashboard.wordsDue': '{count} لفظ باقي',
+  'dashboard.grammarDesc': 'قاعدا ۽ مشقون',
+  'dashboard.quizDesc': 'ايم سي ڪيو مشق',
+  'dashboard.progressDesc': 'تسلسل',
+  'dashboard.cardsDue': '{count} باقي',
+  'dashboard.dueForReview': 'ورجائڻ لاءِ',
+  'dashboard.assignments': 'اسائنمينٽس',
+  'dashboard.questionCount': '{count} سوال',
+  'dashboard.teacherMode': 'استاد موڊ',
+  'dashboard.poweredBy': 'Gemini 2.5 Flash جي مدد سان',
+  'dashboard.developedBy': 'ٺاهيندڙ: سائيڪ علي',
+
+  'review.prompt': 'توهان کي ڪيترو چڱيءَ طرح ياد رهيو؟',
+  'grade.again': 'ٻيهر',
+  'grade.hard': 'ڏکيو',
+  'grade.good': 'سٺو',
+  'grade.easy': 'آسان',
+
+  'mode.sentence': 'جملو',
+  'mode.document': 'دستاويز',
+  'mode.ask': 'پڇو',
+  'mode.drills': 'مشقون',
+
+  'chat.newChat': 'نئين ڳالهه ٻولهه',
+  'chat.export': 'نوٽس ايڪسپورٽ ڪريو',
+  'chat.translatePlaceholder': 'ترجمي لاءِ متن...',
+  'chat.grammarPlaceholder': 'گرامر جو سوال پڇو...',
+  'chat.practicalPlaceholder': '{subject} جو ڪو خاڪو يا تجربو پڇو...',
+  'chat.askPlaceholder': '{subject} بابت پڇو...',
+  'chat.photoUnreadable': 'هي تصوير پڙهي نه سگهجي. ٻي تصوير آزمايو.',
+  'chat.photoToSend': 'موڪلڻ لاءِ تصوير',
+  'chat.removePhoto': 'تصوير هٽايو',
+  'chat.takePhoto': 'تصوير ڪڍو',
+  'chat.attachPhoto': 'گيلري مان شامل ڪريو',
+  'chat.stop': 'جواب روڪيو',
+  'chat.send': 'موڪليو',
+
+  'message.queued': 'قطار ۾ آهي. آن لائن ٿيندي ئي ان جو جواب ڏنو ويندو.',
+  'message.copy': 'ڪاپي',
+  'message.copied': 'ڪاپي ٿي ويو',
+  'message.regenerate': 'ٻيهر ٺاهيو',
+  'message.attachedPhoto': 'شامل ڪيل تصوير',
+
+  'books.chapters': 'باب',
+  'diagrams.title': '{subject} جا خاڪا',
+  'diagrams.empty': 'لائبريري ۾ اڃا {subject} جا خاڪا ناهن. توهان هيٺ سوال پڇي سگهو ٿا.',
+
+  'settings.defaultSubject': 'بنيادي مضمون',
+  'settings.answerLang': 'جواب جي ٻولي',
+  'settings.uiLang': 'ايپ جي ٻولي',
+  'settings.theme': 'ٿيم',
+  'settings.textSize': 'متن جي ماپ',
+  'settings.data': 'ڊيٽا',
+  'settings.dataSaver': 'ڊيٽا جي بچت',
+  'settings.dataSaverHint': 'ويب ڳولا کان سواءِ جواب، ته جيئن هر سوال تي گهٽ ڊيٽا خرچ ٿئي.',
+  'settings.grounding': 'گوگل سرچ سان تصديق',
+  'settings.groundingHint': 'اي آءِ ٽيوٽر، حل ٿيل ۽ عملي جا جواب ويب تي ڳولي پنهنجا ذريعا ٻڌائين ٿا.',
+  'settings.tone': 'ٽيوٽر جو انداز',
+  'settings.languageMix': 'ٻوليءَ جو ميلاپ',
+  'settings.scope': 'نصاب جو دائرو',
+  'settings.promptVersions': 'پرامپٽ ورزن: {list}',
+  'theme.dark': 'اونداهو',
+  'theme.light': 'روشن',
+  'textSize.small': 'ننڍو',
+  'textSize.medium': 'وچولو',
+  'textSize.large': 'وڏو',
+  'tone.friendly': 'دوستاڻو',
+  'tone.friendlyHint': 'گرمجوش ۽ همت افزائي ڪندڙ، هڪ صبر واري استاد جيان.',
+  'tone.formal': 'رسمي',
+  'tone.formalHint': 'امتحان تي ڌيان، بورڊ جي پرچن جي انداز ۾.',
+  'tone.concise': 'مختصر',
+  'tone.conciseHint': 'تمهيد کان سواءِ مختصر مرحلا.',
+  'mix.pure': 'رڳو جواب جي ٻولي',
+  'mix.pureHint': 'سڀ ڪجهه چونڊيل ٻوليءَ ۾.',
+  'mix.terms': 'انگريزي اصطلاحون',
+  'mix.termsHint': 'فني اصطلاحون انگريزي ۾، جيئن درسي ڪتاب ۾ ڇپيل آهن.',
+  'mix.bilingual': 'ٻه ٻوليون',
+  'mix.bilingualHint': 'اهم وصفون ۽ فارمولا انگريزي ۾ به.',
+  'scope.syllabus': 'رڳو نصاب',
+  'scope.syllabusHint': 'سنڌ بورڊ جي نصاب تائين محدود.',
+  'scope.extended': 'نصاب کان اڳتي',
+  'scope.extendedHint': 'پڇڻ تي اڳتي وڃي ٿو ۽ ٻڌائي ٿو ته ڇا نصاب ۾ شامل ناهي.',
+
+  'error.missing-key': 'ٽيوٽر ۾ API ڪنجي سيٽ ناهي. مهرباني ڪري پنهنجي استاد کي ٻڌايو.',
+  'error.quota': 'ٽيوٽر پنهنجي استعمال جي حد تائين پهچي ويو آهي. مهرباني ڪري ڪجهه دير کانپوءِ ٻيهر ڪوشش ڪريو.',
+  'error.offline': 'لڳي ٿو توهان آف لائن آهيو. پنهنجو ڪنيڪشن چيڪ ڪري ٻيهر ڪوشش ڪريو.',
+  'error.safety': 'هي درخواست حفاظتي فلٽر روڪي ڇڏي. پنهنجو سوال ٻين لفظن ۾ پڇو.',
+  'error.malformed-json': 'ٽيوٽر جو جواب پڙهي نه سگهجيو. مهرباني ڪري ٻيهر ڪوشش ڪريو.',
+  'error.storage': 'هي ڊوائيس توهان جو سوال محفوظ نه ڪري سگهي. ڪجهه جاءِ خالي ڪريو، يا آن لائن ٿيڻ تي ٻيهر ڪوشش ڪريو.',
+  'error.unknown': 'ٽيوٽر سان رابطي ۾ ڪا گڙٻڙ ٿي وئي.',
+
+  'mic.nothingHeard': 'آواز ٻڌڻ ۾ نه آيو. ڳالهائڻ وقت مائڪ جو بٽڻ دٻائي رکو.',
+  'mic.blocked': 'مائڪروفون تائين رسائي روڪي وئي آهي. سوال ڳالهائي پڇڻ لاءِ برائوزر جي سيٽنگن ۾ اجازت ڏيو.',
+  'mic.hold': 'ڳالهائڻ لاءِ دٻائي رکو',
+  'mic.release': 'لکڻ لاءِ ڇڏي ڏيو',
+
+  'readAloud.read': 'وڏي آواز ۾ پڙهو',
+  'readAloud.pause': 'روڪيو',
+  'readAloud.resume': 'جاري رکو',
+  'readAloud.stop': 'بند ڪريو',
+  'readAloud.noVoice': '{lang} جو ڪو آواز انسٽال ناهي؛ ڊفالٽ آواز استعمال ٿي رهيو آهي',
+  'readAloud.voice': '{lang} آواز',
+
+  'sources.trusted': 'ڀروسي جوڳو',
+  'sources.untrusted': 'ناقابلِ ڀروسو',
+  'sources.unverified': 'اڻ تصديق ٿيل',
+  'sources.flaggedOne': 'هن جواب جو ڪجهه حصو اهڙي سائيٽ تان آهي جنهن کي توهان ناقابلِ ڀروسو قرار ڏنو آهي. ان کي پنهنجي درسي ڪتاب سان ڀيٽيو.',
+  'sources.flaggedMany': 'هن جواب جو ڪجهه حصو اهڙين سائيٽن تان آهي جن کي توهان ناقابلِ ڀروسو قرار ڏنو آهي. ان کي پنهنجي درسي ڪتاب سان ڀيٽيو.',
+  'sources.countOne': '{count} ذريعو',
+  'sources.countMany': '{count} ذريعا',
+  'sources.trustedCount': '{count} ڀروسي جوڳا',
+  'sources.unknownSite': 'اڻڄاتل سائيٽ',
+  'sources.trust': 'ڀروسو ڪريو',
+  'sources.flag': 'نشان لڳايو',
+  'sources.edit': 'ڀروسي جوڳين سائيٽن ۾ ترميم',
+  'sources.domainPlaceholder': 'مثال طور stbb.edu.pk',
+  'sources.sheetTitle': 'ڀروسي جوڳيون سائيٽون',
+  'sources.prefer': 'ترجيح',
+  'sources.preferHint': 'ٽيوٽر کي پهرين انهن ۾ ڳولڻ لاءِ چيو ويندو آهي. ڪنهن سائيٽ ۾ ان جا ذيلي ڊومين به شامل آهن، تنهن ڪري gov.pk ۾ sindh.gov.pk به اچي ٿو.',
+  'sources.untrustedHint': 'جيڪي جواب انهن سائيٽن کي استعمال ڪن ٿا انهن تي نشان لڳي ٿو.',
+  'sources.reset': 'ڊفالٽ تي واپس آڻيو',
+
+  'export.title': 'نوٽس ايڪسپورٽ ڪريو',
+  'export.selected': '{total} مان {selected} جواب',
+  'export.selectNone': 'ڪو به نه چونڊيو',
+  'export.selectAll': 'سڀ چونڊيو',
+  'export.photoQuestion': 'تصويري سوال',
+  'export.print': 'پرنٽ / PDF',
+  'export.markdown': 'Markdown',
+  'export.threadFile': 'ڳالهه ٻولهه جي فائل',
+  'export.threadFileHint': 'سڄي ڳالهه ٻولهه، ٻئي ڊوائيس تي کولڻ لاءِ',
+  'export.studyNotes': 'پڙهائي جا نوٽس',
+  'export.sources': 'ذريعا',
+  'export.answerN': 'جواب {n}',
+
+  'history.viewTitle': '{view} جي هسٽري',
+  'history.import': 'امپورٽ',
+  'history.importHint': 'ڳالهه ٻولهه جي فائل کوليو',
+  'history.importFailed': 'هي فائل امپورٽ نه ٿي سگهي. SigNify مان ايڪسپورٽ ڪيل ڳالهه ٻولهه جي فائل چونڊيو.',
+  'history.renameFailed': 'هن ڳالهه ٻولهه جو نالو مٽائي نه سگهيو.',
+  'history.deleteFailed': 'هي ڳالهه ٻولهه ختم نه ٿي سگهي.',
+  'history.confirmDelete': 'هي ڳالهه ٻولهه ختم ڪريو؟',
+  'history.search': 'پراڻي ڳالهه ٻولهه ڳوليو...',
+  'history.noMatches': 'ڪا به ملندڙ ڳالهه ٻولهه نه ملي.',
+  'history.empty': 'اڃا ڪا به محفوظ ڳالهه ٻولهه ناهي.',
+  'history.rename': 'نالو مٽايو',
+  'history.delete': 'ختم ڪريو',
+
+  'curriculum.chapterShort': 'باب {number}',
+
+  'quiz.subject': 'مضمون',
+  'quiz.chapter': 'باب',
+  'quiz.wholeSyllabus': 'سڄو نصاب',
+  'quiz.questions': 'سوال',
+  'quiz.time': 'وقت',
+  'quiz.minutes': '{count} منٽ',
+  'quiz.untimed': 'بند',
+  'quiz.preparing': 'ڪوئز تيار ٿي رهيو آهي...',
+  'quiz.start': 'ڪوئز شروع ڪريو',
+  'quiz.taken': '{time} لڳا',
+  'quiz.questionShort': 'س{n}',
+  'quiz.kind.mcq': 'گهڻ-چونڊ',
+  'quiz.kind.blank': 'خالي جاءِ ڀريو',
+  'quiz.kind.short': 'مختصر جواب',
+  'quiz.markOne': '{count} نمبر',
+  'quiz.marks': '{count} نمبر',
+  'quiz.yourAnswer': 'توهان جو جواب:',
+  'quiz.answerKey': 'صحيح جواب:',
+  'quiz.keyPoints': 'اهم نقطا:',
+  'quiz.retake': 'ٻيهر ڏيو',
+  'quiz.new': 'نئون ڪوئز',
+  'quiz.progress': 'سوال {n} / {total}',
+  'quiz.blankPlaceholder': 'غائب لفظ لکو...',
+  'quiz.shortPlaceholder': 'پنهنجو جواب لکو...',
+  'quiz.previous': 'پويون',
+  'quiz.submit': 'جمع ڪرايو',
+  'quiz.next': 'اڳيون',
+
+  'progress.studyStreak': 'پڙهائي جو تسلسل',
+  'progress.dayOne': 'ڏينهن',
+  'progress.days': 'ڏينهن',
+  'progress.streak': 'تسلسل',
+  'progress.daysShort': '{count} ڏينهن',
+  'progress.mastery': 'مهارت',
+  'progress.quizzes': 'ڪوئز',
+  'progress.questions': 'سوال',
+  'progress.exercises': 'مشقون',
+  'progress.topics': 'موضوع',
+  'progress.lastDays': 'پويان {count} ڏينهن',
+  'progress.masteryByTopic': 'موضوع موجب مهارت',
+  'progress.nothingYet': '{subject} ۾ اڃا ڪجهه به نه پڙهيو ويو. پنهنجي سطح ڄاڻڻ لاءِ ڪوئز ڏيو.',
+  'progress.reviewSchedule': 'ورجاءُ جو شيڊول',
+  'progress.dueNow': 'هاڻي',
+  'progress.dueTomorrow': 'سڀاڻي',
+  'progress.dueIn': '{count} ڏينهن ۾',
+  'progress.reviewed': '{count} ڀيرا ورجايو',
+  'progress.review': 'ورجايو',
+
+  'drill.title': 'مشق',
+  'drill.kind.tense': 'زمانا',
+  'drill.kind.voice': 'معروف / مجهول',
+  'drill.kind.narration': 'سڌو / اڻسڌو',
+  'drill.kind.urdu': 'اردو گرامر',
+  'drill.kind.sindhi': 'سنڌي گرامر',
+  'drill.rules': 'قاعدا',
+  'drill.pickWeakest': 'سڀ کان ڪمزور چونڊيو',
+  'drill.selected': '{count} چونڊيل.',
+  'drill.noneSelected': 'ڪو به چونڊيل ناهي: مشق ۾ سڀ {count} قاعدا شامل هوندا.',
+  'drill.sentences': 'جملا',
+  'drill.preparing': 'مشق تيار ٿي رهي آهي...',
+  'drill.start': 'مشق شروع ڪريو',
+  'drill.missed': 'ٻيهر مشق لاءِ قاعدا:',
+  'drill.allCorrect': 'هر جملو صحيح آهي.',
+  'drill.chooseRules': 'قاعدا چونڊيو',
+  'drill.preparingShort': 'تيار ٿي رهي آهي...',
+  'drill.practiseThese': 'انهن جي مشق ڪريو',
+  'drill.new': 'نئين مشق',
+  'drill.progress': 'جملو {n} / {total}',
+  'drill.correct': 'صحيح',
+  'drill.nearly': 'لڳ ڀڳ صحيح',
+  'drill.notQuite': 'پوري طرح صحيح ناهي',
+  'drill.missingWord': '(غائب)',
+  'drill.corrected': 'درست جملو:',
+  'drill.placeholder': 'نئون جملو لکو...',
+  'drill.finish': 'پورو ڪريو',
+  'drill.next': 'ايندڙ جملو',
+  'drill.checking': 'جانچ ٿي رهي آهي...',
+  'drill.check': 'جانچيو',
+
+  'teacher.importFailed': 'هي فائل امپورٽ نه ٿي سگهي. SigNify مان ايڪسپورٽ ڪيل جمع ٿيل فائل چونڊيو.',
+  'teacher.confirmDelete': '"{title}" ۽ ان جا جمع ٿيل جواب ختم ڪريو؟',
+  'teacher.untitled': 'بنا عنوان اسائنمينٽ',
+  'teacher.new': 'نئون اسائنمينٽ',
+  'teacher.import': 'جمع ٿيل ڪم امپورٽ ڪريو',
+  'teacher.yours': 'توهان جا اسائنمينٽ',
+  'teacher.empty': 'اڃا ڪو به اسائنمينٽ ناهي. هڪ لکو ۽ ان جي لنڪ پنهنجن شاگردن کي موڪليو.',
+  'teacher.questionOne': '{count} سوال',
+  'teacher.questionCount': '{count} سوال',
+  'teacher.share': 'شيئر ڪريو',
+  'teacher.submissions': 'جمع ٿيل ڪم',
+  'teacher.edit': 'ترميم',
+  'teacher.defaultTitle': '{subject} اسائنمينٽ',
+  'teacher.title': 'عنوان',
+  'teacher.titlePlaceholder': 'مثال طور حرڪت، هفتيوار گهر جو ڪم',
+  'teacher.questionN': 'سوال {n}',
+  'teacher.questionPlaceholder': 'سوال',
+  'teacher.answerKeyPlaceholder': 'صحيح جواب (اختياري، رڳو توهان ڏسي سگهو ٿا)',
+  'teacher.addQuestion': 'سوال شامل ڪريو',
+  'teacher.cancel': 'منسوخ ڪريو',
+  'teacher.saveAndShare': 'محفوظ ڪريو ۽ شيئر ڪريو',
+  'teacher.tooLongForQr': 'QR ڪوڊ لاءِ تمام ڊگهو آهي. ان جي بدران لنڪ موڪليو يا اسائنمينٽ ورهايو.',
+  'teacher.includeKey': 'صحيح جواب شامل ڪريو (شاگرد انهن کي ڏسي سگهندا)',
+  'teacher.shareLink': 'لنڪ شيئر ڪريو',
+  'teacher.done': 'مڪمل',
+  'teacher.assignments': 'اسائنمينٽ',
+  'teacher.noSubmissions': 'اڃا ڪجهه به جمع نه ٿيو. شاگردن پاران موڪليل فائلون امپورٽ ڪريو.',
+  'teacher.answered': '{total} مان {n} جا جواب',
+  'teacher.correctCount': '{total} مان {n} صحيح',
+  'teacher.markedCorrect': '{total} مان {n} صحيح قرار',
+  'teacher.student': 'شاگرد',
+  'teacher.noAnswer': 'ڪو جواب ناهي',
+  'teacher.answerKey': 'صحيح جواب',
+  'teacher.needsWork': 'وڌيڪ محنت گهربل',
+
+  'assignment.linkDamaged': 'اسائنمينٽ جي هيءَ لنڪ خراب يا اڻپوري آهي. پنهنجي استاد کي ٻيهر موڪلڻ لاءِ چئو.',
+  'assignment.label': 'اسائنمينٽ',
+  'assignment.changeAnswer': 'جواب بدلايو',
+  'assignment.allAnswered': 'سڀني سوالن جا جواب ٿي ويا. فائل پنهنجي استاد کي موڪليو.',
+  'assignment.yourName': 'توهان جو نالو',
+  'assignment.downloadAgain': 'ٻيهر ڊائونلوڊ ڪريو',
+  'assignment.download': 'جمع ٿيل ڪم ڊائونلوڊ ڪريو',
+  'assignment.changePlaceholder': 'پنهنجو جواب بدلايو...',
+
+  'document.wrongType': '‎.txt يا ‎.md فائل چونڊيو.',
+  'document.tooLarge': 'هيءَ فائل تمام وڏي آهي. ان کي بابن ۾ ورهائي هڪ هڪ ڪري ترجمو ڪريو.',
+  'document.placeholder': 'ڪو اقتباس، خط يا باب جو حصو هتي چنبڙايو...',
+  'document.open': '‎.txt / ‎.md کوليو',
+  'document.translate': 'ترجمو ڪريو',
+  'document.editText': 'متن ۾ ترميم',
+  'document.failedOne': '{count} جملي جو ترجمو نه ٿي سگهيو.',
+  'document.failedMany': '{count} جملن جو ترجمو نه ٿي سگهيو.',
+  'document.stopped': 'ترجمو پورو ٿيڻ کان اڳ روڪيو ويو.',
+  'document.continue': 'جاري رکو',
+  'document.original': 'اصل',
+  'document.notTranslated': 'ترجمو نه ٿيو',
+  'document.failed': 'ناڪام',
+  'document.breakingDown': 'جملي جو تجزيو ٿي رهيو آهي...',
+
+  'translation.title': 'ترجمو',
+  'translation.breakdown': 'لفظ به لفظ',
+  'translation.glossary': 'لغت',
+  'translation.save': 'لغت ۾ محفوظ ڪريو',
+  'translation.unsave': 'لغت مان هٽايو',
+
+  'curriculum.unavailable': 'بابن جي فهرست موجود ناهي. توهان اڃا به هيٺ پنهنجو سوال لکي سگهو ٿا.',
+  'curriculum.noChapters': '{subject} جا باب اڃا درج ناهن.',
+  'curriculum.chapterSummary': 'باب جو خلاصو',
+  'curriculum.topicNotes': 'موضوع جا نوٽس',
+
+  'vocab.tapToShow': 'معنيٰ ڏسڻ لاءِ ٽيپ ڪريو',
+  'vocab.doneOne': 'اڄ لاءِ مڪمل: {count} ڪارڊ ورجايو ويو.',
+  'vocab.doneMany': 'اڄ لاءِ مڪمل: {count} ڪارڊ ورجايا ويا.',
+  'vocab.noneDue': 'هن وقت ڪو لفظ باقي ناهي. سڀاڻي ٻيهر اچو.',
+  'vocab.empty': 'مترجم جي لفظ به لفظ حصي مان لفظ محفوظ ڪريو ته جيئن هتي انهن جي مشق ڪري سگهو.',
+  'vocab.search': 'محفوظ لفظ ڳوليو...',
+
+  'diagrams.fallbackTitle': 'خاڪو',
+  'diagrams.labels': 'ليبل:',
+  'diagrams.unavailable': 'تصوير موجود ناهي. جواب ۾ ڏنل وضاحت ڏسو.',
+
+  'about.creatorTitle': 'ٺاهيندڙ بابت',
+  'about.creatorIntro': 'SigNify AI کي {name} تيار ڪيو آهي، جيڪو هڪ ٽيوشن سينٽر ۾ خانگي استاد آهي.',
+  'about.creatorSubjects': 'هو ڏهين درجي (سنڌ ٽيڪسٽ بڪ بورڊ، ڄامشورو) لاءِ فزڪس، ڪيمسٽري، بائيالاجي، رياضي، انگريزي، سنڌي ۽ اردو پڙهائي ٿو.',
+  'about.purposeTitle': 'ايپ جو مقصد',
+  'about.purposeExplain': 'سبقن کي سولي ٻولي ۾ سمجهائڻ.',
+  'about.purposeExercises': 'حل ٿيل مشقون ۽ مشق جا سوال مهيا ڪرڻ.',
+  'about.purposeDiagrams': 'بهتر سمجهه لاءِ خاڪا، ماڊل ۽ مثال ڏيکارڻ.',
+  'about.purposeSubjects': 'فزڪس، ڪيمسٽري، بائيالاجي، رياضي، انگريزي، اردو ۽ سنڌي ۾ رهنمائي.',
+  'contact.intro': 'جيڪڏهن توهان SigNify AI استعمال ڪري رهيا آهيو ته پنهنجي راءِ Sike کي ضرور موڪليو ته جيئن ايپ توهان جي تعليمي ضرورتن مطابق بهتر ٿي سگهي.',
+  'contact.email': 'اي ميل',
+  'contact.social': 'سوشل ميڊيا',
+};
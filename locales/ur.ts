@@ -0,0 +1,368 @@
+import { MessageKey } from './en';
+
+export const ur: Record<MessageKey, string> = {
+  'nav.back': 'واپس',
+  'network.offline': 'آف لائن',
+  'network.sending': '{count} بھیجے جا رہے ہیں',
+  'network.queued': '{count} قطار میں',
+  'common.history': 'تاریخچہ',
+  'common.retry': 'دوبارہ کوشش کریں',
+  'common.remove': 'ہٹائیں',
+  'common.save': 'محفوظ کریں',
+  'common.none': 'کوئی نہیں',
+  'common.add': 'شامل کریں',
+
+  'view.dashboard': 'ہوم',
+  'view.qa': 'اے آئی ٹیوٹر',
+  'view.books': 'حل شدہ',
+  'view.practical': 'عملی',
+  'view.translator': 'ترجمہ',
+  'view.grammar': 'گرامر',
+  'view.quiz': 'کوئز',
+  'view.progress': 'پیش رفت',
+  'view.teacher': 'استاد',
+  'view.assignment': 'اسائنمنٹ',
+  'view.vocabulary': 'فرہنگ',
+  'view.about': 'تعارف',
+  'view.contact': 'رابطہ',
+  'view.settings': 'ترتیبات',
+
+  'subject.Physics': 'طبیعیات',
+  'subject.Chemistry': 'کیمیا',
+  'subject.Math': 'ریاضی',
+  'subject.Bio': 'حیاتیات',
+  'subject.English': 'انگریزی',
+  'subject.Urdu': 'اردو',
+  'subject.Sindhi': 'سندھی',
+
+  'lang.English': 'انگریزی',
+  'lang.Urdu': 'اردو',
+  'lang.Sindhi': 'سندھی',
+
+  'dashboard.tagline': 'سندھ بورڈ اسٹڈی ٹیوٹر',
+  'dashboard.qaDesc': 'تصوراتی سوال و جواب',
+  'dashboard.booksDesc': 'مشقیں',
+  'dashboard.practicalDesc': 'خاکے اور تجربات',
+  'dashboard.translatorDesc': '3 زبانیں',
+  'dashboard.wordsDue': '{count} الفاظ باقی',
+  'dashboard.grammarDesc': 'قواعد اور مشقیں',
+  'dashboard.quizDesc': 'ایم سی کیو مشق',
+  'dashboard.progressDesc': 'تسلسل',
+  'dashboard.cardsDue': '{count} باقی',
+  'dashboard.dueForReview': 'دہرائی کے لیے',
+  'dashboard.assignments': 'اسائنمنٹس',
+  'dashboard.questionCount': '{count} سوال',
+  'dashboard.teacherMode': 'استاد موڈ',
+  'dashboard.poweredBy': 'Gemini 2.5 Flash کی مدد سے',
+  'dashboard.developedBy': 'تیار کردہ: سائیک علی',
+
+  'review.prompt': 'آپ کو کتنا اچھا یاد رہا؟',
+  'grade.again': 'دوبارہ',
+  'grade.hard': 'مشکل',
+  'grade.good': 'اچھا',
+  'grade.easy': 'آسان',
+
+  'mode.sentence': 'جملہ',
+  'mode.document': 'دستاویز',
+  'mode.ask': 'پوچھیں',
+  'mode.drills': 'مشقیں',
+
+  'chat.newChat': 'نئی گفتگو',
+  'chat.export': 'نوٹس برآمد کریں',
+  'chat.translatePlaceholder': 'ترجمے کے لیے متن...',
+  'chat.grammarPlaceholder': 'گرامر کا سوال پوچھیں...',
+  'chat.practicalPlaceholder': '{subject} کا کوئی خاکہ یا تجربہ پوچھیں...',
+  'chat.askPlaceholder': '{subject} کے بارے میں پوچھیں...',
+  'chat.photoUnreadable': 'یہ تصویر پڑھی نہیں جا سکی۔ کوئی اور تصویر آزمائیں۔',
+  'chat.photoToSend': 'بھیجنے کے لیے تصویر',
+  'chat.removePhoto': 'تصویر ہٹائیں',
+  'chat.takePhoto': 'تصویر کھینچیں',
+  'chat.attachPhoto': 'گیلری سے شامل کریں',
+  'chat.stop': 'جواب روکیں',
+  'chat.send': 'بھیجیں',
+
+  'message.queued': 'قطار میں ہے۔ آن لائن ہوتے ہی اس کا جواب دیا جائے گا۔',
+  'message.copy': 'کاپی',
+  'message.copied': 'کاپی ہو گیا',
+  'message.regenerate': 'دوبارہ بنائیں',
+  'message.attachedPhoto': 'منسلک تصویر',
+
+  'books.chapters': 'ابواب',
+  'diagrams.title': '{subject} کے خاکے',
+  'diagrams.empty': 'لائبریری میں ابھی {subject} کے خاکے نہیں ہیں۔ آپ نیچے سوال پوچھ سکتے ہیں۔',
+
+  'settings.defaultSubject': 'بنیادی مضمون',
+  'settings.answerLang': 'جواب کی زبان',
+  'settings.uiLang': 'ایپ کی زبان',
+  'settings.theme': 'تھیم',
+  'settings.textSize': 'متن کا سائز',
+  'settings.data': 'ڈیٹا',
+  'settings.dataSaver': 'ڈیٹا کی بچت',
+  'settings.dataSaverHint': 'ویب تلاش کے بغیر جواب، تاکہ ہر سوال پر کم ڈیٹا خرچ ہو۔',
+  'settings.grounding': 'گوگل سرچ سے تصدیق',
+  'settings.groundingHint': 'اے آئی ٹیوٹر، حل شدہ اور عملی کے جوابات ویب پر تلاش کر کے اپنے ذرائع بتاتے ہیں۔',
+  'settings.tone': 'ٹیوٹر کا انداز',
+  'settings.languageMix': 'زبان کا امتزاج',
+  'settings.scope': 'نصاب کا دائرہ',
+  'settings.promptVersions': 'پرامپٹ ورژن: {list}',
+  'theme.dark': 'گہرا',
+  'theme.light': 'ہلکا',
+  'textSize.small': 'چھوٹا',
+  'textSize.medium': 'درمیانہ',
+  'textSize.large': 'بڑا',
+  'tone.friendly': 'دوستانہ',
+  'tone.friendlyHint': 'گرمجوش اور حوصلہ افزا، ایک صابر استاد کی طرح۔',
+  'tone.formal': 'رسمی',
+  'tone.formalHint': 'امتحان پر مرکوز، بورڈ کے پرچوں کے انداز میں۔',
+  'tone.concise': 'مختصر',
+  'tone.conciseHint': 'تمہید کے بغیر مختصر مراحل۔',
+  'mix.pure': 'صرف جواب کی زبان',
+  'mix.pureHint': 'سب کچھ منتخب زبان میں۔',
+  'mix.terms': 'انگریزی اصطلاحات',
+  'mix.termsHint': 'تکنیکی اصطلاحات انگریزی میں، جیسے درسی کتاب میں چھپی ہیں۔',
+  'mix.bilingual': 'دو لسانی',
+  'mix.bilingualHint': 'اہم تعریفیں اور فارمولے انگریزی میں بھی۔',
+  'scope.syllabus': 'صرف نصاب',
+  'scope.syllabusHint': 'سندھ بورڈ کے نصاب تک محدود۔',
+  'scope.extended': 'نصاب سے آگے',
+  'scope.extendedHint': 'پوچھنے پر آگے بڑھتا ہے اور بتاتا ہے کہ کیا نصاب میں شامل نہیں۔',
+
+  'error.missing-key': 'ٹیوٹر میں API کلید سیٹ نہیں ہے۔ براہ کرم اپنے استاد کو بتائیں۔',
+  'error.quota': 'ٹیوٹر اپنے استعمال کی حد تک پہنچ گیا ہے۔ براہ کرم کچھ دیر بعد دوبارہ کوشش کریں۔',
+  'error.offline': 'لگتا ہے آپ آف لائن ہیں۔ اپنا کنکشن چیک کر کے دوبارہ کوشش کریں۔',
+  'error.safety': 'یہ درخواست حفاظتی فلٹر نے روک دی۔ اپنا سوال دوسرے الفاظ میں پوچھیں۔',
+  'error.malformed-json': 'ٹیوٹر کا جواب پڑھا نہیں جا سکا۔ براہ کرم دوبارہ کوشش کریں۔',
+  'error.storage': 'یہ ڈیوائس آپ کا سوال محفوظ نہیں کر سکی۔ کچھ جگہ خالی کریں، یا آن لائن ہونے پر دوبارہ کوشش کریں۔',
+  'error.unknown': 'ٹیوٹر سے رابطے میں کچھ گڑبڑ ہو گئی۔',
+
+  'mic.nothingHeard': 'آواز سنائی نہیں دی۔ بولتے وقت مائیک کا بٹن دبائے رکھیں۔',
+  'mic.blocked': 'مائیکروفون تک رسائی روک دی گئی ہے۔ سوال بول کر پوچھنے کے لیے براؤزر کی سیٹنگز میں اجازت دیں۔',
+  'mic.hold': 'بولنے کے لیے دبائے رکھیں',
+  'mic.release': 'لکھنے کے لیے چھوڑ دیں',
+
+  'readAloud.read': 'بلند آواز میں پڑھیں',
+  'readAloud.pause': 'روکیں',
+  'readAloud.resume': 'جاری رکیں',
+  'readAloud.stop': 'بند کریں',
+  'readAloud.noVoice': '{lang} کی کوئی آواز انسٹال نہیں؛ ڈیفالٹ آواز استعمال ہو رہی ہے',
+  'readAloud.voice': '{lang} آواز',
+
+  'sources.trusted': 'قابلِ اعتماد',
+  'sources.untrusted': 'ناقابلِ اعتماد',
+  'sources.unverified': 'غیر تصدیق شدہ',
+  'sources.flaggedOne': 'اس جواب کا کچھ حصہ ایک ایسی سائٹ سے ہے جسے آپ نے ناقابلِ اعتماد قرار دیا ہے۔ اسے اپنی نصابی کتاب سے ملا لیں۔',
+  'sources.flaggedMany': 'اس جواب کا کچھ حصہ ایسی سائٹس سے ہے جنہیں آپ نے ناقابلِ اعتماد قرار دیا ہے۔ اسے اپنی نصابی کتاب سے ملا لیں۔',
+  'sources.countOne': '{count} ماخذ',
+  'sources.countMany': '{count} ماخذ',
+  'sources.trustedCount': '{count} قابلِ اعتماد',
+  'sources.unknownSite': 'نامعلوم سائٹ',
+  'sources.trust': 'اعتماد کریں',
+  'sources.flag': 'نشان لگائیں',
+  'sources.edit': 'قابلِ اعتماد سائٹس میں ترمیم',
+  'sources.domainPlaceholder': 'مثلاً stbb.edu.pk',
+  'sources.sheetTitle': 'قابلِ اعتماد سائٹس',
+  'sources.prefer': 'ترجیح',
+  'sources.preferHint': 'ٹیوٹر کو پہلے ان میں تلاش کرنے کو کہا جاتا ہے۔ کسی سائٹ میں اس کے ذیلی ڈومین بھی شامل ہیں، اس لیے gov.pk میں sindh.gov.pk بھی آتا ہے۔',
+  'sources.untrustedHint': 'جن جوابات میں یہ سائٹس استعمال ہوں ان پر نشان لگ جاتا ہے۔',
+  'sources.reset': 'ڈیفالٹ پر واپس لائیں',
+
+  'export.title': 'نوٹس ایکسپورٹ کریں',
+  'export.selected': '{total} میں سے {selected} جوابات',
+  'export.selectNone': 'کوئی منتخب نہ کریں',
+  'export.selectAll': 'سب منتخب کریں',
+  'export.photoQuestion': 'تصویری سوال',
+  'export.print': 'پرنٹ / PDF',
+  'export.markdown': 'Markdown',
+  'export.threadFile': 'گفتگو کی فائل',
+  'export.threadFileHint': 'پوری گفتگو، کسی دوسرے آلے پر کھولنے کے لیے',
+  'export.studyNotes': 'مطالعہ کے نوٹس',
+  'export.sources': 'ماخذ',
+  'export.answerN': 'جواب {n}',
+
+  'history.viewTitle': '{view} کی ہسٹری',
+  'history.import': 'امپورٹ',
+  'history.importHint': 'گفتگو کی فائل کھولیں',
+  'history.importFailed': 'یہ فائل امپورٹ نہیں ہو سکی۔ SigNify سے ایکسپورٹ کی گئی گفتگو کی فائل منتخب کریں۔',
+  'history.renameFailed': 'اس گفتگو کا نام تبدیل نہیں ہو سکا۔',
+  'history.deleteFailed': 'یہ گفتگو حذف نہیں ہو سکی۔',
+  'history.confirmDelete': 'یہ گفتگو حذف کریں؟',
+  'history.search': 'پرانی گفتگو تلاش کریں...',
+  'history.noMatches': 'کوئی ملتی جلتی گفتگو نہیں ملی۔',
+  'history.empty': 'ابھی کوئی محفوظ گفتگو نہیں۔',
+  'history.rename': 'نام تبدیل کریں',
+  'history.delete': 'حذف کریں',
+
+  'curriculum.chapterShort': 'باب {number}',
+
+  'quiz.subject': 'مضمون',
+  'quiz.chapter': 'باب',
+  'quiz.wholeSyllabus': 'پورا نصاب',
+  'quiz.questions': 'سوالات',
+  'quiz.time': 'وقت',
+  'quiz.minutes': '{count} منٹ',
+  'quiz.untimed': 'بند',
+  'quiz.preparing': 'کوئز تیار ہو رہا ہے...',
+  'quiz.start': 'کوئز شروع کریں',
+  'quiz.taken': '{time} لگے',
+  'quiz.questionShort': 'س{n}',
+  'quiz.kind.mcq': 'کثیر انتخابی',
+  'quiz.kind.blank': 'خالی جگہ پُر کریں',
+  'quiz.kind.short': 'مختصر جواب',
+  'quiz.markOne': '{count} نمبر',
+  'quiz.marks': '{count} نمبر',
+  'quiz.yourAnswer': 'آپ کا جواب:',
+  'quiz.answerKey': 'درست جواب:',
+  'quiz.keyPoints': 'اہم نکات:',
+  'quiz.retake': 'دوبارہ دیں',
+  'quiz.new': 'نیا کوئز',
+  'quiz.progress': 'سوال {n} / {total}',
+  'quiz.blankPlaceholder': 'غائب لفظ لکھیں...',
+  'quiz.shortPlaceholder': 'اپنا جواب لکھیں...',
+  'quiz.previous': 'پچھلا',
+  'quiz.submit': 'جمع کرائیں',
+  'quiz.next': 'اگلا',
+
+  'progress.studyStreak': 'پڑھائی کا تسلسل',
+  'progress.dayOne': 'دن',
+  'progress.days': 'دن',
+  'progress.streak': 'تسلسل',
+  'progress.daysShort': '{count} دن',
+  'progress.mastery': 'مہارت',
+  'progress.quizzes': 'کوئز',
+  'progress.questions': 'سوالات',
+  'progress.exercises': 'مشقیں',
+  'progress.topics': 'موضوعات',
+  'progress.lastDays': 'پچھلے {count} دن',
+  'progress.masteryByTopic': 'موضوع کے لحاظ سے مہارت',
+  'progress.nothingYet': '{subject} میں ابھی کچھ نہیں پڑھا گیا۔ اپنی سطح جاننے کے لیے کوئز دیں۔',
+  'progress.reviewSchedule': 'دہرائی کا شیڈول',
+  'progress.dueNow': 'ابھی',
+  'progress.dueTomorrow': 'کل',
+  'progress.dueIn': '{count} دن میں',
+  'progress.reviewed': '{count} بار دہرایا',
+  'progress.review': 'دہرائیں',
+
+  'drill.title': 'مشق',
+  'drill.kind.tense': 'زمانے',
+  'drill.kind.voice': 'معروف / مجہول',
+  'drill.kind.narration': 'براہِ راست / بالواسطہ',
+  'drill.kind.urdu': 'اردو گرامر',
+  'drill.kind.sindhi': 'سندھی گرامر',
+  'drill.rules': 'قواعد',
+  'drill.pickWeakest': 'کمزور ترین چنیں',
+  'drill.selected': '{count} منتخب۔',
+  'drill.noneSelected': 'کوئی منتخب نہیں: مشق میں تمام {count} قواعد شامل ہوں گے۔',
+  'drill.sentences': 'جملے',
+  'drill.preparing': 'مشق تیار ہو رہی ہے...',
+  'drill.start': 'مشق شروع کریں',
+  'drill.missed': 'دوبارہ مشق کے لیے قواعد:',
+  'drill.allCorrect': 'ہر جملہ درست ہے۔',
+  'drill.chooseRules': 'قواعد چنیں',
+  'drill.preparingShort': 'تیار ہو رہی ہے...',
+  'drill.practiseThese': 'ان کی مشق کریں',
+  'drill.new': 'نئی مشق',
+  'drill.progress': 'جملہ {n} / {total}',
+  'drill.correct': 'درست',
+  'drill.nearly': 'تقریباً درست',
+  'drill.notQuite': 'پوری طرح درست نہیں',
+  'drill.missingWord': '(غائب)',
+  'drill.corrected': 'درست جملہ:',
+  'drill.placeholder': 'نیا جملہ لکھیں...',
+  'drill.finish': 'ختم کریں',
+  'drill.next': 'اگلا جملہ',
+  'drill.checking': 'جانچ ہو رہی ہے...',
+  'drill.check': 'جانچیں',
+
+  'teacher.importFailed': 'یہ فائل امپورٹ نہیں ہو سکی۔ SigNify سے ایکسپورٹ کی گئی جمع شدہ فائل منتخب کریں۔',
+  'teacher.confirmDelete': '"{title}" اور اس کے جمع شدہ جوابات حذف کریں؟',
+  'teacher.untitled': 'بے عنوان اسائنمنٹ',
+  'teacher.new': 'نیا اسائنمنٹ',
+  'teacher.import': 'جمع شدہ کام امپورٹ کریں',
+  'teacher.yours': 'آپ کے اسائنمنٹس',
+  'teacher.empty': 'ابھی کوئی اسائنمنٹ نہیں۔ ایک لکھیں اور اس کا لنک اپنے طلبہ کو بھیجیں۔',
+  'teacher.questionOne': '{count} سوال',
+  'teacher.questionCount': '{count} سوالات',
+  'teacher.share': 'شیئر کریں',
+  'teacher.submissions': 'جمع شدہ کام',
+  'teacher.edit': 'ترمیم',
+  'teacher.defaultTitle': '{subject} اسائنمنٹ',
+  'teacher.title': 'عنوان',
+  'teacher.titlePlaceholder': 'مثلاً حرکت، ہفتہ وار ہوم ورک',
+  'teacher.questionN': 'سوال {n}',
+  'teacher.questionPlaceholder': 'سوال',
+  'teacher.answerKeyPlaceholder': 'درست جواب (اختیاری، صرف آپ دیکھ سکتے ہیں)',
+  'teacher.addQuestion': 'سوال شامل کریں',
+  'teacher.cancel': 'منسوخ کریں',
+  'teacher.saveAndShare': 'محفوظ کریں اور شیئر کریں',
+  'teacher.tooLongForQr': 'QR کوڈ کے لیے بہت لمبا ہے۔ اس کے بجائے لنک بھیجیں یا اسائنمنٹ کو تقسیم کریں۔',
+  'teacher.includeKey': 'درست جوابات شامل کریں (طلبہ انہیں دیکھ سکیں گے)',
+  'teacher.shareLink': 'لنک شیئر کریں',
+  'teacher.done': 'مکمل',
+  'teacher.assignments': 'اسائنمنٹس',
+  'teacher.noSubmissions': 'ابھی کچھ جمع نہیں ہوا۔ طلبہ کی بھیجی ہوئی فائلیں امپورٹ کریں۔',
+  'teacher.answered': '{total} میں سے {n} کے جواب',
+  'teacher.correctCount': '{total} میں سے {n} درست',
+  'teacher.markedCorrect': '{total} میں سے {n} درست قرار',
+  'teacher.student': 'طالب علم',
+  'teacher.noAnswer': 'کوئی جواب نہیں',
+  'teacher.answerKey': 'درست جواب',
+  'teacher.needsWork': 'مزید محنت درکار',
+
+  'assignment.linkDamaged': 'اسائنمنٹ کا یہ لنک خراب یا نامکمل ہے۔ اپنے استاد سے دوبارہ بھیجنے کو کہیں۔',
+  'assignment.label': 'اسائنمنٹ',
+  'assignment.changeAnswer': 'جواب بدلیں',
+  'assignment.allAnswered': 'تمام سوالات کے جواب ہو گئے۔ فائل اپنے استاد کو بھیجیں۔',
+  'assignment.yourName': 'آپ کا نام',
+  'assignment.downloadAgain': 'دوبارہ ڈاؤن لوڈ کریں',
+  'assignment.download': 'جمع شدہ کام ڈاؤن لوڈ کریں',
+  'assignment.changePlaceholder': 'اپنا جواب بدلیں...',
+
+  'document.wrongType': '‎.txt یا ‎.md فائل منتخب کریں۔',
+  'document.tooLarge': 'یہ فائل بہت بڑی ہے۔ اسے ابواب میں تقسیم کر کے ایک ایک کر کے ترجمہ کریں۔',
+  'document.placeholder': 'کوئی اقتباس، خط یا باب کا حصہ یہاں چسپاں کریں...',
+  'document.open': '‎.txt / ‎.md کھولیں',
+  'document.translate': 'ترجمہ کریں',
+  'document.editText': 'متن میں ترمیم',
+  'document.failedOne': '{count} جملے کا ترجمہ نہیں ہو سکا۔',
+  'document.failedMany': '{count} جملوں کا ترجمہ نہیں ہو سکا۔',
+  'document.stopped': 'ترجمہ مکمل ہونے سے پہلے روک دیا گیا۔',
+  'document.continue': 'جاری رکیں',
+  'document.original': 'اصل',
+  'document.notTranslated': 'ترجمہ نہیں ہوا',
+  'document.failed': 'ناکام',
+  'document.breakingDown': 'جملے کا تجزیہ ہو رہا ہے...',
+
+  'translation.title': 'ترجمہ',
+  'translation.breakdown': 'لفظ بہ لفظ',
+  'translation.glossary': 'فرہنگ',
+  'translation.save': 'فرہنگ میں محفوظ کریں',
+  'translation.unsave': 'فرہنگ سے ہٹائیں',
+
+  'curriculum.unavailable': 'ابواب کی فہرست دستیاب نہیں۔ آپ پھر بھی نیچے اپنا سوال لکھ سکتے ہیں۔',
+  'curriculum.noChapters': '{subject} کے ابواب ابھی درج نہیں۔',
+  'curriculum.chapterSummary': 'باب کا خلاصہ',
+  'curriculum.topicNotes': 'موضوع کے نوٹس',
+
+  'vocab.tapToShow': 'معنی دیکھنے کے لیے ٹیپ کریں',
+  'vocab.doneOne': 'آج کے لیے مکمل: {count} کارڈ دہرایا گیا۔',
+  'vocab.doneMany': 'آج کے لیے مکمل: {count} کارڈ دہرائے گئے۔',
+  'vocab.noneDue': 'ابھی کوئی لفظ باقی نہیں۔ کل دوبارہ آئیں۔',
+  'vocab.empty': 'مترجم کے لفظ بہ لفظ حصے سے الفاظ محفوظ کریں تاکہ یہاں ان کی مشق کر سکیں۔',
+  'vocab.search': 'محفوظ الفاظ تلاش کریں...',
+
+  'diagrams.fallbackTitle': 'خاکہ',
+  'diagrams.labels': 'لیبل:',
+  'diagrams.unavailable': 'تصویر دستیاب نہیں۔ جواب میں دی گئی وضاحت دیکھیں۔',
+
+  'about.creatorTitle': 'بنانے والے کے بارے میں',
+  'about.creatorIntro': 'SigNify AI کو {name} نے تیار کیا ہے، جو ایک ٹیوشن سینٹر میں نجی استاد ہیں۔',
+  'about.creatorSubjects': 'وہ دسویں جماعت (سندھ ٹیکسٹ بک بورڈ، جامشورو) کے لیے فزکس، کیمسٹری، بائیولوجی، ریاضی، انگریزی، سندھی اور اردو پڑھاتے ہیں۔',
+  'about.purposeTitle': 'ایپ کا مقصد',
+  'about.purposeExplain': 'اسباق کو آسان زبان میں سمجھانا۔',
+  'about.purposeExercises': 'حل شدہ مشقیں اور مشقی سوالات فراہم کرنا۔',
+  'about.purposeDiagrams': 'بہتر سمجھ کے لیے خاکے، ماڈل اور مثالیں دکھانا۔',
+  'about.purposeSubjects': 'فزکس، کیمسٹری، بائیولوجی، ریاضی، انگریزی، اردو اور سندھی میں رہنمائی۔',
+  'contact.intro': 'اگر آپ SigNify AI استعمال کر رہے ہیں تو اپنی رائے Sike کو ضرور بھیجیں تاکہ ایپ آپ کی تعلیمی ضروریات کے مطابق بہتر ہو سکے۔',
+  'contact.email': 'ای میل',
+  'contact.social': 'سوشل میڈیا',
+};
@@ -0,0 +1,192 @@
+import { Marked, Token, Tokens, TokensList, TokenizerExtension, RendererExtension } from 'marked';
+import DOMPurify from 'dompurify';
+import katex from 'katex';
+import 'katex/contrib/mhchem';
+import hljs from 'highlight.js/lib/core';
+import c from 'highlight.js/lib/languages/c';
+import cpp from 'highlight.js/lib/languages/cpp';
+import java from 'highlight.js/lib/languages/java';
+import javascript from 'highlight.js/lib/languages/javascript';
+import python from 'highlight.js/lib/languages/python';
+import sql from 'highlight.js/lib/languages/sql';
+import 'katex/dist/katex.min.css';
+import 'highlight.js/styles/github-dark.css';
+import { Diagram, DIAGRAM_SCHEME, diagramUrl, findDiagram } from './diagrams';
+import { translate } from './i18n';
+import { loadSettings } from './settings';
+
+// Turns model output into safe HTML. Everything the model or a grounded web
+// page writes is untrusted, so the final HTML always goes through DOMPurify.
+// Math is $...$, $$...$$, \(...\) or \[...\]; chemistry is \ce{...} from
+// mhchem, inside math or on its own ("\ce{2H2 + O2 -> 2H2O}"). Images
+// written as ![caption](diagram:<id>) come from the diagram library
+// (diagrams.ts).
+
+// The languages Class 10 computer science and the occasional maths script
+// use; the full highlight.js bundle is ten times the size.
+hljs.registerLanguage('c', c);
+hljs.registerLanguage('cpp', cpp);
+hljs.registerLanguage('java', java);
+hljs.registerLanguage('javascript', javascript);
+hljs.registerLanguage('python', python);
+hljs.registerLanguage('sql', sql);
+
+function renderMath(tex: string, displayMode: boolean): string {
+  return katex.renderToString(tex, { displayMode, throwOnError: false, output: 'html', strict: 'ignore' });
+}
+
+// Reads a brace group starting at `open`, allowing nested braces.
+function braceGroupEnd(src: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < src.length; i++) {
+    if (src[i] === '{') depth++;
+    else if (src[i] === '}' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+interface MathToken extends Tokens.Generic {
+  tex: string;
+}
+
+const blockMath: TokenizerExtension & RendererExtension = {
+  name: 'blockMath',
+  level: 'block',
+  start: src => src.match(/\$\$|\\\[/)?.index,
+  tokenizer(src) {
+    const m = /^\$\$([\s\S]+?)\$\$[^\S\n]*(?:\n|$)/.exec(src) || /^\\\[([\s\S]+?)\\\][^\S\n]*(?:\n|$)/.exec(src);
+    if (m) return { type: 'blockMath', raw: m[0], tex: m[1].trim() };
+  },
+  renderer: token => `<div class="math-block">${renderMath((token as MathToken).tex, true)}</div>\n`,
+};
+
+// Single dollars need a non-space right after the opening one and right
+// before the closing one, so prices like "$5 and $10" stay text.
+const inlineMath: TokenizerExtension & RendererExtension = {
+  name: 'inlineMath',
+  level: 'inline',
+  start: src => src.match(/\$|\\\(/)?.index,
+  tokenizer(src) {
+    const m = /^\$\$([\s\S]+?)\$\$/.exec(src)
+      || /^\$(?![\s$])((?:\\.|[^\\$\n])+?)(?<!\s)\$(?!\d)/.exec(src)
+      || /^\\\(([\s\S]+?)\\\)/.exec(src);
+    if (m) return { type: 'inlineMath', raw: m[0], tex: m[1].trim() };
+  },
+  renderer: token => renderMath((token as MathToken).tex, false),
+};
+
+const chemistry: TokenizerExtension & RendererExtension = {
+  name: 'chemistry',
+  level: 'inline',
+  start: src => src.indexOf('\\ce{') >= 0 ? src.indexOf('\\ce{') : undefined,
+  tokenizer(src) {
+    if (!src.startsWith('\\ce{')) return;
+    const end = braceGroupEnd(src, 3);
+    if (end < 0) return;
+    return { type: 'chemistry', raw: src.slice(0, end + 1), tex: src.slice(0, end + 1) };
+  },
+  renderer: token => renderMath((token as MathToken).tex, false),
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c]!);
+
+// Stands in for a picture that cannot be shown: an id missing from the
+// library, or an image that failed to load. Library diagrams keep their labels
+// so the student can still draw them.
+function describedDiagram(caption: string, diagram?: Diagram): string {
+  const lang = loadSettings().uiLang;
+  const title = caption || diagram?.title || translate(lang, 'diagrams.fallbackTitle');
+  const labels = diagram ? `<span class="diagram-labels">${escapeHtml(translate(lang, 'diagrams.labels'))} ${diagram.labels.map(escapeHtml).join(' · ')}</span>` : '';
+  return `<span class="diagram-card"><span class="diagram-title">${escapeHtml(title)}</span>${labels}`
+    + `<span class="diagram-note">${escapeHtml(translate(lang, 'diagrams.unavailable'))}</span></span>`;
+}
+
+function figure(src: string, caption: string, diagram?: Diagram): string {
+  const id = diagram ? ` data-diagram="${escapeHtml(diagram.id)}"` : '';
+  const text = caption ? `<span class="diagram-caption">${escapeHtml(caption)}</span>` : '';
+  return `<span class="diagram"><img src="${escapeHtml(src)}" alt="${escapeHtml(caption)}"${id}>${text}</span>`;
+}
+
+const md = new Marked({
+  gfm: true,
+  breaks: false,
+  extensions: [blockMath, inlineMath, chemistry],
+  renderer: {
+    code({ text, lang }) {
+      const language = (lang || '').trim().split(/\s+/)[0].toLowerCase();
+      const body = language && hljs.getLanguage(language)
+        ? hljs.highlight(text, { language }).value
+        : hljs.highlightAuto(text).value;
+      return `<pre><code class="hljs${language ? ` language-${language}` : ''}">${body}</code></pre>\n`;
+    },
+    image({ href, text }) {
+      if (!href.startsWith(DIAGRAM_SCHEME)) return figure(href, text);
+      const diagram = findDiagram(href.slice(DIAGRAM_SCHEME.length).trim());
+      return diagram ? figure(diagramUrl(diagram), text || diagram.title, diagram) : describedDiagram(text);
+    },
+  },
+});
+
+// Links from answers open outside the app and get no access to it.
+DOMPurify.addHook('afterSanitizeAttributes', node => {
+  if (node.tagName === 'A') {
+    node.setAttribute('target', '_blank');
+    node.setAttribute('rel', 'noopener noreferrer');
+  }
+});
+
+const sanitize = (html: string) => DOMPurify.sanitize(html, { FORBID_TAGS: ['style', 'form', 'input'], FORBID_ATTR: ['srcset'] });
+
+export function renderMarkdown(markdown: string): string {
+  return sanitize(md.parse(markdown || '', { async: false }) as string);
+}
+
+// Rendered blocks by their source text. While a reply streams only its last
+// block is still changing, so every earlier block is a cache hit. The key
+// includes the interface language, which the diagram cards are written in.
+const blockCache = new Map<string, string>();
+const BLOCK_CACHE_SIZE = 500;
+
+function renderBlock(token: Token, links: TokensList['links']): string {
+  const key = `${loadSettings().uiLang}:${token.raw}`;
+  const cached = blockCache.get(key);
+  if (cached !== undefined) return cached;
+  const html = sanitize(md.parser(Object.assign([token], { links })));
+  if (blockCache.size >= BLOCK_CACHE_SIZE) blockCache.delete(blockCache.keys().next().value!);
+  blockCache.set(key, html);
+  return html;
+}
+
+const sources = new WeakMap<Element, string>();
+
+// Renders `markdown` into `root` block by block, replacing only blocks whose
+// source changed since the last call. Returns the elements that were
+// (re)created so callers can post-process just those.
+export function renderInto(root: HTMLElement, markdown: string): HTMLElement[] {
+  const tokens = md.lexer(markdown || '');
+  const blocks = tokens.filter(t => t.type !== 'space');
+  const existing = Array.from(root.children);
+  const created: HTMLElement[] = [];
+
+  blocks.forEach((token, i) => {
+    const current = existing[i];
+    if (current && sources.get(current) === token.raw) return;
+    const el = document.createElement('div');
+    el.className = 'md-block';
+    el.innerHTML = renderBlock(token, tokens.links);
+    sources.set(el, token.raw);
+    if (current) root.replaceChild(el, current);
+    else root.appendChild(el);
+    created.push(el);
+  });
+  existing.slice(blocks.length).forEach(el => el.remove());
+  return created;
+}
+
+// Swaps an image that failed to load for its described-diagram card.
+export function replaceBrokenImage(img: HTMLImageElement) {
+  const card = document.createElement('span');
+  card.innerHTML = sanitize(describedDiagram(img.alt, findDiagram(img.dataset.diagram || '')));
+  (img.closest('.diagram') || img).replaceWith(...card.childNodes);
+}
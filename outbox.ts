@@ -0,0 +1,96 @@
+import { STORES, withStore } from './db';
+import { getSession, saveSession } from './sessionStore';
+import { streamForView } from './geminiService';
+import { toTutorError } from './errors';
+import { Message } from './types';
+import { appendChunk } from './citations';
+
+// Questions asked while offline. The thread itself is saved straight away
+// with a pending bot message; the outbox only records which reply still has
+// to be fetched once the connection is back.
+
+interface OutboxEntry {
+  id: string;
+  sessionId: string;
+  botId: string;
+  createdAt: number;
+}
+
+export async function enqueue(sessionId: string, botId: string): Promise<void> {
+  const entry: OutboxEntry = { id: botId, sessionId, botId, createdAt: Date.now() };
+  await withStore(STORES.outbox, 'readwrite', s => s.put(entry));
+  requestBackgroundSync();
+}
+
+export function countPending(): Promise<number> {
+  return withStore(STORES.outbox, 'readonly', s => s.count());
+}
+
+function remove(id: string) {
+  return withStore(STORES.outbox, 'readwrite', s => s.delete(id));
+}
+
+// Background Sync is not in TypeScript's DOM library yet, and not every
+// browser has it.
+interface SyncManager {
+  register(tag: string): Promise<void>;
+}
+
+// Asks the service worker to wake the app when connectivity returns (see the
+// 'sync' handler in sw.js). Browsers without Background Sync fall back to the
+// page's own 'online' listener.
+function requestBackgroundSync() {
+  navigator.serviceWorker?.ready
+    .then((reg: ServiceWorkerRegistration & { sync?: SyncManager }) => reg.sync?.register('outbox'))
+    .catch(() => {});
+}
+
+// The answered bot message, as saved.
+async function updateReply(sessionId: string, botId: string, patch: Pick<Message, 'text' | 'sources' | 'citations' | 'promptVersion' | 'error'>) {
+  const latest = await getSession(sessionId);
+  const reply = latest?.messages.find(m => m.id === botId);
+  if (!latest || !reply) return null;
+  const updated: Message = { ...reply, ...patch, pending: false };
+  await saveSession({ ...latest, messages: latest.messages.map(m => (m.id === botId ? updated : m)) });
+  return updated;
+}
+
+async function send(entry: OutboxEntry): Promise<Message | null | 'offline'> {
+  const session = await getSession(entry.sessionId);
+  const idx = session ? session.messages.findIndex(m => m.id === entry.botId) : -1;
+  const question = session?.messages[idx - 1];
+  if (!session || idx < 1 || question?.sender !== 'user') return null;
+  const stream = streamForView(session.view, question.text, session.subject, session.lang, session.messages.slice(0, idx - 1), question.attachments);
+  if (!stream) return null;
+
+  let reply: Pick<Message, 'text' | 'sources' | 'citations' | 'promptVersion'> = { text: '' };
+  try {
+    for await (const chunk of stream) reply = appendChunk(reply, chunk);
+  } catch (e) {
+    const { kind } = toTutorError(e);
+    if (kind === 'offline') return 'offline';
+    return updateReply(session.id, entry.botId, { ...reply, error: { kind } });
+  }
+  return updateReply(session.id, entry.botId, reply);
+}
+
+let flushing: Promise<void> | null = null;
+
+// Sends queued questions oldest first. Stops early if the connection drops
+// again, leaving the rest queued. Concurrent calls share one run. Each answer
+// is passed on by itself, so an open thread can merge it into what is on
+// screen without losing anything asked since.
+export function flushOutbox(onAnswered: (sessionId: string, reply: Message) => void): Promise<void> {
+  if (!flushing) {
+    flushing = (async () => {
+      const entries = await withStore<OutboxEntry[]>(STORES.outbox, 'readonly', s => s.getAll());
+      for (const entry of entries.sort((a, b) => a.createdAt - b.createdAt)) {
+        const result = await send(entry);
+        if (result === 'offline') break;
+        await remove(entry.id);
+        if (result) onAnswered(entry.sessionId, result);
+      }
+    })().finally(() => { flushing = null; });
+  }
+  return flushing;
+}
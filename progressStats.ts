@@ -0,0 +1,81 @@
+import { ActivityEvent } from './types';
+
+// Summaries for the progress screen, computed from the raw activity log.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Mastery follows recent form rather than a lifetime average.
+const MASTERY_WINDOW = 5;
+
+export interface TopicMastery {
+  topic: string;
+  // 0–1, or null until the topic has been quizzed or reviewed.
+  mastery: number | null;
+  attempts: number;
+  lastAt: number;
+}
+
+export interface SubjectProgress {
+  subject: string;
+  streak: number;
+  questions: number;
+  exercises: number;
+  quizzes: number;
+  mastery: number | null;
+  topics: TopicMastery[];
+}
+
+const dayKey = (ts: number) => new Date(ts).toDateString();
+
+// Consecutive days with any activity, ending today. A streak that ended
+// yesterday still counts until the day is over.
+export function streak(events: ActivityEvent[], now = Date.now()): number {
+  const days = new Set(events.map(e => dayKey(e.at)));
+  let cursor = days.has(dayKey(now)) ? now : now - DAY_MS;
+  let count = 0;
+  while (days.has(dayKey(cursor))) {
+    count++;
+    cursor -= DAY_MS;
+  }
+  return count;
+}
+
+const average = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : null;
+
+export function topicMastery(events: ActivityEvent[]): TopicMastery[] {
+  const byTopic = new Map<string, ActivityEvent[]>();
+  events.forEach(e => byTopic.set(e.topic, [...(byTopic.get(e.topic) || []), e]));
+  return [...byTopic.entries()]
+    .map(([topic, list]) => {
+      const scored = list.filter(e => typeof e.score === 'number').slice(-MASTERY_WINDOW);
+      return {
+        topic,
+        mastery: average(scored.map(e => e.score as number)),
+        attempts: list.length,
+        lastAt: list[list.length - 1].at,
+      };
+    })
+    .sort((a, b) => (a.mastery ?? 2) - (b.mastery ?? 2) || b.lastAt - a.lastAt);
+}
+
+export function summarise(subject: string, events: ActivityEvent[], now = Date.now()): SubjectProgress {
+  const topics = topicMastery(events);
+  return {
+    subject,
+    streak: streak(events, now),
+    questions: events.filter(e => e.kind === 'question').length,
+    exercises: events.filter(e => e.kind === 'exercise').length,
+    quizzes: events.filter(e => e.kind === 'quiz').length,
+    mastery: average(topics.filter(t => t.mastery !== null).map(t => t.mastery as number)),
+    topics,
+  };
+}
+
+// Activity per day for the last `days` days, oldest first.
+export function dailyCounts(events: ActivityEvent[], days: number, now = Date.now()): { day: number; count: number }[] {
+  const counts = new Map<string, number>();
+  events.forEach(e => counts.set(dayKey(e.at), (counts.get(dayKey(e.at)) || 0) + 1));
+  return Array.from({ length: days }, (_, i) => {
+    const day = now - (days - 1 - i) * DAY_MS;
+    return { day, count: counts.get(dayKey(day)) || 0 };
+  });
+}
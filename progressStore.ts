@@ -0,0 +1,68 @@
+import { STORES, withStore } from './db';
+import { ActivityEvent, ActivityKind, AppView, QuizResult, ReviewCard } from './types';
+import { Quality, cardId, newCard, qualityFromScore, schedule } from './srs';
+
+// The learner profile: an append-only activity log plus the review deck built
+// from it. Everything stays on the device.
+
+export const WHOLE_SYLLABUS = 'Whole syllabus';
+
+export async function logActivity(kind: ActivityKind, subject: string, topic: string, score?: number): Promise<void> {
+  const at = Date.now();
+  const event: ActivityEvent = { id: `${at}-${Math.random().toString(36).slice(2, 8)}`, kind, subject, topic, at, score };
+  await withStore(STORES.activity, 'readwrite', s => s.put(event));
+}
+
+export async function listActivity(subject?: string): Promise<ActivityEvent[]> {
+  const events = await withStore<ActivityEvent[]>(STORES.activity, 'readonly', s =>
+    subject ? s.index('subject').getAll(subject) : s.getAll()
+  );
+  return events.sort((a, b) => a.at - b.at);
+}
+
+function getCard(id: string) {
+  return withStore<ReviewCard | undefined>(STORES.reviews, 'readonly', s => s.get(id));
+}
+
+function putCard(card: ReviewCard) {
+  return withStore(STORES.reviews, 'readwrite', s => s.put(card));
+}
+
+// Adds a topic to the deck the first time it is studied; later visits leave
+// its schedule alone.
+export async function ensureCard(subject: string, topic: string, view: AppView, prompt: string): Promise<void> {
+  if (!(await getCard(cardId(subject, topic)))) await putCard(newCard(subject, topic, view, prompt));
+}
+
+export async function gradeCard(card: ReviewCard, quality: Quality): Promise<void> {
+  const latest = (await getCard(card.id)) || card;
+  await putCard(schedule(latest, quality));
+  await logActivity('review', card.subject, card.topic, quality / 5);
+}
+
+// Weakest (lowest ease) first, so the topics a student struggles with lead.
+export async function listDueCards(now = Date.now()): Promise<ReviewCard[]> {
+  const due = await withStore<ReviewCard[]>(STORES.reviews, 'readonly', s =>
+    s.index('due').getAll(IDBKeyRange.upperBound(now))
+  );
+  return due.sort((a, b) => a.ease - b.ease || a.due - b.due);
+}
+
+export function listCards(): Promise<ReviewCard[]> {
+  return withStore<ReviewCard[]>(STORES.reviews, 'readonly', s => s.getAll());
+}
+
+export const revisionPrompt = (subject: string, topic: string) =>
+  `Help me revise ${subject}: ${topic}. Recap the key ideas briefly, then ask me one question to check my understanding.`;
+
+// A finished quiz is both an activity and a graded review of its chapter.
+export async function recordQuiz(result: QuizResult): Promise<void> {
+  const { subject, chapter } = result.quiz;
+  const topic = chapter || WHOLE_SYLLABUS;
+  const fraction = result.answers.length ? result.score / result.answers.length : 0;
+  await logActivity('quiz', subject, topic, fraction);
+
+  const id = cardId(subject, topic);
+  const card = (await getCard(id)) || newCard(subject, topic, 'qa', revisionPrompt(subject, topic));
+  await putCard(schedule(card, qualityFromScore(fraction), result.finishedAt));
+}
@@ -0,0 +1,91 @@
+import { FinishReason, GoogleGenAI, GroundingMetadata, Segment } from '@google/genai';
+import { Citation, Source } from '../types';
+import { TutorError } from '../errors';
+import { AiProvider, ChatRequest, JsonRequest, StreamChunk } from './types';
+
+// strictly using gemini-2.5-flash as requested
+export const GEMINI_MODEL = 'gemini-2.5-flash';
+
+function assertNotBlocked(blockReason: string | undefined, finishReason: FinishReason | undefined) {
+  if (blockReason || finishReason === FinishReason.SAFETY || finishReason === FinishReason.PROHIBITED_CONTENT) {
+    throw new TutorError('safety', `Response blocked (${blockReason || finishReason})`);
+  }
+}
+
+// Segment offsets are UTF-8 byte positions in the whole reply, which differ
+// from string offsets for Urdu and Sindhi. The segment text is checked at the
+// converted position and searched for if it does not match.
+function segmentEnd(text: string, segment: Segment | undefined): number {
+  if (!segment) return -1;
+  const bytes = new TextEncoder().encode(text);
+  const end = new TextDecoder().decode(bytes.slice(0, segment.endIndex ?? 0)).length;
+  const quoted = segment.text || '';
+  if (!quoted || text.slice(end - quoted.length, end) === quoted) return end;
+  const found = text.indexOf(quoted);
+  return found >= 0 ? found + quoted.length : -1;
+}
+
+function citationsFrom(text: string, metadata: GroundingMetadata): Citation[] {
+  const chunks = metadata.groundingChunks || [];
+  return (metadata.groundingSupports || []).flatMap(support => {
+    const uris = (support.groundingChunkIndices || []).map(i => chunks[i]?.web?.uri).filter((u): u is string => !!u);
+    const end = segmentEnd(text, support.segment);
+    return uris.length && end > 0 ? [{ end, uris }] : [];
+  });
+}
+
+export function createGeminiProvider(apiKey: string | undefined, model = GEMINI_MODEL): AiProvider {
+  let ai: GoogleGenAI | null = null;
+  const getAi = () => {
+    if (!apiKey) throw new TutorError('missing-key', "API Key missing");
+    if (!ai) ai = new GoogleGenAI({ apiKey });
+    return ai;
+  };
+
+  return {
+    name: 'gemini',
+
+    async *streamChat({ contents, systemInstruction, useSearch, signal }: ChatRequest): AsyncGenerator<StreamChunk> {
+      const result = await getAi().models.generateContentStream({
+        model,
+        contents,
+        config: {
+          systemInstruction,
+          tools: useSearch ? [{ googleSearch: {} }] : undefined,
+          abortSignal: signal,
+        },
+      });
+
+      let fullText = '';
+      for await (const chunk of result) {
+        assertNotBlocked(chunk.promptFeedback?.blockReason, chunk.candidates?.[0]?.finishReason);
+        const text = chunk.text || "";
+        fullText += text;
+        const groundingMetadata = chunk.candidates?.[0]?.groundingMetadata;
+        let sources: Source[] = [];
+        if (groundingMetadata?.groundingChunks) {
+          sources = groundingMetadata.groundingChunks
+            .flatMap(c => (c.web?.uri ? [{ uri: c.web.uri, title: c.web.title || "Source" }] : []));
+        }
+        const citations = groundingMetadata ? citationsFrom(fullText, groundingMetadata) : [];
+        yield citations.length ? { text, sources, citations } : { text, sources };
+      }
+    },
+
+    async generateJson<T>({ prompt, systemInstruction, schema, media }: JsonRequest): Promise<T> {
+      const response = await getAi().models.generateContent({
+        model,
+        contents: media?.length
+          ? [{ role: 'user', parts: [...media.map(inlineData => ({ inlineData })), { text: prompt }] }]
+          : prompt,
+        config: {
+          systemInstruction,
+          responseMimeType: "application/json",
+          responseSchema: schema,
+        },
+      });
+      assertNotBlocked(response.promptFeedback?.blockReason, response.candidates?.[0]?.finishReason);
+      return JSON.parse((response.text || '').trim());
+    },
+  };
+}
@@ -0,0 +1,35 @@
+import { AiProvider } from './types';
+import { createGeminiProvider, GEMINI_MODEL } from './gemini';
+import { createMockProvider } from './mock';
+import { createOpenAiCompatProvider } from './openaiCompat';
+
+export type { AiProvider, ChatRequest, JsonRequest, StreamChunk } from './types';
+
+export type ProviderName = 'gemini' | 'mock' | 'openai';
+
+let provider: AiProvider | null = null;
+
+// Chosen at build time through AI_PROVIDER (see vite.config.ts).
+function createProvider(name: string | undefined): AiProvider {
+  switch (name as ProviderName | undefined) {
+    case 'mock':
+      return createMockProvider();
+    case 'openai':
+      return createOpenAiCompatProvider(
+        process.env.AI_BASE_URL || 'http://localhost:11434/v1',
+        process.env.AI_MODEL || 'llama3.1'
+      );
+    default:
+      return createGeminiProvider(process.env.API_KEY, process.env.AI_MODEL || GEMINI_MODEL);
+  }
+}
+
+export function getProvider(): AiProvider {
+  if (!provider) provider = createProvider(process.env.AI_PROVIDER);
+  return provider;
+}
+
+// Swaps the backend at runtime, e.g. from a demo harness.
+export function setProvider(next: AiProvider) {
+  provider = next;
+}
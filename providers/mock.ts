@@ -0,0 +1,146 @@
+import { Schema, Type } from '@google/genai';
+import { Source } from '../types';
+import { AiProvider, ChatRequest, JsonRequest, StreamChunk } from './types';
+
+// Offline stand-in for classroom demos and development without an API key.
+// Output depends only on the request, so the same question always replays the
+// same answer, chunk for chunk.
+
+interface Fixture {
+  keywords: string[];
+  text: string;
+  sources: Source[];
+}
+
+const BOARD_SOURCE: Source = { uri: 'https://stbb.edu.pk/', title: 'Sindh Textbook Board' };
+
+const FIXTURES: Fixture[] = [
+  {
+    keywords: ['newton', 'force', 'motion'],
+    text: `## Newton's Laws of Motion
+
+1. **First law (inertia):** a body stays at rest or in uniform motion unless an unbalanced force acts on it.
+2. **Second law:** the rate of change of momentum is proportional to the applied force, so **F = ma**.
+3. **Third law:** to every action there is an equal and opposite reaction.
+
+| Law | Key idea |
+| --- | --- |
+| First | Inertia |
+| Second | F = ma |
+| Third | Action = Reaction |`,
+    sources: [BOARD_SOURCE, { uri: 'https://en.wikipedia.org/wiki/Newton%27s_laws_of_motion', title: "Newton's laws of motion" }],
+  },
+  {
+    keywords: ['ohm', 'current', 'resistance', 'voltage'],
+    text: `## Ohm's Law
+
+The current through a conductor is directly proportional to the potential difference across it, provided temperature stays constant.
+
+**V = IR**, where V is in volts, I in amperes and R in ohms.
+
+*Example:* a 12 V battery across a 4 Ω resistor drives **I = 12 / 4 = 3 A**.`,
+    sources: [BOARD_SOURCE],
+  },
+  {
+    keywords: ['eye', 'retina'],
+    text: `## The Human Eye
+
+![Structure of the human eye](diagram:human-eye)
+
+1. **Cornea:** the clear front layer that bends light into the eye.
+2. **Iris and pupil:** the iris controls the size of the pupil, and so how much light enters.
+3. **Lens:** focuses light on the retina; the **ciliary muscle** changes its thickness.
+4. **Retina:** the light-sensitive layer where the image forms.
+5. **Optic nerve:** carries the signals to the brain.`,
+    sources: [BOARD_SOURCE],
+  },
+  {
+    keywords: ['tense', 'grammar', 'passive', 'active'],
+    text: `## Present Perfect Tense
+
+**Structure:** Subject + has/have + past participle
+
+| Form | Example |
+| --- | --- |
+| Positive | She **has finished** her homework. |
+| Negative | She **has not finished** her homework. |
+| Question | **Has** she **finished** her homework? |`,
+    sources: [],
+  },
+];
+
+const CHUNK_DELAY_MS = 40;
+const WORDS_PER_CHUNK = 6;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function lastUserText(req: ChatRequest): string {
+  const turn = [...req.contents].reverse().find(t => t.role === 'user');
+  return turn ? turn.parts.map(p => ('text' in p ? p.text : '')).join(' ') : '';
+}
+
+function pickFixture(prompt: string): Fixture {
+  const q = prompt.toLowerCase();
+  return FIXTURES.find(f => f.keywords.some(k => q.includes(k))) || {
+    keywords: [],
+    text: `**Offline demo answer**\n\nYou asked: _${prompt.trim()}_\n\nThe tutor is running on the local mock provider, so this is a placeholder reply. Switch \`AI_PROVIDER\` back to \`gemini\` for real answers.`,
+    sources: [],
+  };
+}
+
+function fakeFromSchema(schema: Schema, key: string, prompt: string): unknown {
+  switch (schema.type) {
+    case Type.OBJECT: {
+      const out: Record<string, unknown> = {};
+      for (const [name, prop] of Object.entries(schema.properties || {})) {
+        out[name] = fakeFromSchema(prop, name, prompt);
+      }
+      return out;
+    }
+    case Type.ARRAY: {
+      // Document translation checks that every sentence got a translation.
+      if (key === 'translations') {
+        const sentences: string[] = JSON.parse(prompt.slice(prompt.indexOf('[')) || '[]');
+        return sentences.map(s => `[mock translation] ${s}`);
+      }
+      const words = prompt.replace(/^[^"]*"|"[^"]*$/g, '').split(/\s+/).filter(Boolean).slice(0, 4);
+      const items = words.length ? words : ['sample'];
+      return items.map(w => fakeFromSchema(schema.items || { type: Type.STRING }, key, w));
+    }
+    case Type.NUMBER:
+    case Type.INTEGER:
+      return 0;
+    case Type.BOOLEAN:
+      return false;
+    default:
+      if (schema.enum?.length) return schema.enum[0];
+      if (key === 'sourceLang') return 'English';
+      return key === 'original' ? prompt : `[mock ${key}] ${prompt}`.trim();
+  }
+}
+
+export function createMockProvider(): AiProvider {
+  return {
+    name: 'mock',
+
+    async *streamChat(req: ChatRequest): AsyncGenerator<StreamChunk> {
+      const fixture = pickFixture(lastUserText(req));
+      const words = fixture.text.split(/(?<=\s)/);
+      for (let i = 0; i < words.length; i += WORDS_PER_CHUNK) {
+        await wait(CHUNK_DELAY_MS);
+        req.signal?.throwIfAborted();
+        yield { text: words.slice(i, i + WORDS_PER_CHUNK).join(''), sources: [] };
+      }
+      // Like Gemini, grounding arrives last; the demo cites the first sentence.
+      if (req.useSearch && fixture.sources.length) {
+        const end = fixture.text.search(/\.(\s|$)/) + 1;
+        yield { text: '', sources: fixture.sources, citations: end > 0 ? [{ end, uris: fixture.sources.map(s => s.uri) }] : [] };
+      }
+    },
+
+    async generateJson<T>({ prompt, schema }: JsonRequest): Promise<T> {
+      await wait(CHUNK_DELAY_MS);
+      return fakeFromSchema(schema, 'root', prompt) as T;
+    },
+  };
+}
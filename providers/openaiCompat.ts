@@ -0,0 +1,110 @@
+import { Schema, Type } from '@google/genai';
+import { AiProvider, ChatRequest, JsonRequest, StreamChunk } from './types';
+import { Part } from '../conversation';
+import { TutorError } from '../errors';
+
+// Adapter for local servers that speak the OpenAI chat-completions protocol
+// (llama.cpp, Ollama, LM Studio, vLLM...). Web search grounding is not
+// available there, so `useSearch` is ignored and no sources are returned.
+// Photos are sent as image_url parts, which vision models (llava, qwen-vl...)
+// understand; text-only models usually reject them.
+
+type ContentPart = { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } };
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ContentPart[];
+}
+
+function toContent(parts: Part[]): ChatMessage['content'] {
+  if (parts.every(p => 'text' in p)) return parts.map(p => (p as { text: string }).text).join('\n\n');
+  return parts.map(p => 'text' in p
+    ? { type: 'text' as const, text: p.text }
+    : { type: 'image_url' as const, image_url: { url: `data:${p.inlineData.mimeType};base64,${p.inlineData.data}` } });
+}
+
+function toMessages({ contents, systemInstruction }: ChatRequest): ChatMessage[] {
+  return [
+    { role: 'system', content: systemInstruction },
+    ...contents.map(t => ({
+      role: t.role === 'model' ? 'assistant' as const : 'user' as const,
+      content: toContent(t.parts),
+    })),
+  ];
+}
+
+// Gemini schemas use upper-case type names; JSON Schema wants lower-case.
+export function toJsonSchema(schema: Schema): Record<string, unknown> {
+  const out: Record<string, unknown> = { type: (schema.type || Type.STRING).toLowerCase() };
+  if (schema.description) out.description = schema.description;
+  if (schema.enum) out.enum = schema.enum;
+  if (schema.items) out.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    out.properties = Object.fromEntries(Object.entries(schema.properties).map(([k, v]) => [k, toJsonSchema(v)]));
+    out.required = schema.required || [];
+  }
+  return out;
+}
+
+export function createOpenAiCompatProvider(baseUrl: string, model: string): AiProvider {
+  const endpoint = `${baseUrl.replace(/\/$/, '')}/chat/completions`;
+
+  const post = async (body: object, signal?: AbortSignal) => {
+    const res = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model, ...body }),
+      signal,
+    });
+    if (!res.ok) {
+      throw Object.assign(new Error(`Local model responded ${res.status}: ${await res.text()}`), { status: res.status });
+    }
+    return res;
+  };
+
+  return {
+    name: 'openai-compatible',
+
+    async *streamChat(req: ChatRequest): AsyncGenerator<StreamChunk> {
+      const res = await post({ messages: toMessages(req), stream: true }, req.signal);
+      if (!res.body) throw new Error('Local model returned an empty stream');
+
+      const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const data = line.replace(/^data:\s*/, '').trim();
+          if (!data || !line.startsWith('data:')) continue;
+          if (data === '[DONE]') return;
+          const text = JSON.parse(data).choices?.[0]?.delta?.content;
+          if (text) yield { text, sources: [] };
+        }
+      }
+    },
+
+    async generateJson<T>({ prompt, systemInstruction, schema, media }: JsonRequest): Promise<T> {
+      // Chat-completions servers take images but not arbitrary audio formats
+      // such as the browser's webm recordings.
+      if (media?.some(m => !m.mimeType.startsWith('image/'))) {
+        throw new TutorError('unknown', 'Voice input needs the Gemini provider');
+      }
+      const res = await post({
+        messages: [
+          { role: 'system', content: systemInstruction },
+          { role: 'user', content: toContent([...(media || []).map(inlineData => ({ inlineData })), { text: prompt }]) },
+        ],
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'response', schema: toJsonSchema(schema) },
+        },
+      });
+      const json = await res.json();
+      return JSON.parse((json.choices?.[0]?.message?.content || '').trim());
+    },
+  };
+}
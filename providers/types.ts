@@ -0,0 +1,34 @@
+import type { Schema } from '@google/genai';
+import { Citation, Source } from '../types';
+import { InlineData, Turn } from '../conversation';
+
+export interface StreamChunk {
+  text: string;
+  sources: Source[];
+  citations?: Citation[];
+  // Set by the service layer, not by providers (see streamResponse).
+  promptVersion?: string;
+}
+
+export interface ChatRequest {
+  contents: Turn[];
+  systemInstruction: string;
+  useSearch?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface JsonRequest {
+  prompt: string;
+  systemInstruction: string;
+  schema: Schema;
+  // Audio or images the prompt refers to, sent ahead of it.
+  media?: InlineData[];
+}
+
+// A backend the tutor can talk to. Adapters translate these requests into
+// their own wire format; callers never touch a vendor SDK directly.
+export interface AiProvider {
+  readonly name: string;
+  streamChat(req: ChatRequest): AsyncGenerator<StreamChunk>;
+  generateJson<T>(req: JsonRequest): Promise<T>;
+}
@@ -0,0 +1,77 @@
+import { StreamChunk } from './providers';
+import { TutorError, isErrorKind } from './errors';
+
+// Browser side of server/proxy.ts. When AI_PROXY_URL is configured the
+// service functions forward their arguments here instead of calling a
+// provider, so the API key stays on the server.
+
+const PROXY_URL = process.env.AI_PROXY_URL;
+const DEVICE_KEY = 'signify-device-id';
+
+export function isProxied(): boolean {
+  return typeof window !== 'undefined' && !!PROXY_URL;
+}
+
+// Stable per-install id the proxy uses for per-device rate limits.
+function deviceId(): string {
+  let id = localStorage.getItem(DEVICE_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(DEVICE_KEY, id);
+  }
+  return id;
+}
+
+async function post(endpoint: string, body: object, signal?: AbortSignal): Promise<Response> {
+  const res = await fetch(`${PROXY_URL}/${endpoint}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Device-Id': deviceId() },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!res.ok) {
+    const retryAfter = Number(res.headers.get('Retry-After'));
+    throw fromPayload(await res.json().catch(() => ({})), res.status, retryAfter > 0 ? retryAfter * 1000 : undefined);
+  }
+  return res;
+}
+
+// Rebuilds the server's error (see server/proxy.ts) on this side of the wire.
+// Rate and daily limits are never retryable; callers that can wait (see
+// documentTranslation.ts) use the server's Retry-After instead.
+function fromPayload(payload: { error?: string; message?: string; retryable?: boolean }, status?: number, retryAfterMs?: number): TutorError {
+  const message = payload.message || `Proxy responded ${status}`;
+  if (payload.error === 'rate_limited' || payload.error === 'quota_exceeded') return new TutorError('quota', message, false, retryAfterMs);
+  const kind = isErrorKind(payload.error) ? payload.error : 'unknown';
+  return new TutorError(kind, message, payload.retryable ?? (status !== undefined && status >= 500));
+}
+
+// Aborting `signal` closes the connection, which also stops the upstream
+// request on the proxy. The proxy ends every answer with a done event, so a
+// stream that closes without one was cut off and is not a complete reply.
+export async function* proxyStream(endpoint: string, body: object, signal?: AbortSignal): AsyncGenerator<StreamChunk> {
+  const res = await post(endpoint, body, signal);
+  if (!res.body) throw new Error('Proxy returned an empty stream');
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) throw new TutorError('offline', 'The connection closed before the answer was complete', true);
+    buffer += value;
+    const events = buffer.split('\n\n');
+    buffer = events.pop() || '';
+    for (const raw of events) {
+      const event = raw.match(/^event: (.+)$/m)?.[1] || 'message';
+      const data = JSON.parse(raw.match(/^data: (.*)$/m)?.[1] || '{}');
+      if (event === 'done') return;
+      if (event === 'error') throw fromPayload(data);
+      yield data as StreamChunk;
+    }
+  }
+}
+
+export async function proxyJson<T>(endpoint: string, body: object): Promise<T> {
+  const res = await post(endpoint, body);
+  return res.json();
+}
@@ -0,0 +1,47 @@
+import { QuizAnswer, QuizQuestion, QuizResult, Quiz } from './types';
+
+// Share of keywords a short answer must mention to count as correct.
+const SHORT_PASS_MARK = 0.6;
+
+// Case, punctuation and spacing never cost marks. \p{L}/\p{N} keep Urdu and
+// Sindhi letters intact.
+export function normalise(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}\s.]/gu, ' ').replace(/\s+/g, ' ').trim();
+}
+
+export function scoreQuestion(q: QuizQuestion, response: string): QuizAnswer {
+  const given = normalise(response);
+  let score = 0;
+
+  if (q.kind === 'mcq') {
+    score = given !== '' && given === normalise(q.answer) ? 1 : 0;
+  } else if (q.kind === 'blank') {
+    // Teachers often accept alternatives written as "speed / velocity".
+    score = q.answer.split('/').map(normalise).some(a => a !== '' && a === given) ? 1 : 0;
+  } else {
+    const keywords = (q.keywords || []).map(normalise).filter(Boolean);
+    if (keywords.length) {
+      score = keywords.filter(k => given.includes(k)).length / keywords.length;
+    } else {
+      score = given !== '' && given.includes(normalise(q.answer)) ? 1 : 0;
+    }
+  }
+
+  return {
+    questionId: q.id,
+    response,
+    score,
+    correct: q.kind === 'short' ? score >= SHORT_PASS_MARK : score === 1,
+  };
+}
+
+export function scoreQuiz(quiz: Quiz, responses: Record<string, string>, startedAt: number): QuizResult {
+  const answers = quiz.questions.map(q => scoreQuestion(q, responses[q.id] || ''));
+  return {
+    quiz,
+    answers,
+    score: answers.reduce((sum, a) => sum + a.score, 0),
+    durationMs: Date.now() - startedAt,
+    finishedAt: Date.now(),
+  };
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { parseRoute, routeHash } from './routes';
+
+describe('parseRoute', () => {
+  it('is null for hashes that are not routes', () => {
+    expect(parseRoute('')).toBeNull();
+    expect(parseRoute('#assignment=zabc')).toBeNull();
+    expect(parseRoute('#/qa/%E0')).toBeNull();
+  });
+
+  it('falls back to the dashboard for unknown views', () => {
+    expect(parseRoute('#/')).toEqual({ view: 'dashboard' });
+    expect(parseRoute('#/nowhere')).toEqual({ view: 'dashboard' });
+    expect(parseRoute('#/constructor')).toEqual({ view: 'dashboard' });
+    expect(parseRoute('#/__proto__')).toEqual({ view: 'dashboard' });
+  });
+
+  it('reads subjects, including full names and any case', () => {
+    expect(parseRoute('#/qa/physics')).toEqual({ view: 'qa', subject: 'Physics' });
+    expect(parseRoute('#/books/Biology')).toEqual({ view: 'books', subject: 'Bio' });
+    expect(parseRoute('#/practical/maths')).toEqual({ view: 'practical', subject: 'Math' });
+  });
+
+  it('ignores subjects it does not know', () => {
+    expect(parseRoute('#/qa/astrology')?.subject).toBeUndefined();
+    expect(parseRoute('#/qa/constructor')?.subject).toBeUndefined();
+  });
+
+  it('reads the second tab only on the view that has it', () => {
+    expect(parseRoute('#/grammar/drills')).toEqual({ view: 'grammar', mode: 'drills' });
+    expect(parseRoute('#/translator/document')).toEqual({ view: 'translator', mode: 'document' });
+    expect(parseRoute('#/grammar/document')).toEqual({ view: 'grammar' });
+  });
+
+  it('decodes assignment ids', () => {
+    expect(parseRoute('#/assignment/a%2Fb')).toEqual({ view: 'assignment', id: 'a/b' });
+  });
+});
+
+describe('routeHash', () => {
+  it('round-trips through parseRoute', () => {
+    for (const hash of ['#/', '#/qa/physics', '#/grammar/drills', '#/translator/document', '#/assignment/a%2Fb', '#/settings']) {
+      expect(routeHash(parseRoute(hash)!)).toBe(hash);
+    }
+  });
+
+  it('drops parts the view does not use', () => {
+    expect(routeHash({ view: 'quiz', subject: 'Physics', mode: 'drills' })).toBe('#/quiz');
+  });
+});
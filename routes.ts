@@ -0,0 +1,75 @@
+import { AppView } from './types';
+import { SUBJECTS } from './constants';
+
+// Every view has an address, e.g. #/qa/physics or #/grammar/drills. Routes
+// live in the hash so deep links work wherever the static build is hosted,
+// and share links (#assignment=, see assignments.ts) keep working beside them.
+
+export type ViewMode = 'document' | 'drills';
+
+export interface Route {
+  view: AppView;
+  subject?: string;
+  // The second tab of the translator or the grammar view.
+  mode?: ViewMode;
+  // The assignment shown by #/assignment/<id>.
+  id?: string;
+}
+
+// Views that hold a chat thread, saved as a session.
+export const CHAT_VIEWS: AppView[] = ['qa', 'books', 'practical', 'grammar'];
+export const isChatView = (view: AppView) => CHAT_VIEWS.includes(view);
+
+// Listed as a record so a new AppView cannot be left out; an unknown or
+// stale link falls back to the dashboard.
+const VIEWS: Record<AppView, true> = {
+  dashboard: true, qa: true, books: true, practical: true, translator: true, grammar: true, quiz: true,
+  progress: true, teacher: true, assignment: true, vocabulary: true, about: true, contact: true, settings: true,
+};
+// Own keys only, so #/constructor is not taken for a view.
+const isView = (name: string): name is AppView => Object.prototype.hasOwnProperty.call(VIEWS, name);
+
+const SUBJECT_VIEWS: AppView[] = ['qa', 'books', 'practical'];
+const MODES: Partial<Record<AppView, ViewMode>> = { translator: 'document', grammar: 'drills' };
+
+// Full names students are likely to type for the short subject labels.
+const SUBJECT_ALIASES: Record<string, string> = { biology: 'Bio', mathematics: 'Math', maths: 'Math' };
+
+// Null for a malformed escape such as %E0, which decodeURIComponent throws on.
+function decode(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+}
+
+function subjectFromSlug(slug: string): string | undefined {
+  const s = slug.toLowerCase();
+  return SUBJECTS.find(x => x.toLowerCase() === s)
+    || (Object.prototype.hasOwnProperty.call(SUBJECT_ALIASES, s) ? SUBJECT_ALIASES[s] : undefined);
+}
+
+export function routeHash({ view, subject, mode, id }: Route): string {
+  const parts: string[] = view === 'dashboard' ? [] : [view];
+  if (SUBJECT_VIEWS.includes(view) && subject) parts.push(subject.toLowerCase());
+  if (mode && MODES[view] === mode) parts.push(mode);
+  if (view === 'assignment' && id) parts.push(encodeURIComponent(id));
+  return `#/${parts.join('/')}`;
+}
+
+// Null when the hash is not a route at all: empty, a share link, or an
+// address that cannot be decoded.
+export function parseRoute(hash: string): Route | null {
+  if (!hash.startsWith('#/')) return null;
+  const [name, raw] = hash.slice(2).split('/').filter(Boolean);
+  const arg = raw === undefined ? undefined : decode(raw);
+  if (arg === null) return null;
+  if (!name || !isView(name)) return { view: 'dashboard' };
+  const view = name;
+  const route: Route = { view };
+  if (arg && SUBJECT_VIEWS.includes(view)) route.subject = subjectFromSlug(arg);
+  if (arg && MODES[view] === arg) route.mode = MODES[view];
+  if (arg && view === 'assignment') route.id = arg;
+  return route;
+}
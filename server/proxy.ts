@@ -0,0 +1,278 @@
+import http from 'node:http';
+import { streamQa, streamBooks, streamPractical, streamGrammar, getTranslation, translateSentences, generateQuiz, generateDrills, gradeDrill, transcribeAudio } from '../geminiService';
+import { StreamChunk } from '../providers';
+import { Attachment, DrillExercise, Message, SourcePolicy } from '../types';
+import { createRateLimiter } from './rateLimit';
+import { MAX_ATTACHMENTS } from '../images';
+import { MAX_BATCH_CHARS, MAX_BATCH_SENTENCES, MAX_DOCUMENT_CHARS } from '../documentTranslation';
+import { toTutorError } from '../errors';
+import { normaliseDomain } from '../citations';
+import { DEFAULT_SOURCE_POLICY } from '../constants';
+import { DRILL_KINDS } from '../drills';
+import { toTutorSettings } from '../settings';
+import { isRecord, list } from '../guards';
+
+// Owns the Gemini key so it never reaches the browser. Each endpoint mirrors
+// one function from geminiService.ts and runs that same code server-side.
+//
+//   POST /api/qa | /api/books | /api/practical
+//        /api/grammar                                 -> text/event-stream
+//   POST /api/translate | /api/translate-sentences
+//        /api/quiz | /api/drills | /api/grade-drill
+//        /api/transcribe                              -> application/json
+//
+// Env: GEMINI_API_KEY (required), PROXY_PORT, ALLOWED_ORIGIN,
+// RATE_LIMIT_PER_MINUTE, DAILY_QUOTA (per device), IP_RATE_LIMIT_PER_MINUTE,
+// IP_DAILY_QUOTA (per client IP), TRUST_PROXY=1 behind a load balancer.
+
+process.env.API_KEY ||= process.env.GEMINI_API_KEY;
+
+const PORT = Number(process.env.PROXY_PORT) || 8787;
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN || '*';
+// Room for a few downscaled photos (see images.ts).
+const MAX_BODY_BYTES = 4_000_000;
+
+// A classroom or a whole school often shares one public IP, so that
+// allowance is many devices' worth.
+const limiter = createRateLimiter({
+  device: {
+    perMinute: Number(process.env.RATE_LIMIT_PER_MINUTE) || 10,
+    perDay: Number(process.env.DAILY_QUOTA) || 200,
+  },
+  ip: {
+    perMinute: Number(process.env.IP_RATE_LIMIT_PER_MINUTE) || 120,
+    perDay: Number(process.env.IP_DAILY_QUOTA) || 5000,
+  },
+});
+
+type Body = Record<string, unknown>;
+
+// Input the route cannot use; answered with a 400 rather than a retryable 502.
+class BadRequest extends Error {}
+
+const str = (v: unknown) => (typeof v === 'string' ? v : '');
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const isImage = (a: unknown): a is Attachment => isRecord(a) && IMAGE_TYPES.includes(str(a.mimeType)) && typeof a.data === 'string';
+const images = (v: unknown): Attachment[] => list(v).filter(isImage).slice(0, MAX_ATTACHMENTS);
+// Past turns go straight into buildContents (conversation.ts), so each one
+// must be a real message and its photos must pass the same checks as new ones.
+function historyEntry(v: unknown): Message {
+  if (!isRecord(v) || (v.sender !== 'user' && v.sender !== 'bot') || typeof v.text !== 'string') {
+    throw new BadRequest('Expected each history entry to have a sender and text');
+  }
+  if (v.attachments !== undefined && !(Array.isArray(v.attachments) && v.attachments.every(isImage))) {
+    throw new BadRequest('Expected history attachments to be JPEG, PNG or WebP images');
+  }
+  const attachments = (v.attachments as Attachment[] | undefined)?.map(a => ({ ...a, kind: 'image' as const }));
+  return { id: str(v.id), sender: v.sender, text: v.text, attachments };
+}
+function history(v: unknown): Message[] {
+  if (v === undefined) return [];
+  if (!Array.isArray(v)) throw new BadRequest('Expected history to be a list of messages');
+  return v.map(historyEntry);
+}
+// Domains only, and not too many of them: the lists end up in the prompt.
+const MAX_POLICY_DOMAINS = 30;
+const domains = (v: unknown): string[] => list(v)
+  .map(d => normaliseDomain(str(d))).filter(Boolean).slice(0, MAX_POLICY_DOMAINS);
+const policy = (v: unknown): SourcePolicy => (isRecord(v) ? { allow: domains(v.allow), deny: domains(v.deny) } : DEFAULT_SOURCE_POLICY);
+// Exercises come back from the client for grading, so only known kinds and
+// sentence-sized fields go into the prompt.
+const MAX_DRILL_FIELD = 500;
+const drillText = (v: unknown) => str(v).slice(0, MAX_DRILL_FIELD);
+function drillExercise(v: unknown): DrillExercise {
+  const kind = DRILL_KINDS.find(k => isRecord(v) && k.id === v.kind);
+  if (!isRecord(v) || !kind || !str(v.sentence)) throw new BadRequest('Expected a drill exercise');
+  return {
+    id: str(v.id),
+    kind: kind.id,
+    rule: str(v.rule),
+    instruction: drillText(v.instruction),
+    sentence: drillText(v.sentence),
+    answer: drillText(v.answer),
+    rubric: list(v.rubric).map(drillText).filter(Boolean).slice(0, 6),
+  };
+}
+
+// The body is read before the event stream opens, so bad input can still be
+// answered with a 400; the returned function starts the stream.
+type StreamRoute = (b: Body) => (signal: AbortSignal) => AsyncGenerator<StreamChunk>;
+const chatRoute = (stream: typeof streamQa): StreamRoute => b => {
+  const args = [str(b.prompt), str(b.subject), str(b.lang), history(b.history), images(b.images), policy(b.policy), toTutorSettings(b.tutor), b.grounded !== false] as const;
+  return signal => stream(...args, signal);
+};
+
+const STREAM_ROUTES: Record<string, StreamRoute> = {
+  qa: chatRoute(streamQa),
+  books: chatRoute(streamBooks),
+  practical: chatRoute(streamPractical),
+  grammar: b => {
+    const args = [str(b.prompt), str(b.lang), history(b.history), toTutorSettings(b.tutor)] as const;
+    return signal => streamGrammar(...args, signal);
+  },
+};
+
+// Like StreamRoute: the body is checked first, and the returned function
+// makes the model call.
+type JsonRoute = (b: Body) => () => Promise<unknown>;
+
+const JSON_ROUTES: Record<string, JsonRoute> = {
+  translate: b => {
+    const text = str(b.text);
+    if (!text.trim() || text.length > MAX_DOCUMENT_CHARS) throw new BadRequest(`Expected text of up to ${MAX_DOCUMENT_CHARS} characters`);
+    return () => getTranslation(text, str(b.targetLang));
+  },
+  'translate-sentences': b => {
+    const sentences = list(b.sentences).map(str).filter(Boolean).slice(0, MAX_BATCH_SENTENCES);
+    if (!sentences.length || sentences.join('').length > MAX_BATCH_CHARS) throw new BadRequest('Expected a batch of sentences');
+    return () => translateSentences(sentences, str(b.targetLang)).then(translations => ({ translations }));
+  },
+  quiz: b => {
+    const request = {
+      subject: str(b.subject),
+      chapter: str(b.chapter) || undefined,
+      lang: str(b.lang),
+      mcq: Math.min(Number(b.mcq) || 0, 20),
+      blank: Math.min(Number(b.blank) || 0, 20),
+      short: Math.min(Number(b.short) || 0, 20),
+      tutor: toTutorSettings(b.tutor),
+    };
+    return () => generateQuiz(request);
+  },
+  drills: b => {
+    const kind = DRILL_KINDS.find(k => k.id === b.kind);
+    if (!kind) throw new BadRequest('Expected a drill kind');
+    const rules = list(b.rules).map(str).filter(r => kind.rules.includes(r));
+    return () => generateDrills(kind.id, rules, Math.max(1, Math.min(Number(b.count) || 0, 10)));
+  },
+  'grade-drill': b => {
+    const args = [drillExercise(b.exercise), drillText(b.response), str(b.lang) || undefined, toTutorSettings(b.tutor)] as const;
+    return () => gradeDrill(...args);
+  },
+  transcribe: b => {
+    const audio = isRecord(b.audio) ? b.audio : {};
+    const mimeType = str(audio.mimeType);
+    if (!mimeType.startsWith('audio/')) throw new BadRequest('Expected an audio recording');
+    return () => transcribeAudio({ mimeType, data: str(audio.data) }, str(b.lang)).then(text => ({ text }));
+  },
+};
+
+function readBody(req: http.IncomingMessage): Promise<Body> {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (c: Buffer) => {
+      size += c.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+      } else chunks.push(c);
+    });
+    req.on('end', () => {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+      } catch {
+        reject(new Error('Malformed JSON body'));
+        return;
+      }
+      if (isRecord(parsed)) resolve(parsed);
+      else reject(new Error('Expected a JSON object'));
+    });
+    req.on('error', reject);
+  });
+}
+
+function clientKeys(req: http.IncomingMessage): string[] {
+  const forwarded = process.env.TRUST_PROXY === '1' ? str(req.headers['x-forwarded-for']).split(',')[0].trim() : '';
+  const ip = forwarded || req.socket.remoteAddress || 'unknown';
+  const device = str(req.headers['x-device-id']).slice(0, 64);
+  return device ? [`ip:${ip}`, `device:${device}`] : [`ip:${ip}`];
+}
+
+function sendJson(res: http.ServerResponse, status: number, payload: unknown, headers: http.OutgoingHttpHeaders = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(payload));
+}
+
+// The response closes early when the student presses Stop or navigates away;
+// aborting then cancels the upstream Gemini request too.
+async function pipeStream(res: http.ServerResponse, start: (signal: AbortSignal) => AsyncGenerator<StreamChunk>) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  try {
+    for await (const chunk of start(controller.signal)) {
+      res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+    }
+  } catch (e) {
+    if (controller.signal.aborted) return;
+    throw e;
+  }
+  res.end('event: done\ndata: {}\n\n');
+}
+
+const server = http.createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Device-Id');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  const name = (req.url || '').replace(/^\/api\//, '').split('?')[0];
+  const streamRoute = STREAM_ROUTES[name];
+  const jsonRoute = JSON_ROUTES[name];
+  if (req.method !== 'POST' || (!streamRoute && !jsonRoute)) {
+    sendJson(res, 404, { error: 'not_found', message: 'Unknown endpoint' });
+    return;
+  }
+
+  // Input is checked before the request is charged, so a 400 costs nothing.
+  let respond: () => Promise<void>;
+  try {
+    const body = await readBody(req);
+    if (streamRoute) {
+      const open = streamRoute(body);
+      respond = () => pipeStream(res, open);
+    } else {
+      const run = jsonRoute(body);
+      respond = async () => sendJson(res, 200, await run());
+    }
+  } catch (e) {
+    sendJson(res, 400, { error: 'bad_request', message: e instanceof Error ? e.message : 'Bad request' });
+    return;
+  }
+
+  const limit = limiter.check(clientKeys(req));
+  if (limit) {
+    const message = limit.reason === 'quota_exceeded'
+      ? 'Daily question limit reached. Please try again tomorrow.'
+      : 'Too many requests. Please wait a moment.';
+    sendJson(res, 429, { error: limit.reason, message }, { 'Retry-After': String(limit.retryAfter) });
+    return;
+  }
+
+  try {
+    await respond();
+  } catch (e) {
+    console.error(`[proxy] /api/${name} failed:`, e);
+    const err = toTutorError(e);
+    const payload = { error: err.kind, message: err.message, retryable: err.retryable };
+    if (!res.headersSent) sendJson(res, 502, payload);
+    else res.end(`event: error\ndata: ${JSON.stringify(payload)}\n\n`);
+  }
+});
+
+server.listen(PORT, () => {
+  if (!process.env.API_KEY) console.warn('[proxy] GEMINI_API_KEY is not set; requests will fail.');
+  console.log(`[proxy] listening on http://localhost:${PORT}`);
+});
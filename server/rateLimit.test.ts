@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { createRateLimiter } from './rateLimit';
+
+const NOW = Date.now();
+const limiter = () => createRateLimiter({ device: { perMinute: 2, perDay: 3 }, ip: { perMinute: 4, perDay: 100 } });
+
+describe('createRateLimiter', () => {
+  it('limits each scope by its own config', () => {
+    const l = limiter();
+    expect(l.check(['ip:a', 'device:1'], NOW)).toBeNull();
+    expect(l.check(['ip:a', 'device:1'], NOW + 1)).toBeNull();
+    expect(l.check(['ip:a', 'device:1'], NOW + 2)).toEqual({ reason: 'rate_limited', retryAfter: 60 });
+    // Other devices behind the same IP still get the IP's larger allowance.
+    expect(l.check(['ip:a', 'device:2'], NOW + 3)).toBeNull();
+    expect(l.check(['ip:a', 'device:3'], NOW + 4)).toBeNull();
+    expect(l.check(['ip:a', 'device:4'], NOW + 5)?.reason).toBe('rate_limited');
+  });
+
+  it('does not charge a rejected request', () => {
+    const l = limiter();
+    l.check(['device:1'], NOW);
+    l.check(['device:1'], NOW);
+    expect(l.check(['device:1'], NOW)).not.toBeNull();
+    expect(l.check(['device:1'], NOW + 60_000)).toBeNull();
+    expect(l.check(['device:1'], NOW + 60_001)?.reason).toBe('quota_exceeded');
+  });
+
+  it('forgets idle per-minute windows', () => {
+    const l = limiter();
+    l.check(['ip:a', 'device:1'], NOW);
+    l.check(['ip:b', 'device:2'], NOW + 30_000);
+    l.check(['ip:c'], NOW + 80_000);
+    expect(l.size()).toEqual({ recent: 3, daily: 5 });
+  });
+});
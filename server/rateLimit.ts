@@ -0,0 +1,79 @@
+// In-memory limits for the proxy. Every request is charged against each key
+// it carries (client IP and device id), so clearing site data or switching
+// networks alone does not reset a student's allowance. Keys are written
+// `<scope>:<id>` and each scope has its own limits: a whole school can share
+// one IP address, so the IP scope is set far higher than the device scope.
+
+export interface LimitConfig {
+  perMinute: number;
+  perDay: number;
+}
+
+export interface LimitRejection {
+  reason: 'rate_limited' | 'quota_exceeded';
+  retryAfter: number;
+}
+
+const MINUTE_MS = 60_000;
+
+const startOfNextUtcDay = (now: number) => {
+  const d = new Date(now);
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate() + 1);
+};
+
+export function createRateLimiter(scopes: Record<string, LimitConfig>) {
+  const recent = new Map<string, number[]>();
+  const daily = new Map<string, number>();
+  let dayEndsAt = startOfNextUtcDay(Date.now());
+  let prunedAt = 0;
+
+  const limitsFor = (key: string): LimitConfig => {
+    const scope = key.slice(0, key.indexOf(':'));
+    if (!Object.prototype.hasOwnProperty.call(scopes, scope)) throw new Error(`No limits for key scope "${scope}"`);
+    return scopes[scope];
+  };
+
+  // Drops per-minute windows nobody has used for a minute, at most once a
+  // minute, so idle clients do not stay in memory until the day rolls over.
+  const prune = (now: number) => {
+    if (now - prunedAt < MINUTE_MS) return;
+    prunedAt = now;
+    for (const [key, window] of recent) {
+      if (!window.length || now - window[window.length - 1] >= MINUTE_MS) recent.delete(key);
+    }
+  };
+
+  // Charges the request and returns null when it may proceed. Callers check
+  // the request first, so input answered with a 400 costs nothing.
+  const check = (keys: string[], now = Date.now()): LimitRejection | null => {
+    if (now >= dayEndsAt) {
+      daily.clear();
+      recent.clear();
+      dayEndsAt = startOfNextUtcDay(now);
+    }
+    prune(now);
+
+    for (const key of keys) {
+      const { perMinute, perDay } = limitsFor(key);
+      if ((daily.get(key) || 0) >= perDay) {
+        return { reason: 'quota_exceeded', retryAfter: Math.ceil((dayEndsAt - now) / 1000) };
+      }
+      const window = (recent.get(key) || []).filter(t => now - t < MINUTE_MS);
+      recent.set(key, window);
+      if (window.length >= perMinute) {
+        return { reason: 'rate_limited', retryAfter: Math.ceil((MINUTE_MS - (now - window[0])) / 1000) };
+      }
+    }
+
+    for (const key of keys) {
+      recent.get(key)!.push(now);
+      daily.set(key, (daily.get(key) || 0) + 1);
+    }
+    return null;
+  };
+
+  // Keys currently held, for tests and diagnostics.
+  const size = () => ({ recent: recent.size, daily: daily.size });
+
+  return { check, size };
+}
@@ -0,0 +1,65 @@
+import { STORES, withStore } from './db';
+import { AppView, ChatSession, Message } from './types';
+
+const TITLE_LENGTH = 60;
+
+export function deriveTitle(messages: Message[]): string {
+  const question = messages.find(m => m.sender === 'user');
+  const first = question?.text.trim() || (question?.attachments?.length ? 'Photo question' : 'New chat');
+  return first.length > TITLE_LENGTH ? `${first.slice(0, TITLE_LENGTH - 1)}…` : first;
+}
+
+export function createSession(view: AppView, subject: string, lang: string): ChatSession {
+  const now = Date.now();
+  return {
+    id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+    title: '',
+    view,
+    subject,
+    lang,
+    messages: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// The stored title wins so a rename from the history list is not overwritten
+// by the in-memory copy of the open thread.
+export async function saveSession(session: ChatSession): Promise<ChatSession> {
+  const existing = await getSession(session.id);
+  const saved = {
+    ...session,
+    title: existing?.title || session.title || deriveTitle(session.messages),
+    updatedAt: Date.now(),
+  };
+  await withStore(STORES.sessions, 'readwrite', s => s.put(saved));
+  return saved;
+}
+
+export function getSession(id: string): Promise<ChatSession | undefined> {
+  return withStore<ChatSession | undefined>(STORES.sessions, 'readonly', s => s.get(id));
+}
+
+export async function renameSession(id: string, title: string): Promise<void> {
+  const session = await getSession(id);
+  if (!session) return;
+  await withStore(STORES.sessions, 'readwrite', s => s.put({ ...session, title: title.trim() || deriveTitle(session.messages) }));
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await withStore(STORES.sessions, 'readwrite', s => s.delete(id));
+}
+
+// Newest first. The query matches the title, subject or any message text.
+export async function listSessions(view?: AppView, query = ''): Promise<ChatSession[]> {
+  const all = await withStore<ChatSession[]>(STORES.sessions, 'readonly', s =>
+    view ? s.index('view').getAll(view) : s.getAll()
+  );
+  const q = query.trim().toLowerCase();
+  return all
+    .filter(session => !q
+      || session.title.toLowerCase().includes(q)
+      || session.subject.toLowerCase().includes(q)
+      || session.messages.some(m => m.text.toLowerCase().includes(q)))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
@@ -0,0 +1,166 @@
+import { Settings, SourcePolicy, TutorSettings } from './types';
+import { ANSWER_LANGUAGES, DEFAULT_SOURCE_POLICY, DEFAULT_TUTOR_SETTINGS, SUBJECTS } from './constants';
+import { normaliseDomain } from './citations';
+import { isRecord, list } from './guards';
+
+// Device settings in localStorage under one versioned key. Stored values are
+// migrated forward on load and checked field by field, so a bad or stale
+// entry falls back to its default instead of breaking the app.
+
+const SETTINGS_KEY = 'signify-settings';
+
+// Each migration takes the stored object at version i to version i + 1.
+// Append to the list when the schema changes; never edit an old step.
+type Stored = Record<string, unknown>;
+const MIGRATIONS: ((stored: Stored) => Stored)[] = [
+  // 0 -> 1: preferences that used to have keys of their own.
+  stored => {
+    const legacy = (key: string): unknown => {
+      try {
+        return JSON.parse(localStorage.getItem(key) || 'null');
+      } catch {
+        return null;
+      }
+    };
+    return { ...stored, sourcePolicy: legacy('signify-sources'), tutor: legacy('signify-tutor'), voices: legacy('signify-voices') };
+  },
+];
+const LEGACY_KEYS = ['signify-sources', 'signify-tutor', 'signify-voices'];
+
+export const SETTINGS_VERSION = MIGRATIONS.length;
+
+export const DEFAULT_SETTINGS: Settings = {
+  defaultSubject: SUBJECTS[0],
+  answerLang: ANSWER_LANGUAGES[0],
+  uiLang: 'en',
+  theme: 'dark',
+  textSize: 'medium',
+  dataSaver: false,
+  searchGrounding: true,
+  tutor: DEFAULT_TUTOR_SETTINGS,
+  sourcePolicy: DEFAULT_SOURCE_POLICY,
+  voices: {},
+};
+
+export const TUTOR_OPTIONS: { [K in keyof TutorSettings]: TutorSettings[K][] } = {
+  tone: ['friendly', 'formal', 'concise'],
+  languageMix: ['pure', 'terms', 'bilingual'],
+  scope: ['syllabus', 'extended'],
+};
+
+export const SETTING_OPTIONS = {
+  uiLang: ['en', 'ur', 'sd'] as Settings['uiLang'][],
+  theme: ['dark', 'light'] as Settings['theme'][],
+  textSize: ['small', 'medium', 'large'] as Settings['textSize'][],
+};
+
+const oneOf = <T>(options: readonly T[], v: unknown, fallback: T): T => (options.includes(v as T) ? v as T : fallback);
+
+// Unknown or missing values fall back to the defaults, so stored settings
+// and proxy request bodies can be trusted after this.
+export function toTutorSettings(v: unknown): TutorSettings {
+  const t = isRecord(v) ? v : {};
+  const pick = <K extends keyof TutorSettings>(key: K): TutorSettings[K] => oneOf(TUTOR_OPTIONS[key], t[key], DEFAULT_TUTOR_SETTINGS[key]);
+  return { tone: pick('tone'), languageMix: pick('languageMix'), scope: pick('scope') };
+}
+
+function toSourcePolicy(v: unknown): SourcePolicy {
+  if (!isRecord(v) || !Array.isArray(v.allow) || !Array.isArray(v.deny)) return DEFAULT_SOURCE_POLICY;
+  const domains = (items: unknown) => list(items).map(d => normaliseDomain(String(d))).filter(Boolean);
+  return { allow: domains(v.allow), deny: domains(v.deny) };
+}
+
+function toSettings(v: unknown): Settings {
+  const d = DEFAULT_SETTINGS;
+  const s = isRecord(v) ? v : {};
+  const voices = isRecord(s.voices) ? s.voices : {};
+  return {
+    defaultSubject: oneOf(SUBJECTS, s.defaultSubject, d.defaultSubject),
+    answerLang: oneOf(ANSWER_LANGUAGES, s.answerLang, d.answerLang),
+    uiLang: oneOf(SETTING_OPTIONS.uiLang, s.uiLang, d.uiLang),
+    theme: oneOf(SETTING_OPTIONS.theme, s.theme, d.theme),
+    textSize: oneOf(SETTING_OPTIONS.textSize, s.textSize, d.textSize),
+    dataSaver: typeof s.dataSaver === 'boolean' ? s.dataSaver : d.dataSaver,
+    searchGrounding: typeof s.searchGrounding === 'boolean' ? s.searchGrounding : d.searchGrounding,
+    tutor: toTutorSettings(s.tutor),
+    sourcePolicy: toSourcePolicy(s.sourcePolicy),
+    voices: Object.fromEntries(Object.entries(voices).filter(([, uri]) => typeof uri === 'string')) as Record<string, string>,
+  };
+}
+
+function read(): Settings {
+  let stored: Stored = {};
+  let version = 0;
+  try {
+    const raw: unknown = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    if (isRecord(raw)) {
+      version = Number(raw.version) || 0;
+      stored = isRecord(raw.settings) ? raw.settings : {};
+    }
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+  if (version >= SETTINGS_VERSION) return toSettings(stored);
+  const settings = toSettings(MIGRATIONS.slice(version).reduce((s, migrate) => migrate(s), stored));
+  write(settings);
+  LEGACY_KEYS.forEach(key => localStorage.removeItem(key));
+  return settings;
+}
+
+// Storage can be full or, in Safari private mode, unavailable. The settings
+// then still apply in memory for the rest of the session.
+function write(settings: Settings) {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify({ version: SETTINGS_VERSION, settings }));
+  } catch (err) {
+    console.error(err);
+  }
+}
+
+let current: Settings | null = null;
+const listeners = new Set<() => void>();
+
+// The same object until the settings change, as useSyncExternalStore needs.
+export function loadSettings(): Settings {
+  if (!current) current = typeof localStorage === 'undefined' ? DEFAULT_SETTINGS : read();
+  return current;
+}
+
+export function updateSettings(patch: Partial<Settings>) {
+  current = toSettings({ ...loadSettings(), ...patch });
+  write(current);
+  listeners.forEach(l => l());
+}
+
+// Also fires when another tab changes the settings.
+export function subscribeSettings(listener: () => void): () => void {
+  const onStorage = (e: StorageEvent) => {
+    if (e.key !== SETTINGS_KEY) return;
+    current = null;
+    listener();
+  };
+  listeners.add(listener);
+  window.addEventListener('storage', onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', onStorage);
+  };
+}
+
+// Whether chat answers may search the web.
+export const groundingOn = (settings: Settings) => settings.searchGrounding && !settings.dataSaver;
+
+const TEXT_SIZES: Record<Settings['textSize'], string> = { small: '14px', medium: '16px', large: '18px' };
+
+// Theme, text size and language live on <html>: the theme swaps the slate
+// palette (see index.html), text sizes are rem-based, and Urdu and Sindhi
+// mirror the layout, which uses logical classes (ms-, pe-, text-start).
+export function applyDisplaySettings(settings: Settings) {
+  const root = document.documentElement;
+  root.classList.toggle('light', settings.theme === 'light');
+  root.classList.toggle('dark', settings.theme === 'dark');
+  root.style.fontSize = TEXT_SIZES[settings.textSize];
+  root.lang = settings.uiLang;
+  root.dir = settings.uiLang === 'en' ? 'ltr' : 'rtl';
+  document.querySelector('meta[name="theme-color"]')?.setAttribute('content', settings.theme === 'light' ? '#f8fafc' : '#0f172a');
+}
@@ -0,0 +1,67 @@
+import { loadSettings, updateSettings } from './settings';
+
+// Read-aloud on top of the browser's speech synthesis. Voices are whatever
+// the device has installed, so each language lists fallbacks: few phones ship
+// a Sindhi voice, and an Urdu one reads Sindhi script passably.
+
+const LANG_TAGS: Record<string, string[]> = {
+  English: ['en-GB', 'en-US', 'en'],
+  Urdu: ['ur-PK', 'ur'],
+  Sindhi: ['sd', 'ur'],
+};
+
+export const speechTag = (lang: string) => (LANG_TAGS[lang] || ['en'])[0];
+
+export function canSpeak(): boolean {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window;
+}
+
+// Voices usable for `lang`, best match first.
+export function voicesFor(lang: string): SpeechSynthesisVoice[] {
+  if (!canSpeak()) return [];
+  const all = speechSynthesis.getVoices();
+  const tags = LANG_TAGS[lang] || ['en'];
+  const rank = (v: SpeechSynthesisVoice) => {
+    const i = tags.findIndex(t => v.lang.toLowerCase().replace('_', '-').startsWith(t.toLowerCase()));
+    return i === -1 ? Infinity : i;
+  };
+  return all.filter(v => rank(v) !== Infinity).sort((a, b) => rank(a) - rank(b));
+}
+
+export function preferredVoice(lang: string): SpeechSynthesisVoice | undefined {
+  const voices = voicesFor(lang);
+  const chosen = loadSettings().voices[lang];
+  return voices.find(v => v.voiceURI === chosen) || voices[0];
+}
+
+export function choosePreferredVoice(lang: string, voiceURI: string) {
+  updateSettings({ voices: { ...loadSettings().voices, [lang]: voiceURI } });
+}
+
+// Markdown answers are read as prose: formatting marks, table rules and code
+// fences are dropped, link text is kept.
+export function toSpokenText(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s*\|?\s*:?-{3,}.*$/gm, '')
+    .replace(/\|/g, ', ')
+    .replace(/^\s{0,3}(#{1,6}|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/[*_`~>#]/g, '');
+}
+
+// Speaking one sentence per utterance gives the highlight something to follow
+// and avoids Chrome cutting off long utterances after ~15 seconds.
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?۔؟])\s+|\n+/)
+    .map(s => s.replace(/\s+/g, ' ').replace(/^[,\s]+|[,\s]+$/g, ''))
+    .filter(s => /[\p{L}\p{N}]/u.test(s));
+}
+
+// Only one reader can speak at a time. Each start takes a new turn number, so
+// a reader whose speech was cancelled by another can tell and reset itself.
+let turn = 0;
+export const claimSpeech = () => ++turn;
+export const ownsSpeech = (t: number) => t === turn;
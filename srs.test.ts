@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { newCard, qualityFromScore, schedule } from './srs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 1);
+
+describe('schedule', () => {
+  it('spaces successful reviews 1, 6 and then ease × interval days apart', () => {
+    let card = newCard('Physics', 'Motion', 'qa', 'Explain motion', NOW);
+    card = schedule(card, 4, NOW);
+    expect(card).toMatchObject({ repetitions: 1, intervalDays: 1, due: NOW + DAY_MS, lastReviewed: NOW });
+    card = schedule(card, 4, NOW);
+    expect(card).toMatchObject({ repetitions: 2, intervalDays: 6 });
+    card = schedule(card, 4, NOW);
+    expect(card).toMatchObject({ repetitions: 3, intervalDays: 15, ease: 2.5 });
+  });
+
+  it('restarts a forgotten card', () => {
+    const learnt = { ...newCard('Bio', 'Cells', 'qa', 'Cells', NOW), repetitions: 4, intervalDays: 30 };
+    expect(schedule(learnt, 1, NOW)).toMatchObject({ repetitions: 0, intervalDays: 1, due: NOW + DAY_MS });
+  });
+
+  it('never lets ease fall below 1.3', () => {
+    let card = newCard('Bio', 'Cells', 'qa', 'Cells', NOW);
+    for (let i = 0; i < 10; i++) card = schedule(card, 0, NOW);
+    expect(card.ease).toBe(1.3);
+  });
+});
+
+describe('qualityFromScore', () => {
+  it('maps a 0–1 score onto 0–5 and clamps it', () => {
+    expect([-1, 0, 0.5, 0.79, 1, 2].map(qualityFromScore)).toEqual([0, 0, 3, 4, 5, 5]);
+  });
+});
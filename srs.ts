@@ -0,0 +1,51 @@
+import { AppView, ReviewCard, Schedule } from './types';
+import type { MessageKey } from './i18n';
+
+// SM-2 scheduling (the SuperMemo-2 algorithm Anki is based on). Quality runs
+// 0–5; anything below 3 counts as forgotten and restarts the card.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+const START_EASE = 2.5;
+
+export type Quality = 0 | 1 | 2 | 3 | 4 | 5;
+
+export const cardId = (subject: string, topic: string) => `${subject}:${topic}`.toLowerCase();
+
+// Grades offered after a review, from forgotten to effortless.
+export const REVIEW_GRADES: { label: MessageKey; quality: Quality }[] = [
+  { label: 'grade.again', quality: 1 },
+  { label: 'grade.hard', quality: 3 },
+  { label: 'grade.good', quality: 4 },
+  { label: 'grade.easy', quality: 5 },
+];
+
+export const unscheduled = (due: number): Schedule => ({ ease: START_EASE, intervalDays: 0, repetitions: 0, due });
+
+export function newCard(subject: string, topic: string, view: AppView, prompt: string, now = Date.now()): ReviewCard {
+  return {
+    id: cardId(subject, topic),
+    subject,
+    topic,
+    view,
+    prompt,
+    ...unscheduled(now + DAY_MS),
+  };
+}
+
+export function schedule<T extends Schedule>(card: T, quality: Quality, now = Date.now()): T {
+  let { ease, intervalDays, repetitions } = card;
+  if (quality < 3) {
+    repetitions = 0;
+    intervalDays = 1;
+  } else {
+    intervalDays = repetitions === 0 ? 1 : repetitions === 1 ? 6 : Math.round(intervalDays * ease);
+    repetitions += 1;
+  }
+  ease = Math.max(MIN_EASE, ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+  return { ...card, ease, intervalDays, repetitions, due: now + intervalDays * DAY_MS, lastReviewed: now };
+}
+
+// Maps a 0–1 score (a quiz result) onto SM-2 quality.
+export const qualityFromScore = (score: number): Quality =>
+  Math.max(0, Math.min(5, Math.round(score * 5))) as Quality;
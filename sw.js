@@ -1,19 +1,126 @@
-const CACHE_NAME = 'signify-v6';
-const ASSETS = [
-  './',
-  './index.html',
-  './manifest.json',
-  './index.tsx'
+// Production builds replace the null below with { version, assets } listing
+// every emitted file (see the precache plugin in vite.config.ts). In dev it
+// stays null and only the app shell is cached.
+const BUILD = /*__PRECACHE_MANIFEST__*/ null;
+
+const VERSION = BUILD ? BUILD.version : 'dev';
+const PRECACHE = `signify-precache-${VERSION}`;
+const RUNTIME = `signify-runtime-${VERSION}`;
+const ASSETS = BUILD ? BUILD.assets : ['./', './index.html', './manifest.json'];
+
+// Third-party files the app cannot start without: Tailwind and fonts.
+// Served from cache first and refreshed in the background.
+const RUNTIME_HOSTS = [
+  'cdn.tailwindcss.com',
+  'fonts.googleapis.com',
+  'fonts.gstatic.com',
+  'cdn.jsdelivr.net',
+  'aistudiocdn.com',
+  'esm.sh',
+];
+
+// Files edited on the deployed site without a rebuild (see vite.config.ts).
+// Fetched network-first so an edit reaches installed copies; the cached copy
+// is only used offline. Warmed at install like the CDN shell.
+const LIVE_FILES = ['./curriculum.json'];
+
+// Warmed at install so the first offline launch already has styles and fonts.
+const CDN_SHELL = [
+  'https://cdn.tailwindcss.com',
+  'https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700;800&family=Noto+Naskh+Arabic:wght@400;700&display=swap',
 ];
 
 self.addEventListener('install', (e) => {
   e.waitUntil(
-    caches.open(CACHE_NAME).then((cache) => cache.addAll(ASSETS))
+    Promise.all([
+      caches.open(PRECACHE).then((cache) => cache.addAll(ASSETS)),
+      caches.open(RUNTIME).then((cache) => cache.addAll(CDN_SHELL)).catch(() => {}),
+      caches.open(RUNTIME).then((cache) => cache.addAll(LIVE_FILES)).catch(() => {}),
+    ]).then(() => self.skipWaiting())
   );
 });
 
+self.addEventListener('activate', (e) => {
+  e.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys.filter((k) => k.startsWith('signify-') && k !== PRECACHE && k !== RUNTIME).map((k) => caches.delete(k))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+async function staleWhileRevalidate(request) {
+  const cache = await caches.open(RUNTIME);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then((res) => {
+      if (res.ok || res.type === 'opaque') cache.put(request, res.clone());
+      return res;
+    })
+    .catch(() => cached);
+  return cached || network;
+}
+
+async function networkFirstPage(request) {
+  try {
+    const res = await fetch(request);
+    // An error page must not replace the offline shell.
+    if (res.ok) (await caches.open(RUNTIME)).put('./index.html', res.clone());
+    return res;
+  } catch (err) {
+    return (await caches.match('./index.html')) || (await caches.match('./')) || Response.error();
+  }
+}
+
+async function networkFirst(request) {
+  try {
+    const res = await fetch(request);
+    if (res.ok) (await caches.open(RUNTIME)).put(request, res.clone());
+    return res;
+  } catch (err) {
+    return (await caches.match(request)) || Response.error();
+  }
+}
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const res = await fetch(request);
+  if (res.ok) (await caches.open(RUNTIME)).put(request, res.clone());
+  return res;
+}
+
 self.addEventListener('fetch', (e) => {
-  e.respondWith(
-    fetch(e.request).catch(() => caches.match(e.request))
+  const { request } = e;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  // AI answers are never cached here; offline questions go to the outbox.
+  if (url.origin === self.location.origin && url.pathname.startsWith('/api/')) return;
+
+  if (request.mode === 'navigate') {
+    e.respondWith(networkFirstPage(request));
+  } else if (url.origin === self.location.origin && LIVE_FILES.some((f) => new URL(f, self.location.href).pathname === url.pathname)) {
+    e.respondWith(networkFirst(request));
+  } else if (url.origin === self.location.origin) {
+    // Dev-server modules change constantly, so only hashed build output is
+    // served cache-first.
+    e.respondWith(BUILD ? cacheFirst(request) : fetch(request).catch(() => caches.match(request)));
+  } else if (RUNTIME_HOSTS.includes(url.hostname)) {
+    e.respondWith(staleWhileRevalidate(request));
+  }
+});
+
+// Background sync fires once connectivity returns. Sending needs the app's
+// streaming code, so the open page does the work; if no page is open the sync
+// fails and the browser retries it later.
+self.addEventListener('sync', (e) => {
+  if (e.tag !== 'outbox') return;
+  e.waitUntil(
+    self.clients.matchAll({ type: 'window' }).then((clients) => {
+      if (clients.length === 0) throw new Error('No open client to flush the outbox');
+      clients.forEach((client) => client.postMessage({ type: 'flush-outbox' }));
+    })
   );
-});
\ No newline at end of file
+});
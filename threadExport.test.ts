@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { parseThread, threadToJson } from './threadExport';
+import { ChatSession } from './types';
+
+const session: ChatSession = {
+  id: 'original',
+  view: 'qa',
+  subject: 'Physics',
+  lang: 'English',
+  title: 'Motion',
+  messages: [
+    { id: 'm1', text: 'What is velocity?', sender: 'user' },
+    {
+      id: 'm2',
+      text: 'Speed in a given direction.',
+      sender: 'bot',
+      sources: [{ uri: 'https://example.org/v', title: 'Velocity' }],
+      citations: [{ end: 10, uris: ['https://example.org/v'] }],
+      promptVersion: '3',
+    },
+  ],
+  createdAt: 1_700_000_000_000,
+  updatedAt: 1_700_000_000_000,
+};
+
+const exportOf = (s: unknown) => JSON.stringify({ format: 'signify-thread', version: 1, session: s });
+
+describe('parseThread', () => {
+  it('reads back an exported thread under a new id', () => {
+    const imported = parseThread(threadToJson(session));
+    expect(imported.id).not.toBe(session.id);
+    expect(imported).toMatchObject({ view: 'qa', subject: 'Physics', lang: 'English', title: 'Motion', createdAt: session.createdAt });
+    expect(imported.messages).toEqual(session.messages);
+  });
+
+  it('rejects files that are not thread exports', () => {
+    expect(() => parseThread('not json')).toThrow(/not a SigNify thread export/);
+    expect(() => parseThread('null')).toThrow(/not a SigNify thread export/);
+    expect(() => parseThread(JSON.stringify({ format: 'other', session }))).toThrow(/not a SigNify thread export/);
+    expect(() => parseThread(exportOf({ ...session, messages: 'none' }))).toThrow(/not a SigNify thread export/);
+  });
+
+  it('falls back to defaults for a missing or unknown view and language', () => {
+    const imported = parseThread(exportOf({ view: 'settings', messages: [] }));
+    expect(imported).toMatchObject({ view: 'qa', subject: '', lang: 'English', title: '', messages: [] });
+  });
+
+  it('drops messages it cannot read', () => {
+    const imported = parseThread(exportOf({ ...session, messages: [null, 'hi', { text: 'x', sender: 'admin' }, { sender: 'user' }, session.messages[0]] }));
+    expect(imported.messages).toEqual([session.messages[0]]);
+  });
+
+  it('keeps only the fields a message has', () => {
+    const imported = parseThread(exportOf({
+      ...session,
+      messages: [{
+        text: 'Answer',
+        sender: 'bot',
+        pending: true,
+        html: '<img onerror=alert(1)>',
+        sources: [{ uri: 'https://a.example' }, { title: 'no uri' }],
+        citations: [{ end: 'x' }, { end: 3, uris: ['https://a.example', 7] }],
+        attachments: [{ id: 'a', kind: 'image', mimeType: 'text/html', data: '', width: 1, height: 1 }],
+      }],
+    }));
+    expect(imported.messages).toEqual([{
+      id: 'imported-0',
+      text: 'Answer',
+      sender: 'bot',
+      sources: [{ uri: 'https://a.example', title: 'https://a.example' }],
+      citations: [{ end: 3, uris: ['https://a.example'] }],
+    }]);
+  });
+
+  it('keeps known error kinds and drops the rest', () => {
+    const imported = parseThread(exportOf({
+      ...session,
+      messages: [
+        { id: 'a', text: '', sender: 'bot', error: { kind: 'offline' } },
+        { id: 'b', text: '', sender: 'bot', error: { kind: 'constructor' } },
+      ],
+    }));
+    expect(imported.messages.map(m => m.error)).toEqual([{ kind: 'offline' }, undefined]);
+  });
+});
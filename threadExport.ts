@@ -0,0 +1,136 @@
+import { Attachment, ChatSession, Citation, Message, Source } from './types';
+import { createSession, saveSession } from './sessionStore';
+import { CHAT_VIEWS } from './routes';
+import { isErrorKind } from './errors';
+import { isRecord, list } from './guards';
+import { Translate, valueLabel } from './i18n';
+
+// Turns a saved thread into files a student can keep or move to another
+// device. Printing (and "Save as PDF") is done by PrintView with the print
+// stylesheet in index.html; this module covers Markdown and JSON.
+
+const FORMAT = 'signify-thread';
+const FORMAT_VERSION = 1;
+
+export interface ExportedThread {
+  format: typeof FORMAT;
+  version: number;
+  exportedAt: string;
+  session: ChatSession;
+}
+
+// A bot answer with the question that prompted it.
+export interface AnswerPair {
+  question?: Message;
+  answer: Message;
+}
+
+// The answers to include, oldest first. `selected` limits them to the given
+// bot message ids.
+export function answerPairs(messages: Message[], selected?: Set<string>): AnswerPair[] {
+  return messages
+    .map((m, i) => ({ m, i }))
+    .filter(({ m }) => m.sender === 'bot' && m.text.trim() && (!selected || selected.has(m.id)))
+    .map(({ m, i }) => ({ answer: m, question: messages[i - 1]?.sender === 'user' ? messages[i - 1] : undefined }));
+}
+
+// Every source cited in the exported answers, once, in order of first use.
+export function collectSources(pairs: AnswerPair[]): Source[] {
+  const seen = new Map<string, Source>();
+  pairs.forEach(p => (p.answer.sources || []).forEach(s => { if (!seen.has(s.uri)) seen.set(s.uri, s); }));
+  return [...seen.values()];
+}
+
+const slug = (text: string) =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').slice(0, 50) || 'thread';
+
+export const exportFileName = (session: ChatSession, ext: string) =>
+  `signify-${session.subject.toLowerCase()}-${slug(session.title)}.${ext}`;
+
+// Headings are in the interface language, like the rest of the export sheet.
+export function threadToMarkdown(t: Translate, session: ChatSession, selected?: Set<string>): string {
+  const pairs = answerPairs(session.messages, selected);
+  const sources = collectSources(pairs);
+  const lines = [
+    `# ${session.title || t('export.studyNotes')}`,
+    '',
+    `*${valueLabel(t, 'subject', session.subject)} · ${valueLabel(t, 'lang', session.lang)} · ${new Date(session.updatedAt).toLocaleDateString()}*`,
+    '',
+  ];
+  pairs.forEach(({ question, answer }, i) => {
+    const heading = question?.text.trim() || (question?.attachments?.length ? t('export.photoQuestion') : t('export.answerN', { n: i + 1 }));
+    lines.push(`## ${heading.replace(/\s+/g, ' ')}`, '', answer.text.trim(), '');
+  });
+  if (sources.length) {
+    lines.push(`## ${t('export.sources')}`, '', ...sources.map((s, i) => `${i + 1}. [${s.title}](${s.uri})`), '');
+  }
+  return lines.join('\n');
+}
+
+export function threadToJson(session: ChatSession): string {
+  const payload: ExportedThread = { format: FORMAT, version: FORMAT_VERSION, exportedAt: new Date().toISOString(), session };
+  return JSON.stringify(payload, null, 2);
+}
+
+const text = (v: unknown) => (typeof v === 'string' ? v : '');
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+const parseSource = (v: unknown): Source[] =>
+  isRecord(v) && typeof v.uri === 'string' ? [{ uri: v.uri, title: text(v.title) || v.uri }] : [];
+
+const parseCitation = (v: unknown): Citation[] =>
+  isRecord(v) && isNumber(v.end) ? [{ end: v.end, uris: list(v.uris).filter((u): u is string => typeof u === 'string') }] : [];
+
+const parseAttachment = (v: unknown): Attachment[] =>
+  isRecord(v) && v.kind === 'image' && typeof v.id === 'string' && typeof v.mimeType === 'string' && v.mimeType.startsWith('image/')
+    && typeof v.data === 'string' && isNumber(v.width) && isNumber(v.height)
+    ? [{ id: v.id, kind: 'image', mimeType: v.mimeType, data: v.data, width: v.width, height: v.height }]
+    : [];
+
+// Rebuilt field by field, so nothing the app does not know about is stored.
+function parseMessage(v: unknown, i: number): Message[] {
+  if (!isRecord(v) || typeof v.text !== 'string' || (v.sender !== 'user' && v.sender !== 'bot')) return [];
+  const m: Message = { id: typeof v.id === 'string' && v.id ? v.id : `imported-${i}`, text: v.text, sender: v.sender };
+  const sources = list(v.sources).flatMap(parseSource);
+  const citations = list(v.citations).flatMap(parseCitation);
+  const attachments = list(v.attachments).flatMap(parseAttachment);
+  if (sources.length) m.sources = sources;
+  if (citations.length) m.citations = citations;
+  if (attachments.length) m.attachments = attachments;
+  if (isRecord(v.error) && isErrorKind(v.error.kind)) m.error = { kind: v.error.kind };
+  if (typeof v.promptVersion === 'string') m.promptVersion = v.promptVersion;
+  return [m];
+}
+
+// Reads an exported thread as a new conversation. The copy gets a fresh id so
+// importing twice, or on the original device, never overwrites a thread.
+export function parseThread(json: string): ChatSession {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('This file is not a SigNify thread export.');
+  }
+  const s = isRecord(data) ? data.session : undefined;
+  if (!isRecord(data) || data.format !== FORMAT || !isRecord(s) || !Array.isArray(s.messages)) {
+    throw new Error('This file is not a SigNify thread export.');
+  }
+  const view = CHAT_VIEWS.find(v => v === s.view) || 'qa';
+  const fresh = createSession(view, text(s.subject), text(s.lang) || 'English');
+  const messages = list(s.messages).flatMap(parseMessage);
+  return { ...fresh, title: text(s.title), messages, createdAt: isNumber(s.createdAt) ? s.createdAt : fresh.createdAt };
+}
+
+// Saves an exported thread on this device (see parseThread).
+export const importThread = (json: string): Promise<ChatSession> => saveSession(parseThread(json));
+
+export function downloadFile(name: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = name;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
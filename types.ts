@@ -1,9 +1,37 @@
 
+import type { TutorErrorKind } from './errors';
+
 export interface Message {
   id: string;
   text: string;
   sender: 'user' | 'bot';
   sources?: Source[];
+  // Which sources back which parts of the text (grounded answers only).
+  citations?: Citation[];
+  error?: MessageError;
+  // Asked while offline; waiting in the outbox to be sent.
+  pending?: boolean;
+  attachments?: Attachment[];
+  // The system prompt a bot reply was generated with, e.g. "qa@1" (see
+  // PROMPTS in constants.ts).
+  promptVersion?: string;
+}
+
+// A photo the student attached, already downscaled on the device (see
+// images.ts) and stored inline so it persists with the thread.
+export interface Attachment {
+  id: string;
+  kind: 'image';
+  mimeType: string;
+  // Base64 without the data: URL prefix, as the API expects it.
+  data: string;
+  width: number;
+  height: number;
+}
+
+// Shown in the interface language as error.<kind> (see locales/).
+export interface MessageError {
+  kind: TutorErrorKind;
 }
 
 export interface Source {
@@ -11,13 +39,246 @@ export interface Source {
   title: string;
 }
 
+// A claim in a grounded answer: the text up to `end` (a character offset into
+// the message text) is supported by the sources at `uris`.
+export interface Citation {
+  end: number;
+  uris: string[];
+}
+
+// Domains the student trusts or rejects as sources, e.g. "stbb.edu.pk". An
+// entry also covers its subdomains, so "gov.pk" matches "sindh.gov.pk".
+export interface SourcePolicy {
+  allow: string[];
+  deny: string[];
+}
+
+export type SourceTrust = 'trusted' | 'untrusted' | 'unverified';
+
+// How the tutor wants answers given, set on the tutor settings screen and
+// applied to every chat prompt (see buildPrompt in constants.ts).
+export interface TutorSettings {
+  tone: 'friendly' | 'formal' | 'concise';
+  // Only the answer language, or with English technical terms, or with
+  // English definitions alongside.
+  languageMix: 'pure' | 'terms' | 'bilingual';
+  // Strictly the board syllabus, or beyond it when the student asks.
+  scope: 'syllabus' | 'extended';
+}
+
+// Language of the app's own labels, as opposed to the answer language.
+export type UiLang = 'en' | 'ur' | 'sd';
+
+// Everything the student or tutor sets once for this device, stored by
+// settings.ts. Views take their defaults from here.
+export interface Settings {
+  defaultSubject: string;
+  answerLang: string;
+  uiLang: UiLang;
+  theme: 'dark' | 'light';
+  textSize: 'small' | 'medium' | 'large';
+  // Turns off web grounding whatever `searchGrounding` says.
+  dataSaver: boolean;
+  // Google Search grounding for the AI Tutor, Solved and Practical views.
+  searchGrounding: boolean;
+  tutor: TutorSettings;
+  sourcePolicy: SourcePolicy;
+  // Chosen read-aloud voice (voiceURI) per answer language.
+  voices: Record<string, string>;
+}
+
+export interface WordBreakdown {
+  original: string;
+  translation: string;
+  // Roman-script reading of whichever side is in Urdu or Sindhi script.
+  transliteration: string;
+  partOfSpeech: string;
+  // A short sentence using the word, in the source language.
+  example: string;
+}
+
 export interface TranslatorResponse {
+  // The language the input was detected as, e.g. "Urdu".
+  sourceLang: string;
   mainTranslation: string;
+  transliteration: string;
+  explanation: string;
+  wordByWord: WordBreakdown[];
+}
+
+export type AppView = 'dashboard' | 'qa' | 'books' | 'practical' | 'translator' | 'grammar' | 'quiz' | 'progress' | 'teacher' | 'assignment' | 'vocabulary' | 'about' | 'contact' | 'settings';
+
+export interface ChatSession {
+  id: string;
+  title: string;
+  view: AppView;
+  subject: string;
+  lang: string;
+  messages: Message[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type QuizQuestionKind = 'mcq' | 'blank' | 'short';
+
+export interface QuizQuestion {
+  id: string;
+  kind: QuizQuestionKind;
+  prompt: string;
+  // MCQ choices; `answer` is always one of them.
+  options?: string[];
+  answer: string;
+  // Points a short answer must cover to earn credit.
+  keywords?: string[];
+  explanation: string;
+}
+
+export interface Quiz {
+  subject: string;
+  chapter?: string;
+  lang: string;
+  questions: QuizQuestion[];
+}
+
+export interface QuizAnswer {
+  questionId: string;
+  response: string;
+  // 0–1; partial credit only for short answers.
+  score: number;
+  correct: boolean;
+}
+
+export interface QuizResult {
+  quiz: Quiz;
+  answers: QuizAnswer[];
+  score: number;
+  durationMs: number;
+  finishedAt: number;
+}
+
+export type ActivityKind = 'question' | 'exercise' | 'quiz' | 'review';
+
+export interface ActivityEvent {
+  id: string;
+  kind: ActivityKind;
+  subject: string;
+  // Chapter or question title the activity was about.
+  topic: string;
+  at: number;
+  // 0–1 for graded activity (quizzes and reviews); absent otherwise.
+  score?: number;
+}
+
+// SM-2 state shared by everything the student reviews (see srs.ts).
+export interface Schedule {
+  ease: number;
+  intervalDays: number;
+  repetitions: number;
+  due: number;
+  lastReviewed?: number;
+}
+
+// One topic in the spaced-repetition deck, scheduled with SM-2.
+export interface ReviewCard extends Schedule {
+  id: string;
+  subject: string;
+  topic: string;
+  // Where reviewing the card takes the student, and what it asks there.
+  view: AppView;
+  prompt: string;
+}
+
+// A word saved from the translator, reviewed as a flashcard.
+export interface VocabEntry extends WordBreakdown, Schedule {
+  id: string;
+  sourceLang: string;
+  targetLang: string;
+  addedAt: number;
+}
+
+export interface AssignmentQuestion {
+  id: string;
+  prompt: string;
+  // Model answer for the tutor; left out of links sent to students.
+  answerKey?: string;
+}
+
+// A set of questions a tutor sends to students. It travels inside the share
+// link itself (see assignments.ts), so no server is involved.
+export interface Assignment {
+  id: string;
+  title: string;
+  subject: string;
+  chapter?: string;
+  lang: string;
+  questions: AssignmentQuestion[];
+  createdAt: number;
+  // Written on this device in teacher mode, rather than received as a link.
+  authored?: boolean;
+}
+
+export interface SubmissionAnswer {
+  questionId: string;
+  text: string;
+  at: number;
+  // The tutor's verdict while reviewing; absent until marked.
+  correct?: boolean;
+}
+
+// A student's answers to an assignment. Students keep a draft on their device
+// and export it as a file; tutors import that file to review it.
+export interface Submission {
+  id: string;
+  assignment: Assignment;
+  student: string;
+  answers: SubmissionAnswer[];
+  startedAt: number;
+  submittedAt?: number;
+  // Imported from a student's file, as opposed to this device's own draft.
+  received?: boolean;
+}
+
+export type DrillKind = 'tense' | 'voice' | 'narration' | 'urdu' | 'sindhi';
+
+// One sentence-transformation exercise, e.g. "Change into passive voice".
+export interface DrillExercise {
+  id: string;
+  kind: DrillKind;
+  // One of the rules listed for the kind in drills.ts.
+  rule: string;
+  instruction: string;
+  sentence: string;
+  answer: string;
+  // Points a correct answer must get right, checked one by one when grading.
+  rubric: string[];
+}
+
+// A word or inflection the student got wrong. `wrong` is empty when
+// something is missing rather than mistaken.
+export interface DrillMistake {
+  wrong: string;
+  correct: string;
+  note: string;
+}
+
+export interface DrillFeedback {
+  correct: boolean;
+  // Share of rubric points met, 0–1.
+  score: number;
+  // One entry per rubric point.
+  met: boolean[];
+  mistakes: DrillMistake[];
+  corrected: string;
   explanation: string;
-  wordByWord: {
-    original: string;
-    translation: string;
-  }[];
 }
 
-export type AppView = 'dashboard' | 'qa' | 'books' | 'translator' | 'grammar';
+export interface DrillAttempt {
+  id: string;
+  kind: DrillKind;
+  rule: string;
+  sentence: string;
+  response: string;
+  score: number;
+  correct: boolean;
+  at: number;
+}
@@ -1,17 +1,113 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import crypto from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { en } from './locales/en';
+import { ur } from './locales/ur';
+import { sd } from './locales/sd';
+import { ANSWER_LANGUAGES, SUBJECTS } from './constants';
+
+// Copies sw.js into the build with the list of emitted files and a version
+// derived from them, so every deploy gets a fresh precache and old caches
+// are dropped on activate. Public files keep their names from build to build,
+// so their contents go into the version as well. curriculum.json is left out:
+// teachers edit it on the deployed site, and sw.js fetches it network-first.
+const LIVE_FILES = ['curriculum.json'];
+
+function precacheServiceWorker(): Plugin {
+  let outDir = 'dist';
+  let publicDir = '';
+  const listFiles = (dir: string): string[] => !dir || !fs.existsSync(dir) ? [] : fs.readdirSync(dir, { recursive: true, withFileTypes: true })
+    .filter(entry => entry.isFile())
+    .map(entry => path.relative(dir, path.join(entry.parentPath, entry.name)).split(path.sep).join('/'));
+
+  return {
+    name: 'signify-precache-sw',
+    apply: 'build',
+    configResolved(config) {
+      outDir = config.build.outDir;
+      publicDir = config.publicDir;
+    },
+    writeBundle(_, bundle) {
+      // KaTeX ships each font as woff2, woff and ttf; every browser that runs
+      // the service worker uses woff2, so the fallbacks are not precached.
+      const publicFiles = listFiles(publicDir).filter(f => !LIVE_FILES.includes(f));
+      const files = [...Object.keys(bundle), ...publicFiles].filter(f => !/\.(map|woff|ttf)$/.test(f));
+      const assets = ['./', ...files.map(f => `./${f}`)];
+      const hash = crypto.createHash('sha256').update(assets.join('\n'));
+      publicFiles.forEach(f => hash.update(fs.readFileSync(path.join(publicDir, f))));
+      const version = hash.digest('hex').slice(0, 12);
+      const source = fs.readFileSync(path.resolve('sw.js'), 'utf8')
+        .replace('/*__PRECACHE_MANIFEST__*/ null', JSON.stringify({ version, assets }));
+      fs.writeFileSync(path.resolve(outDir, 'sw.js'), source);
+    },
+  };
+}
+
+// Fails the build when a UI catalogue is missing a key, has one English does
+// not, drops a {placeholder}, or when the source calls t() with a key that
+// does not exist. In development the same problems are only warned about.
+function checkCatalogues(): Plugin {
+  let command = 'serve';
+  const placeholders = (text: string) => (text.match(/\{\w+\}/g) || []).sort().join();
+  const sourceFiles = (dir: string): string[] => fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory()) return ['node_modules', 'dist', 'public', '.git'].includes(entry.name) ? [] : sourceFiles(file);
+    return /\.tsx?$/.test(entry.name) ? [file] : [];
+  });
+
+  return {
+    name: 'signify-check-catalogues',
+    configResolved(config) {
+      command = config.command;
+    },
+    buildStart() {
+      const problems: string[] = [];
+      const keys = Object.keys(en) as (keyof typeof en)[];
+      for (const [lang, catalogue] of Object.entries({ ur, sd })) {
+        const extra = Object.keys(catalogue).filter(k => !(k in en));
+        if (extra.length) problems.push(`${lang}: keys not in en: ${extra.join(', ')}`);
+        for (const key of keys) {
+          if (!catalogue[key]?.trim()) problems.push(`${lang}: missing ${key}`);
+          else if (placeholders(catalogue[key]) !== placeholders(en[key])) problems.push(`${lang}: ${key} should use ${placeholders(en[key]) || 'no placeholders'}`);
+        }
+      }
+      // Subjects and languages are looked up by value (valueLabel in i18n.ts).
+      const values = [...SUBJECTS.map(s => `subject.${s}`), ...ANSWER_LANGUAGES.map(l => `lang.${l}`)];
+      values.filter(k => !(k in en)).forEach(k => problems.push(`en: missing ${k}`));
+      for (const file of sourceFiles(path.resolve('.'))) {
+        for (const [, key] of fs.readFileSync(file, 'utf8').matchAll(/\bt\(\s*'([^']+)'/g)) {
+          if (!(key in en)) problems.push(`${path.relative('.', file)}: unknown key ${key}`);
+        }
+      }
+      if (!problems.length) return;
+      const message = `UI catalogues (locales/):\n  ${problems.join('\n  ')}`;
+      if (command === 'build') this.error(message);
+      else this.warn(message);
+    },
+  };
+}
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     
-    // Ensure we are picking up GEMINI_API_KEY from the system env if loadEnv doesn't find it
-    const apiKey = env.GEMINI_API_KEY || env.VITE_GEMINI_API_KEY || process.env.GEMINI_API_KEY || '';
+    // The Gemini key stays with the proxy (server/proxy.ts); the browser only
+    // learns where to find it. Offline providers (mock, openai) are called
+    // directly and need no proxy.
+    const provider = env.AI_PROVIDER || 'gemini';
+    const proxyUrl = env.AI_PROXY_URL ?? (provider === 'gemini' ? '/api' : '');
+    const proxyPort = env.PROXY_PORT || '8787';
 
     return {
-      plugins: [react()],
+      plugins: [react(), checkCatalogues(), precacheServiceWorker()],
       define: {
-        'process.env.API_KEY': JSON.stringify(apiKey),
+        'process.env.API_KEY': JSON.stringify(''),
+        'process.env.AI_PROXY_URL': JSON.stringify(proxyUrl),
+        // gemini (default) | mock | openai — see providers/index.ts
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER || ''),
+        'process.env.AI_BASE_URL': JSON.stringify(env.AI_BASE_URL || ''),
+        'process.env.AI_MODEL': JSON.stringify(env.AI_MODEL || ''),
       },
       resolve: {
         alias: {
@@ -20,11 +116,24 @@ export default defineConfig(({ mode }) => {
       },
       server: {
         port: 3000,
-        open: true
+        open: true,
+        proxy: {
+          '/api': `http://localhost:${proxyPort}`,
+        },
       },
       build: {
         outDir: 'dist',
-        sourcemap: true
+        sourcemap: true,
+        rollupOptions: {
+          output: {
+            // The renderer libraries change far less often than the app, so
+            // they get their own long-lived chunk.
+            manualChunks: {
+              markdown: ['marked', 'dompurify', 'katex', 'highlight.js/lib/core'],
+            },
+          },
+        },
+        chunkSizeWarningLimit: 600,
       }
     };
 });
\ No newline at end of file
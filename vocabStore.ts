@@ -0,0 +1,39 @@
+import { STORES, withStore } from './db';
+import { VocabEntry, WordBreakdown } from './types';
+import { Quality, schedule, unscheduled } from './srs';
+
+// The student's glossary: words saved from the translator, each scheduled
+// with SM-2 like the topic deck in progressStore.ts.
+
+export const vocabId = (word: Pick<WordBreakdown, 'original'>, sourceLang: string, targetLang: string) =>
+  `${sourceLang}:${targetLang}:${word.original.trim()}`.toLowerCase();
+
+// New words are due straight away so they can be practised the same day.
+export async function saveWord(word: WordBreakdown, sourceLang: string, targetLang: string): Promise<VocabEntry> {
+  const now = Date.now();
+  const entry: VocabEntry = { ...word, id: vocabId(word, sourceLang, targetLang), sourceLang, targetLang, addedAt: now, ...unscheduled(now) };
+  await withStore(STORES.vocabulary, 'readwrite', s => s.put(entry));
+  return entry;
+}
+
+export function deleteWord(id: string) {
+  return withStore(STORES.vocabulary, 'readwrite', s => s.delete(id));
+}
+
+// Newest first.
+export async function listWords(): Promise<VocabEntry[]> {
+  const words = await withStore<VocabEntry[]>(STORES.vocabulary, 'readonly', s => s.getAll());
+  return words.sort((a, b) => b.addedAt - a.addedAt);
+}
+
+// Most overdue first.
+export async function listDueWords(now = Date.now()): Promise<VocabEntry[]> {
+  const due = await withStore<VocabEntry[]>(STORES.vocabulary, 'readonly', s => s.index('due').getAll(IDBKeyRange.upperBound(now)));
+  return due.sort((a, b) => a.due - b.due);
+}
+
+export async function gradeWord(entry: VocabEntry, quality: Quality): Promise<VocabEntry> {
+  const updated = schedule(entry, quality);
+  await withStore(STORES.vocabulary, 'readwrite', s => s.put(updated));
+  return updated;
+}
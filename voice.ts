@@ -0,0 +1,65 @@
+import { InlineData } from './conversation';
+
+// Push-to-talk recording for the composer. Questions are short, so a
+// recording stops itself after a minute; that also keeps the upload small.
+export const MAX_RECORDING_MS = 60_000;
+
+export interface Recording {
+  // Resolves with the audio once the recorder has flushed its last chunk.
+  stop(): Promise<InlineData | null>;
+  cancel(): void;
+}
+
+// Opus in WebM (Chrome, Firefox) or MP4/AAC (Safari), whichever the browser
+// can produce; Gemini accepts both.
+const MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', 'audio/ogg'];
+
+function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const url = reader.result as string;
+      resolve(url.slice(url.indexOf(',') + 1));
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+export function canRecord(): boolean {
+  return typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+}
+
+// Asks for the microphone and starts recording. Rejects if the student
+// denies permission. `onLimit` fires when the time limit stops it early.
+export async function startRecording(onLimit: () => void): Promise<Recording> {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const mimeType = MIME_TYPES.find(t => MediaRecorder.isTypeSupported(t));
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType, audioBitsPerSecond: 32_000 } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => { if (e.data.size) chunks.push(e.data); };
+
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+  const release = () => stream.getTracks().forEach(t => t.stop());
+  const limit = setTimeout(onLimit, MAX_RECORDING_MS);
+  recorder.start();
+
+  const finish = async () => {
+    clearTimeout(limit);
+    if (recorder.state !== 'inactive') recorder.stop();
+    await stopped;
+    release();
+  };
+
+  return {
+    async stop() {
+      await finish();
+      if (chunks.length === 0) return null;
+      const blob = new Blob(chunks, { type: recorder.mimeType || 'audio/webm' });
+      return { mimeType: blob.type.split(';')[0], data: await blobToBase64(blob) };
+    },
+    cancel() {
+      finish().catch(() => {});
+    },
+  };
+}